@@ -0,0 +1,222 @@
+// bun-benchmark.ts
+// Usage:
+//   bun bun-benchmark.ts [--origin URL] [--region R]... [--type hyperdrive|bun-rest|pg-websocket]
+//     [--cached true|false] [--runs N] [--warmup N] [--delay MS]
+//     [--workload NAME] [--conn-mode MODE] [--queries N]
+//     [--json FILE] [--csv FILE] [--markdown FILE] [--budget SPEC]... [--skip-health]
+// Examples:
+//   bun bun-benchmark.ts --region us-east --cached false --runs 10
+//   bun bun-benchmark.ts --origin http://localhost:8787 --json report.json --csv samples.csv
+//   bun bun-benchmark.ts --type hyperdrive --budget p50=150 --budget server.p90=40
+import { write } from "bun";
+import { parseArgs } from "util";
+import { CONN_MODES, MAX_QUERIES } from "./src/lib/connmodes";
+import {
+  PAGE_ENDPOINTS,
+  PAGE_TYPE_LABELS,
+  REGIONS,
+  type PageEndpoint,
+} from "./src/lib/endpoints";
+import type { HealthReport } from "./src/lib/health";
+import { measureFetch } from "./src/lib/measure";
+import {
+  budgetViolations,
+  parseLatencyBudget,
+  reportToCsv,
+  reportToMarkdown,
+  summarizeCaching,
+  summarizeEndpoints,
+  toSample,
+  type BenchmarkReport,
+  type BenchmarkSample,
+  type LatencyBudget,
+} from "./src/lib/report";
+import { WORKLOAD_NAMES } from "./src/lib/workloads";
+
+// --- Configuration ---
+const DEFAULT_ORIGIN = "https://bunvhd.tripcafe.org";
+// Same as the page
+const DEFAULT_RUNS = 5;
+const DEFAULT_WARMUP_RUNS = 1;
+const DEFAULT_DELAY_MS = 3000;
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+function parseCount(value: string, name: string, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    fail(`--${name} must be a whole number of at least ${min}.`);
+  }
+  return parsed;
+}
+
+// --- CLI ---
+const { values } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    origin: { type: "string", default: DEFAULT_ORIGIN },
+    region: { type: "string", multiple: true },
+    type: { type: "string" },
+    cached: { type: "string" },
+    runs: { type: "string", default: String(DEFAULT_RUNS) },
+    warmup: { type: "string", default: String(DEFAULT_WARMUP_RUNS) },
+    delay: { type: "string", default: String(DEFAULT_DELAY_MS) },
+    workload: { type: "string" },
+    "conn-mode": { type: "string" },
+    queries: { type: "string" },
+    json: { type: "string" },
+    csv: { type: "string" },
+    markdown: { type: "string" },
+    budget: { type: "string", multiple: true },
+    "skip-health": { type: "boolean", default: false },
+  },
+});
+
+const origin = values.origin!.replace(/\/$/, "");
+if (!URL.canParse(origin)) fail(`--origin ${origin} is not a URL.`);
+
+const runs = parseCount(values.runs!, "runs", 1);
+const warmupRuns = parseCount(values.warmup!, "warmup", 0);
+const delayMs = parseCount(values.delay!, "delay", 0);
+if (warmupRuns >= runs) fail("--warmup must be less than --runs.");
+
+// Regions may be repeated or comma separated
+const regions = (values.region ?? []).flatMap((value) => value.split(","));
+for (const region of regions) {
+  if (!Object.hasOwn(REGIONS, region)) {
+    fail(
+      `Unknown region ${region}. Use one of: ${Object.keys(REGIONS).join(
+        ", "
+      )}.`
+    );
+  }
+}
+if (values.type && !Object.hasOwn(PAGE_TYPE_LABELS, values.type)) {
+  fail(`--type must be one of: ${Object.keys(PAGE_TYPE_LABELS).join(", ")}.`);
+}
+if (values.cached && values.cached !== "true" && values.cached !== "false") {
+  fail("--cached must be true or false.");
+}
+
+// Sent with every request, as the page does for non-default settings
+const params: Record<string, string> = {};
+if (values.workload) {
+  if (!(WORKLOAD_NAMES as readonly string[]).includes(values.workload)) {
+    fail(`Unknown workload. Use one of: ${WORKLOAD_NAMES.join(", ")}.`);
+  }
+  params.workload = values.workload;
+}
+if (values["conn-mode"]) {
+  if (!(CONN_MODES as readonly string[]).includes(values["conn-mode"])) {
+    fail(`Unknown connection mode. Use one of: ${CONN_MODES.join(", ")}.`);
+  }
+  params.connMode = values["conn-mode"];
+}
+if (values.queries) {
+  const queries = parseCount(values.queries, "queries", 1);
+  if (queries > MAX_QUERIES) fail(`--queries must be at most ${MAX_QUERIES}.`);
+  params.queries = String(queries);
+}
+
+const budgets: LatencyBudget[] = (values.budget ?? []).map((spec) => {
+  const { value, error } = parseLatencyBudget(spec);
+  if (error) fail(`${error}.`);
+  return value!;
+});
+
+const selected = PAGE_ENDPOINTS.filter(
+  (endpoint) =>
+    (regions.length === 0 || regions.includes(endpoint.region)) &&
+    (!values.type || endpoint.type === values.type) &&
+    (!values.cached || String(endpoint.cached) === values.cached)
+);
+if (selected.length === 0) fail("No endpoint matches the filters.");
+
+// --- Benchmark ---
+function shuffleArray<T>(array: T[]): T[] {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+  return array;
+}
+
+function withParams(url: string): string {
+  const query = new URLSearchParams(params).toString();
+  return query ? `${url}&${query}` : url;
+}
+
+// Drops endpoints that fail /api/health; without a report every endpoint is tried
+async function healthyEndpoints(
+  endpoints: PageEndpoint[]
+): Promise<PageEndpoint[]> {
+  try {
+    const response = await fetch(`${origin}/api/health`, {
+      headers: { Accept: "application/json" },
+    });
+    const report = (await response.json()) as HealthReport;
+    return endpoints.filter((endpoint) => {
+      const check = report.endpoints?.[endpoint.id];
+      if (check && !check.ok) {
+        console.error(`Skipping ${endpoint.id}: ${check.error}`);
+        return false;
+      }
+      return true;
+    });
+  } catch (error: any) {
+    console.error(
+      `Health check failed, trying every endpoint: ${error.message}`
+    );
+    return endpoints;
+  }
+}
+
+const startedAt = new Date().toISOString();
+const endpoints = values["skip-health"]
+  ? selected
+  : await healthyEndpoints(selected);
+if (endpoints.length === 0) fail("No endpoint passed its health check.");
+
+const samples: BenchmarkSample[] = [];
+for (let runId = 1; runId <= runs; runId++) {
+  if (runId > 1) await Bun.sleep(delayMs);
+  const warmup = runId <= warmupRuns;
+  console.error(
+    `Run ${runId}/${runs}${warmup ? " (warm-up)" : ""}: ${
+      endpoints.length
+    } endpoints`
+  );
+  for (const endpoint of shuffleArray([...endpoints])) {
+    const result = await measureFetch(withParams(endpoint.url), origin);
+    samples.push(toSample(endpoint.id, runId, warmup, result));
+  }
+}
+
+// --- Reports ---
+const report: BenchmarkReport = {
+  origin,
+  startedAt,
+  params,
+  runs,
+  warmupRuns,
+  endpoints: summarizeEndpoints(endpoints, samples),
+  cache: summarizeCaching(endpoints, samples),
+  samples,
+};
+
+const markdown = reportToMarkdown(report);
+console.log(markdown);
+if (values.json) await write(values.json, JSON.stringify(report, null, 2));
+if (values.csv) await write(values.csv, reportToCsv(report));
+if (values.markdown) await write(values.markdown, markdown);
+
+const violations = budgetViolations(report, budgets);
+if (violations.length > 0) {
+  console.error("Latency budget exceeded:");
+  for (const violation of violations) console.error(`  ${violation}`);
+  // Distinct from 1, which means the benchmark could not run
+  process.exit(2);
+}
@@ -0,0 +1,180 @@
+// bun-db-cli.ts
+// Usage:
+//   bun bun-db-cli.ts migrate
+//   bun bun-db-cli.ts seed --rows 10000 --seed 42
+//   bun bun-db-cli.ts reset --rows 10000 --seed 42   (migrate + seed)
+import { CryptoHasher, env } from "bun";
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import postgres from "postgres";
+import { generateDataset } from "./src/lib/dataset";
+
+// --- Configuration ---
+const DATABASE_URL = env.DATABASE_URL;
+const MIGRATIONS_DIR = path.join(import.meta.dir, "sql");
+const MIGRATION_FILE_PATTERN = /^(\d+)(?:[-_][\w-]+)?\.sql$/;
+const INSERT_BATCH_SIZE = 1000;
+
+interface Migration {
+  version: number;
+  name: string;
+  contents: string;
+  checksum: string;
+}
+
+// --- Migrations ---
+function loadMigrations(): Migration[] {
+  return fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter((name) => MIGRATION_FILE_PATTERN.test(name))
+    .map((name) => {
+      const contents = fs.readFileSync(path.join(MIGRATIONS_DIR, name), "utf8");
+      return {
+        version: parseInt(name.match(MIGRATION_FILE_PATTERN)![1], 10),
+        name,
+        contents,
+        checksum: new CryptoHasher("sha256").update(contents).digest("hex"),
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+}
+
+async function migrate(sql: postgres.Sql): Promise<void> {
+  await sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version integer PRIMARY KEY,
+      name text NOT NULL,
+      checksum text NOT NULL,
+      applied_at timestamptz NOT NULL DEFAULT now()
+    );
+  `;
+
+  const applied = new Map(
+    (
+      await sql<{ version: number; checksum: string }[]>`
+        SELECT version, checksum FROM schema_migrations
+      `
+    ).map((row) => [row.version, row.checksum])
+  );
+
+  let appliedCount = 0;
+  for (const migration of loadMigrations()) {
+    const previousChecksum = applied.get(migration.version);
+    if (previousChecksum !== undefined) {
+      if (previousChecksum !== migration.checksum) {
+        console.warn(
+          `Warning: ${migration.name} changed since it was applied (checksum mismatch).`
+        );
+      }
+      continue;
+    }
+
+    console.log(`Applying ${migration.name}...`);
+    await sql.begin(async (tx) => {
+      await tx.unsafe(migration.contents);
+      await tx`
+        INSERT INTO schema_migrations (version, name, checksum)
+        VALUES (${migration.version}, ${migration.name}, ${migration.checksum})
+      `;
+    });
+    appliedCount++;
+  }
+
+  console.log(
+    appliedCount > 0
+      ? `Applied ${appliedCount} migration(s).`
+      : "Database schema is up to date."
+  );
+}
+
+// --- Seeding ---
+async function insertInBatches(
+  tx: postgres.TransactionSql,
+  table: string,
+  rows: Record<string, unknown>[]
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    await tx`INSERT INTO ${tx(table)} ${tx(batch as Record<string, any>[])}`;
+  }
+}
+
+async function seed(
+  sql: postgres.Sql,
+  rows: number,
+  seedValue: number
+): Promise<void> {
+  console.log(`Generating ${rows} cities from seed ${seedValue}...`);
+  const dataset = generateDataset(rows, seedValue);
+
+  await sql.begin(async (tx) => {
+    // RESTART IDENTITY keeps city_id values identical across databases
+    await tx`TRUNCATE landmarks, cities, countries RESTART IDENTITY CASCADE`;
+    await insertInBatches(tx, "countries", dataset.countries);
+    await insertInBatches(tx, "cities", dataset.cities);
+    await insertInBatches(tx, "landmarks", dataset.landmarks);
+  });
+
+  // Fresh statistics so every region plans queries the same way
+  await sql`ANALYZE countries, cities, landmarks`;
+
+  console.log(
+    `Seeded ${dataset.countries.length} countries, ${dataset.cities.length} cities and ${dataset.landmarks.length} landmarks.`
+  );
+}
+
+// --- CLI ---
+function parseIntOption(value: string, name: string, min: 0 | 1): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < min) {
+    console.error(
+      `Error: --${name} must be a ${
+        min === 0 ? "non-negative" : "positive"
+      } integer.`
+    );
+    process.exit(1);
+  }
+  return parseInt(value, 10);
+}
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    rows: { type: "string", default: "10000" },
+    seed: { type: "string", default: "42" },
+  },
+  allowPositionals: true,
+});
+
+const command = positionals[0];
+if (command !== "migrate" && command !== "seed" && command !== "reset") {
+  console.error(
+    "Usage: bun bun-db-cli.ts <migrate|seed|reset> [--rows N] [--seed N]"
+  );
+  process.exit(1);
+}
+
+if (!DATABASE_URL) {
+  console.error("FATAL: DATABASE_URL environment variable not set.");
+  process.exit(1);
+}
+
+const rows = parseIntOption(values.rows!, "rows", 1);
+const seedValue = parseIntOption(values.seed!, "seed", 0);
+
+// Silence the notices from `DROP TABLE IF EXISTS` in the migrations
+const sql = postgres(DATABASE_URL, { max: 1, onnotice: () => {} });
+
+try {
+  if (command === "migrate" || command === "reset") {
+    await migrate(sql);
+  }
+  if (command === "seed" || command === "reset") {
+    await seed(sql, rows, seedValue);
+  }
+} catch (err) {
+  console.error(`Error running ${command}:`, err);
+  process.exitCode = 1;
+} finally {
+  await sql.end({ timeout: 5 });
+}
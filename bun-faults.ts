@@ -0,0 +1,203 @@
+// bun-faults.ts - Fault injection for the Bun REST API, to benchmark degraded conditions
+import { createRandom } from "./src/lib/dataset";
+
+// Faults are requested with `?fault=...` or this header, e.g.
+// `latency:200,error:0.1,drop:0.05,slowBody:500,seed:42`
+export const FAULT_PARAM = "fault";
+export const FAULT_HEADER = "X-Bunvhd-Fault";
+// Set on responses whose fault was injected, with the fault's name
+export const INJECTED_FAULT_HEADER = "X-Bunvhd-Injected-Fault";
+
+export const MAX_FAULT_DELAY_MS = 30_000;
+// Seeded sequences kept before the oldest is dropped
+const MAX_SEEDS = 100;
+// The body is released in this many pieces over `slowBodyMs`
+const SLOW_BODY_CHUNKS = 10;
+
+export interface FaultSpec {
+  latencyMs: number; // Added before the request is handled
+  errorRate: number; // Share of requests answered with a 503
+  dropRate: number; // Share of connections closed without a response
+  slowBodyMs: number; // Spread of the body's bytes over this long
+  seed: number | null; // Makes the error and drop sequence reproducible
+}
+
+const FAULT_KEYS: Record<string, keyof FaultSpec> = {
+  latency: "latencyMs",
+  error: "errorRate",
+  drop: "dropRate",
+  slowBody: "slowBodyMs",
+  seed: "seed",
+};
+
+/**
+ * Read a fault spec such as `latency:200,error:0.1`
+ * @returns The spec (null when `value` is empty), or an error message
+ */
+export function parseFaultSpec(value: string | null): {
+  spec: FaultSpec | null;
+  error: string | null;
+} {
+  if (!value) return { spec: null, error: null };
+  const spec: FaultSpec = {
+    latencyMs: 0,
+    errorRate: 0,
+    dropRate: 0,
+    slowBodyMs: 0,
+    seed: null,
+  };
+
+  for (const part of value.split(",")) {
+    const [name, raw = ""] = part.trim().split(":");
+    if (!Object.hasOwn(FAULT_KEYS, name)) {
+      return {
+        spec: null,
+        error: `Unknown fault: ${name}. Expected one of ${Object.keys(
+          FAULT_KEYS
+        ).join(", ")}`,
+      };
+    }
+    const key = FAULT_KEYS[name];
+    const number = Number(raw);
+    if (raw === "" || !isFinite(number) || number < 0) {
+      return { spec: null, error: `${name} must be a non-negative number` };
+    }
+    if ((key === "errorRate" || key === "dropRate") && number > 1) {
+      return { spec: null, error: `${name} must be between 0 and 1` };
+    }
+    if (
+      (key === "latencyMs" || key === "slowBodyMs") &&
+      number > MAX_FAULT_DELAY_MS
+    ) {
+      return {
+        spec: null,
+        error: `${name} must be at most ${MAX_FAULT_DELAY_MS} ms`,
+      };
+    }
+    if (key === "seed" && !Number.isInteger(number)) {
+      return { spec: null, error: "seed must be a whole number" };
+    }
+    spec[key] = number;
+  }
+
+  if (spec.errorRate + spec.dropRate > 1) {
+    return { spec: null, error: "error and drop must add up to at most 1" };
+  }
+  return { spec, error: null };
+}
+
+/**
+ * The fault spec of a request, from its query string or header
+ */
+export function requestFaultSpec(req: Request): {
+  spec: FaultSpec | null;
+  error: string | null;
+} {
+  return parseFaultSpec(
+    new URL(req.url).searchParams.get(FAULT_PARAM) ??
+      req.headers.get(FAULT_HEADER)
+  );
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Closes the connection as soon as Bun starts writing the response
+function droppedResponse(): Response {
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        controller.error(new Error("Injected fault: drop"));
+      },
+    })
+  );
+}
+
+// The same body, released in pieces over `durationMs`
+async function slowBody(
+  response: Response,
+  durationMs: number
+): Promise<Response> {
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const chunkSize = Math.max(1, Math.ceil(bytes.length / SLOW_BODY_CHUNKS));
+  const pause = durationMs / SLOW_BODY_CHUNKS;
+  let offset = 0;
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  headers.set(INJECTED_FAULT_HEADER, "slowBody");
+  return new Response(
+    new ReadableStream({
+      async pull(controller) {
+        await delay(pause);
+        controller.enqueue(bytes.subarray(offset, offset + chunkSize));
+        offset += chunkSize;
+        if (offset >= bytes.length) controller.close();
+      },
+    }),
+    { status: response.status, headers }
+  );
+}
+
+export interface FaultInjector {
+  /**
+   * Handle a request under `spec`: wait, then fail it, drop it or let
+   * `handle` answer, with the body slowed down
+   */
+  apply(spec: FaultSpec, handle: () => Promise<Response>): Promise<Response>;
+}
+
+/**
+ * Requests with the same `seed` share one sequence of rolls from server
+ * start, so a benchmark sees the same errors and drops every time it is
+ * run against a fresh server
+ */
+export function createFaultInjector(
+  random: () => number = Math.random
+): FaultInjector {
+  const seeded = new Map<number, () => number>();
+
+  function roll(seed: number | null): number {
+    if (seed === null) return random();
+    let next = seeded.get(seed);
+    if (!next) {
+      next = createRandom(seed);
+      seeded.set(seed, next);
+      if (seeded.size > MAX_SEEDS) {
+        seeded.delete(seeded.keys().next().value!);
+      }
+    }
+    return next();
+  }
+
+  return {
+    async apply(spec, handle) {
+      if (spec.latencyMs > 0) await delay(spec.latencyMs);
+
+      const value = roll(spec.seed);
+      if (value < spec.dropRate) return droppedResponse();
+      if (value < spec.dropRate + spec.errorRate) {
+        return new Response(
+          JSON.stringify({
+            data: null,
+            timeMs: 0,
+            error: "Injected fault: error",
+          }),
+          {
+            status: 503,
+            headers: {
+              "Content-Type": "application/json",
+              "Cache-Control": "no-store",
+              [INJECTED_FAULT_HEADER]: "error",
+            },
+          }
+        );
+      }
+
+      const response = await handle();
+      return spec.slowBodyMs > 0 && response.body
+        ? slowBody(response, spec.slowBodyMs)
+        : response;
+    },
+  };
+}
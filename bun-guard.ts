@@ -0,0 +1,100 @@
+// bun-guard.ts - Authentication and rate limiting for the Bun REST API's query routes and tunnel
+import type { Logger, ServerConfig } from "./bun-server-config";
+import {
+  API_KEY_HEADER,
+  readRequestSignature,
+  timingSafeEqual,
+  verifyRequestSignature,
+} from "./src/lib/auth";
+import { createRateLimiter, rateLimitHeaders } from "./src/lib/ratelimit";
+
+/**
+ * Check a request before it is handled
+ * @returns A 401 or 429 response to send instead, or null to go on
+ */
+export type RequestGuard = (
+  req: Request,
+  clientIp: string | null
+) => Promise<Response | null>;
+
+function refusal(
+  status: number,
+  error: string,
+  headers: Record<string, string>
+): Response {
+  return new Response(JSON.stringify({ data: null, timeMs: 0, error }), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Requests are let through when they carry one of `apiKeys`, or a valid
+ * signature from the Worker (`signingSecret`). With neither configured,
+ * anyone may query, as before. Each API key gets its own rate-limit
+ * bucket; signed requests are limited by the client IP the Worker signs
+ * into them, and the rest by their own IP.
+ */
+export function createRequestGuard(
+  config: Pick<ServerConfig, "apiKeys" | "signingSecret" | "rateLimit">,
+  log: Logger
+): RequestGuard {
+  const limiter = config.rateLimit && createRateLimiter(config.rateLimit);
+  const authRequired = config.apiKeys.length > 0 || !!config.signingSecret;
+
+  // The rate-limit key of a request, or why it is refused
+  async function identify(
+    req: Request,
+    clientIp: string | null
+  ): Promise<{ key: string | null; error: string | null }> {
+    const apiKey = req.headers.get(API_KEY_HEADER);
+    if (apiKey !== null && config.apiKeys.length > 0) {
+      const index = config.apiKeys.findIndex((key) =>
+        timingSafeEqual(apiKey, key)
+      );
+      return index === -1
+        ? { key: null, error: "Invalid API key" }
+        : { key: `key:${index}`, error: null };
+    }
+
+    const signed = readRequestSignature(req);
+    if (signed && config.signingSecret) {
+      const error = await verifyRequestSignature(config.signingSecret, req);
+      if (error) return { key: null, error };
+      // Signed, so a relay cannot switch buckets by changing it
+      return { key: `ip:${signed.clientIp || clientIp}`, error: null };
+    }
+
+    if (authRequired) {
+      return { key: null, error: "Missing API key or request signature" };
+    }
+    return { key: `ip:${clientIp}`, error: null };
+  }
+
+  return async (req, clientIp) => {
+    const { key, error } = await identify(req, clientIp);
+    if (error) {
+      log.debug(`Refusing ${req.method} ${req.url} from ${clientIp}: ${error}`);
+      return refusal(401, error, {
+        "WWW-Authenticate": `ApiKey header="${API_KEY_HEADER}"`,
+      });
+    }
+
+    if (limiter) {
+      const decision = limiter.take(key!);
+      if (!decision.allowed) {
+        log.debug(`Rate limited ${key}`);
+        return refusal(
+          429,
+          `Too many requests, retry in ${decision.retryAfterSeconds}s`,
+          rateLimitHeaders(config.rateLimit!, decision)
+        );
+      }
+    }
+    return null;
+  };
+}
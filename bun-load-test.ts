@@ -0,0 +1,198 @@
+// bun-load-test.ts
+// Usage:
+//   bun bun-load-test.ts <endpoint-key | url> [--rps N | --concurrency N]
+//     [--ramp-up S] [--steady S] [--ramp-down S] [--interval S]
+//     [--max-in-flight N] [--timeout MS] [--origin URL] [--query Q] [--json FILE]
+// Examples:
+//   bun bun-load-test.ts non-cached-query-us-east --concurrency 20 --steady 60
+//   bun bun-load-test.ts bun-non-cached-hel --rps 50 --query workload=point-lookup
+//   bun bun-load-test.ts "https://bunvhd-db-eu-east.tripcafe.org/?_nc=true" --rps 100
+import { write } from "bun";
+import { parseArgs } from "util";
+import { ENDPOINT_CONFIG } from "./src/lib/endpoints";
+import {
+  DEFAULT_LOAD_TEST_PLAN,
+  httpSender,
+  loadTestUrl,
+  planDurationSeconds,
+  runLoadTest,
+  validateLoadTestPlan,
+  type LatencyPercentiles,
+  type LoadTestPlan,
+  type LoadWindow,
+} from "./src/lib/loadtest";
+
+// --- Configuration ---
+const DEFAULT_ORIGIN = "https://bunvhd.tripcafe.org";
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// --- CLI ---
+function parseNumber(value: string | undefined, name: string): number | null {
+  if (value === undefined) return null;
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed)) {
+    console.error(`Error: --${name} must be a number.`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    rps: { type: "string" },
+    concurrency: { type: "string" },
+    "ramp-up": { type: "string" },
+    steady: { type: "string" },
+    "ramp-down": { type: "string" },
+    interval: { type: "string" },
+    "max-in-flight": { type: "string" },
+    timeout: { type: "string" },
+    origin: { type: "string", default: DEFAULT_ORIGIN },
+    query: { type: "string", default: "" },
+    json: { type: "string" },
+  },
+  allowPositionals: true,
+});
+
+const target = positionals[0];
+if (!target || positionals.length > 1) {
+  console.error(
+    "Usage: bun bun-load-test.ts <endpoint-key | url> [--rps N | --concurrency N] [--ramp-up S] [--steady S] [--ramp-down S] [--interval S] [--max-in-flight N] [--timeout MS] [--origin URL] [--query Q] [--json FILE]"
+  );
+  console.error(`Endpoint keys: ${Object.keys(ENDPOINT_CONFIG).join(", ")}`);
+  process.exit(1);
+}
+
+if (values.rps !== undefined && values.concurrency !== undefined) {
+  console.error("Error: use either --rps or --concurrency, not both.");
+  process.exit(1);
+}
+
+const rps = parseNumber(values.rps, "rps");
+const concurrency = parseNumber(values.concurrency, "concurrency");
+const plan: LoadTestPlan = {
+  mode: rps !== null ? "rps" : "concurrency",
+  level: rps ?? concurrency ?? DEFAULT_LOAD_TEST_PLAN.level,
+  rampUpSeconds:
+    parseNumber(values["ramp-up"], "ramp-up") ??
+    DEFAULT_LOAD_TEST_PLAN.rampUpSeconds,
+  steadySeconds:
+    parseNumber(values.steady, "steady") ??
+    DEFAULT_LOAD_TEST_PLAN.steadySeconds,
+  rampDownSeconds:
+    parseNumber(values["ramp-down"], "ramp-down") ??
+    DEFAULT_LOAD_TEST_PLAN.rampDownSeconds,
+  intervalSeconds:
+    parseNumber(values.interval, "interval") ??
+    DEFAULT_LOAD_TEST_PLAN.intervalSeconds,
+  maxInFlight:
+    parseNumber(values["max-in-flight"], "max-in-flight") ??
+    DEFAULT_LOAD_TEST_PLAN.maxInFlight,
+};
+const timeoutMs = parseNumber(values.timeout, "timeout") ?? DEFAULT_TIMEOUT_MS;
+
+const problem = validateLoadTestPlan(plan);
+if (problem) {
+  console.error(`Error: ${problem}.`);
+  process.exit(1);
+}
+if (!(timeoutMs > 0)) {
+  console.error("Error: --timeout must be above 0.");
+  process.exit(1);
+}
+
+// An endpoint key goes through the Worker; anything else is fetched as-is
+let sequence = 0;
+let nextUrl: () => string;
+if (Object.hasOwn(ENDPOINT_CONFIG, target)) {
+  const origin = values.origin!.replace(/\/$/, "");
+  nextUrl = () => loadTestUrl(origin, target, sequence++, values.query);
+} else if (URL.canParse(target)) {
+  nextUrl = () => target;
+} else {
+  console.error(`Error: ${target} is neither an endpoint key nor a URL.`);
+  process.exit(1);
+}
+
+// --- Reporting ---
+function ms(value: number | null): string {
+  return value === null ? "-" : `${Math.round(value)}ms`;
+}
+
+function latencyColumns(latency: LatencyPercentiles): string {
+  return [latency.p50, latency.p90, latency.p99, latency.max]
+    .map((value) => ms(value).padStart(7))
+    .join(" ");
+}
+
+function printWindow(window: LoadWindow) {
+  console.log(
+    [
+      `${window.startSeconds.toFixed(0).padStart(5)}s`,
+      window.phase.padEnd(9),
+      window.targetLevel.toFixed(1).padStart(7),
+      String(window.started).padStart(6),
+      String(window.completed).padStart(6),
+      String(window.errors).padStart(5),
+      String(window.dropped).padStart(5),
+      window.achievedRps.toFixed(1).padStart(7),
+      latencyColumns(window.latency),
+    ].join(" ")
+  );
+}
+
+console.log(
+  `Load test: ${target} at ${plan.level} ${
+    plan.mode === "rps" ? "requests/s" : "concurrent requests"
+  } (ramp-up ${plan.rampUpSeconds}s, steady ${plan.steadySeconds}s, ramp-down ${
+    plan.rampDownSeconds
+  }s, ${planDurationSeconds(plan)}s total)`
+);
+console.log(
+  `${"time".padStart(6)} ${"phase".padEnd(9)} ${"target".padStart(
+    7
+  )} ${"sent".padStart(6)} ${"done".padStart(6)} ${"err".padStart(
+    5
+  )} ${"drop".padStart(5)} ${"rps".padStart(7)} ${["p50", "p90", "p99", "max"]
+    .map((label) => label.padStart(7))
+    .join(" ")}`
+);
+
+// Ctrl-C stops sending and still prints what was measured
+const controller = new AbortController();
+process.on("SIGINT", () => {
+  console.log("\nStopping; waiting for requests in flight...");
+  controller.abort();
+});
+
+const report = await runLoadTest(plan, httpSender(nextUrl, fetch, timeoutMs), {
+  onWindow: printWindow,
+  signal: controller.signal,
+});
+
+const { total } = report;
+console.log(
+  `\nSent ${total.started}, completed ${total.completed}, errors ${
+    total.errors
+  } (${(total.errorRate * 100).toFixed(1)}%), dropped ${
+    total.dropped
+  }, ${total.achievedRps.toFixed(
+    1
+  )} req/s over ${report.durationSeconds.toFixed(1)}s`
+);
+console.log(
+  `Latency p50 ${ms(total.latency.p50)}, p90 ${ms(total.latency.p90)}, p99 ${ms(
+    total.latency.p99
+  )}, max ${ms(total.latency.max)}`
+);
+for (const [message, count] of Object.entries(report.errors)) {
+  console.log(`  ${count}x ${message}`);
+}
+
+if (values.json) {
+  await write(values.json, JSON.stringify({ target, ...report }, null, 2));
+  console.log(`Report written to ${values.json}`);
+}
+
+process.exitCode = total.errors > 0 ? 1 : 0;
@@ -0,0 +1,170 @@
+// bun-metrics.ts - Prometheus metrics for the Bun REST API
+
+// Query latency buckets in seconds, from a warm pool hit to a slow scan
+export const QUERY_BUCKETS = [
+  0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export type CacheDecision =
+  | "ttl" // Cache headers sent for the requested TTL
+  | "no-ttl" // No (or a zero) cacheTtl / cdnCache parameter
+  | "write"; // The workload writes, so it is never cached
+
+interface Histogram {
+  buckets: number[]; // Cumulative counts, one per QUERY_BUCKETS entry
+  sum: number;
+  count: number;
+}
+
+export interface Metrics {
+  /** Wrap one unit of database work so the pool gauges can count it */
+  trackPool<T>(work: () => Promise<T>): Promise<T>;
+  /** For postgres.js `debug`: records connections that have run a query */
+  connectionUsed(connectionId: number): void;
+  /** For postgres.js `onclose` */
+  connectionClosed(connectionId: number): void;
+  observeQuery(workload: string, seconds: number): void;
+  countRequest(route: string, status: number): void;
+  countCacheDecision(decision: CacheDecision): void;
+  /** Everything in the Prometheus text exposition format */
+  render(): string;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function labels(pairs: Record<string, string>): string {
+  const inner = Object.entries(pairs)
+    .map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+    .join(",");
+  return inner ? `{${inner}}` : "";
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/**
+ * Metrics for one server process. postgres.js does not report on its pool,
+ * so the pool gauges are derived: work started through `trackPool` beyond
+ * `poolSize` is waiting, and connections seen by `debug` but not closed
+ * are open.
+ */
+export function createMetrics(poolSize: number): Metrics {
+  let active = 0; // Units of database work in flight
+  const openConnections = new Set<number>();
+  const queryHistograms = new Map<string, Histogram>();
+  const requestCounts = new Map<string, number>(); // Keyed by route and status
+  const cacheDecisions = new Map<string, number>();
+
+  return {
+    async trackPool(work) {
+      active++;
+      try {
+        return await work();
+      } finally {
+        active--;
+      }
+    },
+
+    connectionUsed(connectionId) {
+      openConnections.add(connectionId);
+    },
+
+    connectionClosed(connectionId) {
+      openConnections.delete(connectionId);
+    },
+
+    observeQuery(workload, seconds) {
+      let histogram = queryHistograms.get(workload);
+      if (!histogram) {
+        histogram = { buckets: QUERY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+        queryHistograms.set(workload, histogram);
+      }
+      QUERY_BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) histogram!.buckets[i]++;
+      });
+      histogram.sum += seconds;
+      histogram.count++;
+    },
+
+    countRequest(route, status) {
+      increment(requestCounts, JSON.stringify([route, String(status)]));
+    },
+
+    countCacheDecision(decision) {
+      increment(cacheDecisions, decision);
+    },
+
+    render() {
+      const inUse = Math.min(active, poolSize);
+      const lines = [
+        "# HELP bunvhd_db_pool_connections Database pool connections by state.",
+        "# TYPE bunvhd_db_pool_connections gauge",
+        `bunvhd_db_pool_connections${labels({ state: "in_use" })} ${inUse}`,
+        `bunvhd_db_pool_connections${labels({ state: "idle" })} ${Math.max(
+          openConnections.size - inUse,
+          0
+        )}`,
+        "# HELP bunvhd_db_pool_waiting Database work queued for a free connection.",
+        "# TYPE bunvhd_db_pool_waiting gauge",
+        `bunvhd_db_pool_waiting ${Math.max(active - poolSize, 0)}`,
+        "# HELP bunvhd_db_pool_max Maximum database pool connections.",
+        "# TYPE bunvhd_db_pool_max gauge",
+        `bunvhd_db_pool_max ${poolSize}`,
+        "# HELP bunvhd_query_duration_seconds Workload query latency.",
+        "# TYPE bunvhd_query_duration_seconds histogram",
+      ];
+
+      for (const [workload, histogram] of queryHistograms) {
+        QUERY_BUCKETS.forEach((bound, i) => {
+          lines.push(
+            `bunvhd_query_duration_seconds_bucket${labels({
+              workload,
+              le: String(bound),
+            })} ${histogram.buckets[i]}`
+          );
+        });
+        lines.push(
+          `bunvhd_query_duration_seconds_bucket${labels({
+            workload,
+            le: "+Inf",
+          })} ${histogram.count}`,
+          `bunvhd_query_duration_seconds_sum${labels({ workload })} ${
+            histogram.sum
+          }`,
+          `bunvhd_query_duration_seconds_count${labels({ workload })} ${
+            histogram.count
+          }`
+        );
+      }
+
+      lines.push(
+        "# HELP bunvhd_http_requests_total HTTP responses by route and status.",
+        "# TYPE bunvhd_http_requests_total counter"
+      );
+      for (const [key, count] of requestCounts) {
+        const [route, status] = JSON.parse(key) as [string, string];
+        lines.push(
+          `bunvhd_http_requests_total${labels({ route, status })} ${count}`
+        );
+      }
+
+      lines.push(
+        "# HELP bunvhd_cache_decisions_total Cache headers chosen for GET /.",
+        "# TYPE bunvhd_cache_decisions_total counter"
+      );
+      for (const [decision, count] of cacheDecisions) {
+        lines.push(
+          `bunvhd_cache_decisions_total${labels({ decision })} ${count}`
+        );
+      }
+
+      return `${lines.join("\n")}\n`;
+    },
+  };
+}
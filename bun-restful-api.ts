@@ -1,24 +1,76 @@
 // bun-restful-api.ts
-import { env, file, serve } from "bun";
-import fs from "fs";
+import { env, file, serve, spawnSync } from "bun";
+import { AsyncLocalStorage } from "node:async_hooks";
 import postgres from "postgres";
-
-console.log("Bun Server Starting...");
+import { createFaultInjector, requestFaultSpec } from "./bun-faults";
+import { createRequestGuard } from "./bun-guard";
+import { createMetrics, type CacheDecision } from "./bun-metrics";
+import {
+  configSummary,
+  createLogger,
+  loadServerConfig,
+} from "./bun-server-config";
+import { createWsProxy, WS_PROXY_PATH, type TunnelData } from "./bun-ws-proxy";
+import { createGenerationCounter } from "./src/lib/cachecheck";
+import { handleCitiesRequest } from "./src/lib/cities";
+import { regionForHost } from "./src/lib/endpoints";
+import { checkDatabase } from "./src/lib/health";
+import {
+  parsePaddingBytes,
+  serializeWithPayloadStats,
+} from "./src/lib/payload";
+import {
+  EMPTY_PHASES,
+  finalizeTimings,
+  serverTimingHeader,
+  type Timings,
+} from "./src/lib/timings";
+import {
+  createTracer,
+  parseTraceparent,
+  traceFields,
+  TRACEPARENT_HEADER,
+  type Span,
+} from "./src/lib/tracing";
+import {
+  parseWorkload,
+  WORKLOADS,
+  type WorkloadRequest,
+  type WorkloadRow,
+} from "./src/lib/workloads";
 
 // --- Configuration ---
-const PORT = 443;
-const TLS_KEY_PATH = "./key.pem";
-const TLS_CERT_PATH = "./cert.pem";
-const DATABASE_URL = env.DATABASE_URL;
+// Defaults < CONFIG_FILE (JSON or TOML) < environment variables
+const { config, errors: configErrors } = loadServerConfig(env);
+if (!config) {
+  console.error("FATAL: invalid server configuration:");
+  for (const problem of configErrors) console.error(`  - ${problem}`);
+  process.exit(1);
+}
+
+// --- Tracing ---
+// Spans continue the Worker's traces and go to OTEL_EXPORTER_OTLP_ENDPOINT
+const tracer = createTracer({
+  serviceName: config.serviceName,
+  endpoint: config.otlpEndpoint,
+  headers: config.otlpHeaders,
+});
+// The span of the request being handled, for child spans and log lines
+const requestSpans = new AsyncLocalStorage<Span>();
+const TRACE_FLUSH_INTERVAL_MS = 1000;
+if (config.otlpEndpoint) {
+  setInterval(() => tracer.flush(), TRACE_FLUSH_INTERVAL_MS).unref();
+}
+
+const log = createLogger(config.logLevel, config.logFormat, () =>
+  traceFields(requestSpans.getStore())
+);
+log.info("Bun Server Starting...");
 
 // --- CORS Configuration ---
-// Define the allowed origins. Be specific for production.
-const ALLOWED_ORIGINS: Set<string> = new Set([
-  "https://bunvhd.tripcafe.org", // Your primary frontend origin
-  // Add other specific origins if needed, e.g., a staging domain
-]);
+const ALLOWED_ORIGINS: Set<string> = new Set(config.allowedOrigins);
 
-// Function to check if an origin is allowed (handles localhost dynamically)
+// Function to check if an origin is allowed (exact origins, then patterns)
 function isOriginAllowed(origin: string | null): boolean {
   if (!origin) {
     return false; // No origin header means not a CORS request we need to handle
@@ -26,79 +78,113 @@ function isOriginAllowed(origin: string | null): boolean {
   if (ALLOWED_ORIGINS.has(origin)) {
     return true;
   }
-  // Allow any localhost origin for development flexibility
-  if (/^https?:\/\/localhost(:\d+)?$/.test(origin)) {
-    console.log(`Allowing development origin: ${origin}`);
+  if (config!.allowedOriginPatterns.some((pattern) => pattern.test(origin))) {
+    log.debug(`Allowing origin by pattern: ${origin}`);
     return true;
   }
   return false;
 }
 
-// --- Type Definition ---
-type City = {
-  city_id: number;
-  city_name: string;
-  local_name: string | null;
-  country: string;
-  continent: string;
-  population: number | null;
-  language_spoken: string | null;
-};
-
-// --- Database Connection Setup ---
-if (!DATABASE_URL) {
-  console.error("FATAL: DATABASE_URL environment variable not set.");
-  process.exit(1);
+// --- Authentication, Rate Limiting and Fault Injection ---
+// Only the query routes; health, version and metrics stay open and healthy
+const QUERY_ROUTES = new Set(["/", "/cities", "/cities/:id"]);
+const guard = createRequestGuard(config, log);
+const faults = createFaultInjector();
+
+// --- Build Information (for /version) ---
+const startedAt = new Date();
+const packageVersion: string =
+  (await file(new URL("./package.json", import.meta.url)).json()).version ??
+  "unknown";
+
+// BUILD_SHA is set by deployments; a checkout can ask git instead
+function buildHash(): string {
+  if (env.BUILD_SHA) return env.BUILD_SHA;
+  try {
+    const git = spawnSync(["git", "rev-parse", "--short", "HEAD"], {
+      cwd: import.meta.dir,
+    });
+    if (git.success) return git.stdout.toString().trim();
+  } catch {
+    // git is not installed
+  }
+  return "unknown";
 }
+const BUILD_HASH = buildHash();
+
+// --- Metrics ---
+const metrics = createMetrics(config.poolSize);
 
-const sql = postgres(DATABASE_URL);
-console.log("Database connection pool initialized.");
+// Stamps GET / bodies, so clients can tell cached copies from fresh renders
+const nextGeneration = createGenerationCounter();
+
+// --- Database Connection Setup ---
+const sql = postgres(config.databaseUrl, {
+  max: config.poolSize,
+  idle_timeout: config.idleTimeout || undefined, // 0 keeps connections open
+  ...(config.maxLifetime !== null ? { max_lifetime: config.maxLifetime } : {}),
+  ...(config.statementTimeout > 0
+    ? { connection: { statement_timeout: config.statementTimeout } }
+    : {}),
+  // Feed the pool gauges, which postgres.js does not expose itself
+  debug: (connectionId) => metrics.connectionUsed(connectionId),
+  onclose: (connectionId) => metrics.connectionClosed(connectionId),
+});
+log.info(
+  `Database connection pool initialized (max ${config.poolSize}, idle timeout ${
+    config.idleTimeout || "none"
+  }, max lifetime ${config.maxLifetime ?? "default"}, statement timeout ${
+    config.statementTimeout || "none"
+  }).`
+);
 
 // Graceful shutdown handler
 process.on("SIGINT", async () => {
-  console.log("\nGracefully shutting down...");
+  log.info("\nGracefully shutting down...");
   try {
     await sql.end({ timeout: 5 });
-    console.log("Database connection pool closed.");
+    log.info("Database connection pool closed.");
   } catch (err) {
-    console.error("Error closing database connection pool:", err);
+    log.error("Error closing database connection pool:", err);
   }
+  await tracer.flush();
   process.exit(0);
 });
 
 // --- Database Query Function ---
-// (Keep your existing getRandomCity function as is)
-async function getRandomCity(): Promise<{
-  data: City | null; // Returns a single city or null
+async function runWorkloadQuery(workload: WorkloadRequest): Promise<{
+  data: WorkloadRow[] | null;
   timeMs: number;
   error: string | null;
 }> {
-  console.log("Executing Database Query for a random city...");
+  log.debug(`Executing Database Query for workload ${workload.name}...`);
   let startTime = 0;
   let endTime = 0;
-  let result: City | null = null;
+  let result: WorkloadRow[] | null = null;
   let errorMsg: string | null = null;
+  // Includes any wait for a pooled connection
+  const span = requestSpans.getStore()?.child("db.query", {
+    kind: "client",
+    attributes: { "db.system": "postgresql", "bunvhd.workload": workload.name },
+  });
 
   try {
     startTime = performance.now();
-    const results = await sql<City[]>`
-      SELECT * FROM public.cities ORDER BY RANDOM() LIMIT 1;
-    `;
+    result = await metrics.trackPool(() =>
+      WORKLOADS[workload.name].run(sql, workload.params, "")
+    );
     endTime = performance.now();
-
-    if (results.length > 0) {
-      result = results[0];
-      console.log(`Query successful, found city: ${result.city_name}`);
-    } else {
-      console.log("Query successful, but no cities found in the table.");
-    }
+    log.debug(`Query successful, returned ${result.length} row(s)`);
   } catch (e: any) {
     endTime = performance.now();
-    console.error("Database Query Error:", e);
+    log.error("Database Query Error:", e);
     errorMsg = e.message || "An unknown database error occurred";
+    span?.setError(errorMsg!);
   }
+  span?.end(endTime);
 
   const duration = endTime - startTime;
+  metrics.observeQuery(workload.name, duration / 1000);
   return {
     data: result,
     timeMs: duration,
@@ -109,7 +195,7 @@ async function getRandomCity(): Promise<{
 // --- Response Helper ---
 // Modified to simplify header merging later
 function createJsonResponse(
-  body: object,
+  body: object | string, // Objects are serialized, strings sent as-is
   status: number,
   headers: HeadersInit = {} // Default to empty object
 ): Response {
@@ -117,7 +203,7 @@ function createJsonResponse(
     "Content-Type": "application/json",
     ...headers, // Merge incoming headers
   };
-  return new Response(JSON.stringify(body), {
+  return new Response(typeof body === "string" ? body : JSON.stringify(body), {
     status: status,
     headers: baseHeaders,
   });
@@ -127,21 +213,25 @@ function createJsonResponse(
 // Replace your generateCacheHeaders function with this improved version
 function generateCacheHeaders(
   searchParams: URLSearchParams,
-  hostname: string
+  hostname: string,
+  workload: WorkloadRequest
 ): Record<string, string> {
   // Get cache parameter (support both cacheTtl and cdnCache for compatibility)
   const cacheTtlParam =
     searchParams.get("cacheTtl") || searchParams.get("cdnCache");
   const headers: Record<string, string> = {};
 
-  // Extract region from hostname (us-east, us-west, or eu-east for Helsinki)
-  const regionMatch = hostname.match(/bunvhd-db-([\w-]+)\.tripcafe\.org/);
-  const region = regionMatch ? regionMatch[1] : "unknown";
+  // Use the configured region, or look up the one this host serves
+  const region = config!.region ?? regionForHost(hostname) ?? "unknown";
 
-  if (cacheTtlParam && /^\d+$/.test(cacheTtlParam)) {
+  // Writes are never cached, whatever the caller asks for
+  const cacheable = WORKLOADS[workload.name].readOnly;
+  const decision: CacheDecision = cacheable ? "no-ttl" : "write";
+
+  if (cacheable && cacheTtlParam && /^\d+$/.test(cacheTtlParam)) {
     const ttlSeconds = parseInt(cacheTtlParam, 10);
     if (ttlSeconds > 0) {
-      console.log(
+      log.debug(
         `Applying CDN caching for ${ttlSeconds} seconds on region ${region}`
       );
 
@@ -159,120 +249,337 @@ function generateCacheHeaders(
       // Only vary by Origin to avoid cache fragmentation
       headers["Vary"] = "Origin";
 
+      metrics.countCacheDecision("ttl");
       return headers;
     }
   }
 
-  console.log("Applying no-store cache directive");
+  log.debug("Applying no-store cache directive");
+  metrics.countCacheDecision(decision);
   return { "Cache-Control": "no-store, max-age=0" };
 }
 
-// --- Check for TLS Files ---
-if (!fs.existsSync(TLS_KEY_PATH) || !fs.existsSync(TLS_CERT_PATH)) {
-  console.error(`Error: TLS files not found!`);
-  console.error(`Ensure '${TLS_KEY_PATH}' and '${TLS_CERT_PATH}' exist.`);
-  console.error("Example using mkcert: mkcert localhost 127.0.0.1 ::1");
-  process.exit(1);
-}
-
-// --- Bun Server Definition ---
-console.log(`Attempting to start server on port ${PORT} with TLS...`);
+// --- Request Handler ---
+async function handleRequest(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const requestOrigin = req.headers.get("Origin");
+  const allowed = isOriginAllowed(requestOrigin);
+
+  log.debug(
+    `Incoming request: ${req.method} ${url.pathname} from Origin: ${requestOrigin}, Allowed: ${allowed}`
+  );
+
+  // --- Handle OPTIONS Preflight Requests ---
+  if (req.method === "OPTIONS") {
+    if (allowed && requestOrigin) {
+      log.debug(`Handling OPTIONS preflight for origin: ${requestOrigin}`);
+      // Send necessary CORS headers for preflight
+      return new Response(null, {
+        status: 204, // No Content
+        headers: {
+          "Access-Control-Allow-Origin": requestOrigin, // Reflect the allowed origin
+          "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS", // Methods allowed for actual requests
+          "Access-Control-Allow-Headers":
+            "Content-Type, Accept, If-None-Match, If-Match, X-Api-Key, X-Bunvhd-Fault, traceparent", // Headers allowed in actual requests
+          "Access-Control-Max-Age": "86400", // Cache preflight response for 1 day (optional)
+          Vary: "Origin", // Important for caching
+        },
+      });
+    } else {
+      // Origin not allowed or not a CORS request
+      log.debug(
+        "OPTIONS request from disallowed/null origin, sending minimal response."
+      );
+      return new Response(null, { status: 204 }); // Respond minimally
+    }
+  }
 
-const server = serve({
-  port: PORT,
-  hostname: "0.0.0.0",
-  tls: {
-    key: file(TLS_KEY_PATH),
-    cert: file(TLS_CERT_PATH),
-  },
+  // --- Handle the /cities Resource ---
+  const citiesMatch = url.pathname.match(/^\/cities(?:\/([^/]+))?\/?$/);
+  if (citiesMatch) {
+    log.debug(`Handling ${req.method} ${url.pathname}${url.search}`);
+    const span = requestSpans.getStore()?.child("db.query", {
+      kind: "client",
+      attributes: { "db.system": "postgresql", "bunvhd.resource": "cities" },
+    });
+    const response = await metrics.trackPool(() =>
+      handleCitiesRequest(sql, req, citiesMatch[1] ?? null, "DATABASE_URL")
+    );
+    span?.end();
+    if (allowed && requestOrigin) {
+      response.headers.set("Access-Control-Allow-Origin", requestOrigin);
+      response.headers.set("Access-Control-Expose-Headers", "ETag, Location");
+      response.headers.set("Vary", "Origin");
+    }
+    return response;
+  }
 
-  // --- Main Fetch Handler ---
-  async fetch(req) {
-    const url = new URL(req.url);
-    const requestOrigin = req.headers.get("Origin");
-    const allowed = isOriginAllowed(requestOrigin);
+  // --- Handle Health Checks ---
+  // /healthz: the process is up. /readyz: the database answers in time.
+  if (url.pathname === "/healthz" && req.method === "GET") {
+    return createJsonResponse(
+      {
+        status: "ok",
+        uptimeSeconds: (Date.now() - startedAt.getTime()) / 1000,
+      },
+      200,
+      { "Cache-Control": "no-store" }
+    );
+  }
 
-    console.log(
-      `Incoming request: ${req.method} ${url.pathname} from Origin: ${requestOrigin}, Allowed: ${allowed}`
+  if (url.pathname === "/readyz" && req.method === "GET") {
+    const check = await metrics.trackPool(() => checkDatabase(sql));
+    if (!check.ok) log.warn(`Readiness check failed: ${check.error}`);
+    return createJsonResponse(
+      {
+        status: check.ok ? "ready" : "unavailable",
+        timeMs: check.timeMs,
+        error: check.error,
+      },
+      check.ok ? 200 : 503,
+      { "Cache-Control": "no-store" }
     );
+  }
 
-    // --- Handle OPTIONS Preflight Requests ---
-    if (req.method === "OPTIONS") {
-      if (allowed && requestOrigin) {
-        console.log(`Handling OPTIONS preflight for origin: ${requestOrigin}`);
-        // Send necessary CORS headers for preflight
-        return new Response(null, {
-          status: 204, // No Content
-          headers: {
-            "Access-Control-Allow-Origin": requestOrigin, // Reflect the allowed origin
-            "Access-Control-Allow-Methods": "GET, OPTIONS", // Methods allowed for actual requests
-            "Access-Control-Allow-Headers": "Content-Type, Accept", // Headers allowed in actual requests
-            "Access-Control-Max-Age": "86400", // Cache preflight response for 1 day (optional)
-            Vary: "Origin", // Important for caching
-          },
-        });
-      } else {
-        // Origin not allowed or not a CORS request
-        console.log(
-          "OPTIONS request from disallowed/null origin, sending minimal response."
-        );
-        return new Response(null, { status: 204 }); // Respond minimally
-      }
-    }
+  if (url.pathname === "/version" && req.method === "GET") {
+    return createJsonResponse(
+      {
+        version: packageVersion,
+        build: BUILD_HASH,
+        bun: Bun.version,
+        startedAt: startedAt.toISOString(),
+        region: config!.region ?? regionForHost(url.hostname),
+        config: configSummary(config!),
+      },
+      200,
+      { "Cache-Control": "no-store" }
+    );
+  }
 
-    // --- Handle GET Requests ---
-    if (url.pathname === "/" && req.method === "GET") {
-      console.log(`Handling GET / with query: ${url.search}`);
+  // --- Handle GET /metrics (Prometheus) ---
+  if (url.pathname === "/metrics" && req.method === "GET") {
+    return new Response(metrics.render(), {
+      headers: {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
 
-      const searchParams = url.searchParams;
-      const cacheHeaders = generateCacheHeaders(searchParams, url.hostname);
+  // --- Handle GET Requests ---
+  if (url.pathname === "/" && req.method === "GET") {
+    const handlerStart = performance.now();
+    log.debug(`Handling GET / with query: ${url.search}`);
 
-      // Prepare base response headers
-      const responseHeaders: Record<string, string> = {
-        ...cacheHeaders, // Include cache headers first
-      };
+    const searchParams = url.searchParams;
+    const { workload, error: workloadError } = parseWorkload(searchParams);
+    const { bytes: paddingBytes, error: paddingError } =
+      parsePaddingBytes(searchParams);
+    if (!workload || paddingError) {
+      return createJsonResponse(
+        { error: workloadError || paddingError, data: null, timeMs: 0 },
+        400,
+        { "Cache-Control": "no-store" }
+      );
+    }
 
-      // Add CORS headers if origin is allowed
-      if (allowed && requestOrigin) {
-        console.log(`Adding CORS headers for allowed origin: ${requestOrigin}`);
-        responseHeaders["Access-Control-Allow-Origin"] = requestOrigin;
-        responseHeaders["Vary"] = "Origin"; // Tell caches the response varies based on origin
-      }
+    const cacheHeaders = generateCacheHeaders(
+      searchParams,
+      url.hostname,
+      workload
+    );
 
-      // Execute DB query
-      const { data, timeMs, error } = await getRandomCity();
+    // Prepare base response headers
+    const responseHeaders: Record<string, string> = {
+      ...cacheHeaders, // Include cache headers first
+    };
+
+    // Add CORS headers if origin is allowed
+    if (allowed && requestOrigin) {
+      log.debug(`Adding CORS headers for allowed origin: ${requestOrigin}`);
+      responseHeaders["Access-Control-Allow-Origin"] = requestOrigin;
+      responseHeaders["Vary"] = "Origin"; // Tell caches the response varies based on origin
+      responseHeaders["Timing-Allow-Origin"] = requestOrigin; // Expose Server-Timing to the page
+    }
 
-      if (error) {
-        // Ensure error responses are not cached and add CORS if needed
-        responseHeaders["Cache-Control"] = "no-store";
-        return createJsonResponse(
-          { error: error, data: null, timeMs },
-          500,
-          responseHeaders // Pass potentially updated headers
-        );
-      }
+    // Execute DB query
+    const { data, timeMs, error } = await runWorkloadQuery(workload);
 
-      // Success response - add CORS headers if needed
+    if (error) {
+      // Ensure error responses are not cached and add CORS if needed
+      responseHeaders["Cache-Control"] = "no-store";
+      const timings = finalizeTimings(
+        { ...EMPTY_PHASES, queryMs: timeMs },
+        0,
+        performance.now() - handlerStart
+      );
+      responseHeaders["Server-Timing"] = serverTimingHeader(timings);
       return createJsonResponse(
-        { data, timeMs, binding: "DATABASE_URL", error: null },
-        200,
+        {
+          error: error,
+          data: null,
+          timeMs,
+          workload: workload.name,
+          generation: nextGeneration(),
+          timings,
+        },
+        500,
         responseHeaders // Pass potentially updated headers
       );
     }
 
-    // --- Handle Not Found ---
-    console.log(`Path ${url.pathname} or method ${req.method} not handled.`);
-    // Generally, you don't *need* CORS headers on a 404, but you could add them
-    // if 'allowed && requestOrigin' similar to above if desired for consistency.
-    return new Response("Not Found", {
-      status: 404,
-      headers: { "Cache-Control": "no-store" }, // Keep 404s non-cached
+    // Success response - padded to `bytes` and with payload size/timing.
+    // The pool is already connected, so only query time is measured.
+    let timings: Timings | null = null;
+    const body = serializeWithPayloadStats(
+      {
+        data,
+        timeMs,
+        binding: "DATABASE_URL",
+        workload: workload.name,
+        error: null,
+        generation: nextGeneration(),
+      },
+      data?.length ?? 0,
+      paddingBytes,
+      (stats) => {
+        timings = finalizeTimings(
+          { ...EMPTY_PHASES, queryMs: timeMs },
+          stats.serializeTimeMs,
+          performance.now() - handlerStart
+        );
+        return { timings };
+      }
+    );
+    responseHeaders["Server-Timing"] = serverTimingHeader(timings!);
+
+    return createJsonResponse(
+      body,
+      200,
+      responseHeaders // Pass potentially updated headers
+    );
+  }
+
+  // --- Handle Not Found ---
+  log.debug(`Path ${url.pathname} or method ${req.method} not handled.`);
+  // Generally, you don't *need* CORS headers on a 404, but you could add them
+  // if 'allowed && requestOrigin' similar to above if desired for consistency.
+  return new Response("Not Found", {
+    status: 404,
+    headers: { "Cache-Control": "no-store" }, // Keep 404s non-cached
+  });
+}
+
+// Route label for the request counter, with ids collapsed
+function routeLabel(pathname: string): string {
+  if (["/", "/metrics", "/healthz", "/readyz", "/version"].includes(pathname)) {
+    return pathname;
+  }
+  if (pathname === WS_PROXY_PATH) return pathname;
+  if (/^\/cities\/?$/.test(pathname)) return "/cities";
+  if (/^\/cities\/[^/]+\/?$/.test(pathname)) return "/cities/:id";
+  return "other";
+}
+
+// A query answered under the faults it asks for, when FAULT_INJECTION=on
+async function handleQuery(req: Request): Promise<Response> {
+  const { spec, error } = requestFaultSpec(req);
+  if (!spec && !error) return handleRequest(req);
+  if (!config!.faultInjection) {
+    return createJsonResponse(
+      { data: null, timeMs: 0, error: "Fault injection is off on this server" },
+      403,
+      { "Cache-Control": "no-store" }
+    );
+  }
+  if (error) {
+    return createJsonResponse({ data: null, timeMs: 0, error }, 400, {
+      "Cache-Control": "no-store",
     });
+  }
+  log.debug(`Injecting faults into ${req.method} ${req.url}`);
+  return faults.apply(spec!, () => handleRequest(req));
+}
+
+// --- Bun Server Definition ---
+log.info(
+  `Attempting to start server on port ${config.port}${
+    config.tls ? " with TLS" : " without TLS"
+  }...`
+);
+
+const server = serve({
+  port: config.port,
+  hostname: config.hostname,
+  tls: config.tls
+    ? {
+        key: file(config.tls.keyPath),
+        cert: file(config.tls.certPath),
+      }
+    : undefined,
+
+  // --- Main Fetch Handler ---
+  async fetch(req, server) {
+    const route = routeLabel(new URL(req.url).pathname);
+    if (config.wsProxy && route === WS_PROXY_PATH) {
+      // Tunnels reach the database, so they need the same credentials
+      const refused = await guard(req, server.requestIP(req)?.address ?? null);
+      if (refused) {
+        metrics.countRequest(route, refused.status);
+        return refused;
+      }
+      const data: TunnelData = { tcp: null, pending: [], closed: false };
+      if (server.upgrade(req, { data })) {
+        metrics.countRequest(route, 101);
+        return undefined;
+      }
+      metrics.countRequest(route, 426);
+      return new Response("Expected a WebSocket upgrade", {
+        status: 426,
+        headers: { "Cache-Control": "no-store", Upgrade: "websocket" },
+      });
+    }
+    // Continues the Worker's trace, or starts one for direct requests
+    const span = tracer.startSpan(
+      `${req.method} ${route}`,
+      parseTraceparent(req.headers.get(TRACEPARENT_HEADER)),
+      {
+        kind: "server",
+        attributes: { "http.request.method": req.method, "http.route": route },
+      }
+    );
+    try {
+      const response = await requestSpans.run(span, async () => {
+        // Preflights carry no credentials, so they are let through
+        const isQuery = QUERY_ROUTES.has(route) && req.method !== "OPTIONS";
+        if (isQuery) {
+          const refused = await guard(
+            req,
+            server.requestIP(req)?.address ?? null
+          );
+          if (refused) return refused;
+        }
+        return isQuery ? handleQuery(req) : handleRequest(req);
+      });
+      metrics.countRequest(route, response.status);
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 500) span.setError(`HTTP ${response.status}`);
+      return response;
+    } catch (error: any) {
+      metrics.countRequest(route, 500); // Answered by the error handler
+      span.setError(error?.message ?? String(error));
+      throw error;
+    } finally {
+      span.end();
+    }
   },
 
+  // --- Postgres over WebSocket (only reached when WS_PROXY=on) ---
+  websocket: createWsProxy(config.databaseUrl, log),
+
   // --- Error Handler ---
   error(error: Error) {
-    console.error("Server Error:", error);
+    log.error("Server Error:", error);
     // Don't add CORS headers here, as the error state is internal
     return new Response("Internal Server Error", {
       status: 500,
@@ -281,6 +588,31 @@ const server = serve({
   },
 });
 
-console.log(
-  `🚀 Bun server running on https://${server.hostname}:${server.port}`
+log.info(
+  `🚀 Bun server running on ${config.tls ? "https" : "http"}://${
+    server.hostname
+  }:${server.port}`
 );
+if (config.wsProxy) {
+  log.info(`Postgres over WebSocket enabled at ${WS_PROXY_PATH}.`);
+}
+if (config.apiKeys.length > 0 || config.signingSecret) {
+  log.info(
+    `Query routes need authentication: ${
+      config.apiKeys.length
+    } API keys, Worker signatures ${config.signingSecret ? "on" : "off"}.`
+  );
+}
+if (config.faultInjection) {
+  log.warn("Fault injection is on: query routes honor fault parameters.");
+}
+if (config.otlpEndpoint) {
+  log.info(
+    `Exporting spans as ${config.serviceName} to ${config.otlpEndpoint}.`
+  );
+}
+if (config.rateLimit) {
+  log.info(
+    `Rate limit: ${config.rateLimit.burst} requests, refilled at ${config.rateLimit.perSecond}/s per client.`
+  );
+}
@@ -0,0 +1,496 @@
+// bun-server-config.ts - Typed configuration for the Bun REST API
+import { TOML } from "bun";
+import fs from "fs";
+import path from "path";
+import { REGIONS, type Region } from "./src/lib/endpoints";
+import type { RateLimit } from "./src/lib/ratelimit";
+import { logJson, parseOtlpHeaders } from "./src/lib/tracing";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["text", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export interface ServerConfig {
+  port: number; // 0 picks a free port
+  hostname: string;
+  tls: { keyPath: string; certPath: string } | null; // null serves plain HTTP
+  allowedOrigins: string[]; // Exact origins allowed to make CORS requests
+  allowedOriginPatterns: RegExp[]; // Matched against the whole origin
+  region: Region | null; // Falls back to the region of the request host
+  poolSize: number; // Maximum Postgres connections
+  idleTimeout: number; // Seconds before idle connections close, 0 never
+  maxLifetime: number | null; // Seconds; null keeps postgres.js' 30-60 min
+  statementTimeout: number; // Milliseconds before Postgres cancels, 0 never
+  logLevel: LogLevel;
+  logFormat: LogFormat; // json adds the trace and span ids of the request
+  otlpEndpoint: string | null; // OTLP/HTTP collector for spans; null keeps them local
+  otlpHeaders: Record<string, string>; // Sent to the collector, e.g. an API key
+  serviceName: string; // service.name of the exported spans
+  wsProxy: boolean; // Tunnel Postgres over WebSockets at /v2
+  faultInjection: boolean; // Honor `fault` query parameters and headers
+  apiKeys: string[]; // Accepted in X-Api-Key; any key or signature is then required
+  signingSecret: string | null; // Verifies the Worker's signed requests
+  rateLimit: RateLimit | null; // Per client IP or API key; null is unlimited
+  databaseUrl: string;
+}
+
+/**
+ * Settings accepted in the optional config file (JSON or TOML). Every key
+ * is optional; environment variables override the file.
+ */
+interface FileConfig {
+  port?: number;
+  hostname?: string;
+  plainHttp?: boolean;
+  tls?: { keyPath?: string; certPath?: string };
+  allowedOrigins?: string[];
+  allowedOriginPatterns?: string[];
+  region?: string;
+  poolSize?: number;
+  idleTimeout?: number;
+  maxLifetime?: number;
+  statementTimeout?: number;
+  logLevel?: string;
+  logFormat?: string;
+  otlpEndpoint?: string;
+  serviceName?: string;
+  wsProxy?: boolean;
+  faultInjection?: boolean;
+  rateLimitBurst?: number;
+  rateLimitPerSecond?: number;
+}
+
+const FILE_KEYS: readonly (keyof FileConfig)[] = [
+  "port",
+  "hostname",
+  "plainHttp",
+  "tls",
+  "allowedOrigins",
+  "allowedOriginPatterns",
+  "region",
+  "poolSize",
+  "idleTimeout",
+  "maxLifetime",
+  "statementTimeout",
+  "logLevel",
+  "logFormat",
+  "otlpEndpoint",
+  "serviceName",
+  "wsProxy",
+  "faultInjection",
+  "rateLimitBurst",
+  "rateLimitPerSecond",
+];
+
+const DEFAULTS = {
+  port: 443,
+  hostname: "0.0.0.0",
+  keyPath: "./key.pem",
+  certPath: "./cert.pem",
+  allowedOrigins: ["https://bunvhd.tripcafe.org"],
+  // Any localhost origin, for development
+  allowedOriginPatterns: ["^https?://localhost(:\\d+)?$"],
+  poolSize: 10,
+  idleTimeout: 0,
+  statementTimeout: 0,
+  logLevel: "info" as LogLevel,
+  logFormat: "json" as LogFormat,
+  serviceName: "bunvhd-bun",
+  wsProxy: false,
+  faultInjection: false,
+  rateLimitBurst: 100,
+  rateLimitPerSecond: 20,
+};
+
+const MAX_POOL_SIZE = 100;
+const MAX_TIMEOUT_SECONDS = 24 * 60 * 60;
+const MAX_RATE_LIMIT = 1_000_000;
+
+function readConfigFile(filePath: string, errors: string[]): FileConfig | null {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch (err: any) {
+    errors.push(`CONFIG_FILE: cannot read ${filePath} (${err.message})`);
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed =
+      path.extname(filePath) === ".toml" ? TOML.parse(text) : JSON.parse(text);
+  } catch (err: any) {
+    errors.push(`CONFIG_FILE: cannot parse ${filePath} (${err.message})`);
+    return null;
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    errors.push(`CONFIG_FILE: ${filePath} must contain an object`);
+    return null;
+  }
+  for (const key of Object.keys(parsed)) {
+    if (!(FILE_KEYS as readonly string[]).includes(key)) {
+      errors.push(`${key}: unknown setting in ${filePath}`);
+    }
+  }
+  return parsed as FileConfig;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+function parseInteger(
+  name: string,
+  value: unknown,
+  min: number,
+  max: number,
+  errors: string[]
+): number {
+  const parsed =
+    typeof value === "string" && /^\d+$/.test(value)
+      ? parseInt(value, 10)
+      : value;
+  if (
+    typeof parsed !== "number" ||
+    !Number.isInteger(parsed) ||
+    parsed < min ||
+    parsed > max
+  ) {
+    errors.push(`${name} must be an integer between ${min} and ${max}`);
+    return min;
+  }
+  return parsed;
+}
+
+// An `on`/`off` environment variable, or a boolean from the file
+function parseSwitch(
+  envName: string,
+  fileKey: string,
+  envValue: string | undefined,
+  fileValue: unknown,
+  errors: string[]
+): boolean {
+  if (envValue !== undefined) {
+    if (envValue !== "on" && envValue !== "off") {
+      errors.push(`${envName} must be 'on' or 'off'`);
+    }
+    return envValue === "on";
+  }
+  if (typeof fileValue !== "boolean") {
+    errors.push(`${fileKey} must be a boolean`);
+    return false;
+  }
+  return fileValue;
+}
+
+function parseStringList(
+  name: string,
+  value: unknown,
+  errors: string[]
+): string[] {
+  if (typeof value === "string") return splitList(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value;
+  }
+  errors.push(`${name} must be a list of strings`);
+  return [];
+}
+
+/**
+ * Build the server configuration from defaults, the optional file named by
+ * `CONFIG_FILE` and environment variables (highest precedence).
+ * @returns The config, or every validation problem found (config is null then)
+ */
+export function loadServerConfig(env: Record<string, string | undefined>): {
+  config: ServerConfig | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const file: FileConfig = env.CONFIG_FILE
+    ? readConfigFile(env.CONFIG_FILE, errors) ?? {}
+    : {};
+
+  const port = parseInteger(
+    "port",
+    env.PORT ?? file.port ?? DEFAULTS.port,
+    0,
+    65535,
+    errors
+  );
+
+  const hostname = env.HOST ?? file.hostname ?? DEFAULTS.hostname;
+  if (typeof hostname !== "string" || hostname === "") {
+    errors.push("hostname must be a non-empty string");
+  }
+
+  // TLS=off (or plainHttp in the file) is for running behind a reverse proxy
+  let plainHttp = file.plainHttp ?? false;
+  if (env.TLS !== undefined) {
+    if (env.TLS !== "on" && env.TLS !== "off") {
+      errors.push("TLS must be 'on' or 'off'");
+    }
+    plainHttp = env.TLS !== "on"; // Invalid values skip the TLS file checks
+  } else if (typeof plainHttp !== "boolean") {
+    errors.push("plainHttp must be a boolean");
+  }
+
+  let tls: ServerConfig["tls"] = null;
+  if (!plainHttp) {
+    tls = {
+      keyPath: env.TLS_KEY_PATH ?? file.tls?.keyPath ?? DEFAULTS.keyPath,
+      certPath: env.TLS_CERT_PATH ?? file.tls?.certPath ?? DEFAULTS.certPath,
+    };
+    for (const [name, filePath] of Object.entries(tls)) {
+      if (!fs.existsSync(filePath)) {
+        errors.push(
+          `tls.${name}: ${filePath} not found (set TLS=off for plain HTTP)`
+        );
+      }
+    }
+  }
+
+  const allowedOrigins = parseStringList(
+    "allowedOrigins",
+    env.ALLOWED_ORIGINS ?? file.allowedOrigins ?? DEFAULTS.allowedOrigins,
+    errors
+  );
+  for (const origin of allowedOrigins) {
+    if (!URL.canParse(origin) || new URL(origin).origin !== origin) {
+      errors.push(`allowedOrigins: ${origin} is not an origin`);
+    }
+  }
+
+  const allowedOriginPatterns: RegExp[] = [];
+  for (const pattern of parseStringList(
+    "allowedOriginPatterns",
+    env.ALLOWED_ORIGIN_PATTERNS ??
+      file.allowedOriginPatterns ??
+      DEFAULTS.allowedOriginPatterns,
+    errors
+  )) {
+    try {
+      allowedOriginPatterns.push(new RegExp(pattern));
+    } catch {
+      errors.push(`allowedOriginPatterns: invalid pattern ${pattern}`);
+    }
+  }
+
+  const region = env.REGION ?? file.region ?? null;
+  if (region !== null && !Object.hasOwn(REGIONS, region)) {
+    errors.push(`region must be one of ${Object.keys(REGIONS).join(", ")}`);
+  }
+
+  const poolSize = parseInteger(
+    "poolSize",
+    env.DB_POOL_SIZE ?? file.poolSize ?? DEFAULTS.poolSize,
+    1,
+    MAX_POOL_SIZE,
+    errors
+  );
+
+  const idleTimeout = parseInteger(
+    "idleTimeout",
+    env.DB_IDLE_TIMEOUT ?? file.idleTimeout ?? DEFAULTS.idleTimeout,
+    0,
+    MAX_TIMEOUT_SECONDS,
+    errors
+  );
+
+  const maxLifetimeSetting = env.DB_MAX_LIFETIME ?? file.maxLifetime;
+  const maxLifetime =
+    maxLifetimeSetting === undefined
+      ? null
+      : parseInteger(
+          "maxLifetime",
+          maxLifetimeSetting,
+          1,
+          MAX_TIMEOUT_SECONDS,
+          errors
+        );
+
+  const statementTimeout = parseInteger(
+    "statementTimeout",
+    env.DB_STATEMENT_TIMEOUT ??
+      file.statementTimeout ??
+      DEFAULTS.statementTimeout,
+    0,
+    MAX_TIMEOUT_SECONDS * 1000,
+    errors
+  );
+
+  const logLevel = env.LOG_LEVEL ?? file.logLevel ?? DEFAULTS.logLevel;
+  if (!(LOG_LEVELS as readonly string[]).includes(logLevel)) {
+    errors.push(`logLevel must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+
+  const logFormat = env.LOG_FORMAT ?? file.logFormat ?? DEFAULTS.logFormat;
+  if (!(LOG_FORMATS as readonly string[]).includes(logFormat)) {
+    errors.push(`logFormat must be one of ${LOG_FORMATS.join(", ")}`);
+  }
+
+  // The standard OpenTelemetry variables
+  const otlpEndpoint =
+    env.OTEL_EXPORTER_OTLP_ENDPOINT ?? file.otlpEndpoint ?? null;
+  if (
+    otlpEndpoint !== null &&
+    (!URL.canParse(otlpEndpoint) ||
+      !["http:", "https:"].includes(new URL(otlpEndpoint).protocol))
+  ) {
+    errors.push("otlpEndpoint must be an http(s) URL");
+  }
+  const serviceName =
+    env.OTEL_SERVICE_NAME ?? file.serviceName ?? DEFAULTS.serviceName;
+  if (typeof serviceName !== "string" || serviceName === "") {
+    errors.push("serviceName must be a non-empty string");
+  }
+
+  const wsProxy = parseSwitch(
+    "WS_PROXY",
+    "wsProxy",
+    env.WS_PROXY,
+    file.wsProxy ?? DEFAULTS.wsProxy,
+    errors
+  );
+  const faultInjection = parseSwitch(
+    "FAULT_INJECTION",
+    "faultInjection",
+    env.FAULT_INJECTION,
+    file.faultInjection ?? DEFAULTS.faultInjection,
+    errors
+  );
+
+  // A burst of 0 turns rate limiting off
+  const rateLimitBurst = parseInteger(
+    "rateLimitBurst",
+    env.RATE_LIMIT_BURST ?? file.rateLimitBurst ?? DEFAULTS.rateLimitBurst,
+    0,
+    MAX_RATE_LIMIT,
+    errors
+  );
+  const rateLimitPerSecond = parseInteger(
+    "rateLimitPerSecond",
+    env.RATE_LIMIT_PER_SECOND ??
+      file.rateLimitPerSecond ??
+      DEFAULTS.rateLimitPerSecond,
+    1,
+    MAX_RATE_LIMIT,
+    errors
+  );
+
+  // Credentials, so environment only like DATABASE_URL
+  const apiKeys = splitList(env.API_KEYS ?? "");
+  const signingSecret = env.SIGNING_SECRET || null;
+  const otlpHeaders = parseOtlpHeaders(env.OTEL_EXPORTER_OTLP_HEADERS);
+
+  // Kept out of the file so it can hold credentials
+  const databaseUrl = env.DATABASE_URL ?? "";
+  if (!databaseUrl) {
+    errors.push("DATABASE_URL environment variable not set");
+  }
+
+  if (errors.length > 0) return { config: null, errors };
+  return {
+    config: {
+      port,
+      hostname,
+      tls,
+      allowedOrigins,
+      allowedOriginPatterns,
+      region: region as Region | null,
+      poolSize,
+      idleTimeout,
+      maxLifetime,
+      statementTimeout,
+      logLevel: logLevel as LogLevel,
+      logFormat: logFormat as LogFormat,
+      otlpEndpoint,
+      otlpHeaders,
+      serviceName,
+      wsProxy,
+      faultInjection,
+      apiKeys,
+      signingSecret,
+      rateLimit:
+        rateLimitBurst > 0
+          ? { burst: rateLimitBurst, perSecond: rateLimitPerSecond }
+          : null,
+      databaseUrl,
+    },
+    errors,
+  };
+}
+
+/**
+ * The settings reported by `/version`, without the database credentials,
+ * API keys, signing secret or collector headers
+ */
+export function configSummary(config: ServerConfig) {
+  return {
+    port: config.port,
+    hostname: config.hostname,
+    tls: config.tls !== null,
+    allowedOrigins: config.allowedOrigins,
+    allowedOriginPatterns: config.allowedOriginPatterns.map((p) => p.source),
+    region: config.region,
+    poolSize: config.poolSize,
+    idleTimeout: config.idleTimeout,
+    maxLifetime: config.maxLifetime,
+    statementTimeout: config.statementTimeout,
+    logLevel: config.logLevel,
+    logFormat: config.logFormat,
+    otlpEndpoint: config.otlpEndpoint,
+    serviceName: config.serviceName,
+    wsProxy: config.wsProxy,
+    faultInjection: config.faultInjection,
+    apiKeys: config.apiKeys.length,
+    signedRequests: config.signingSecret !== null,
+    rateLimit: config.rateLimit,
+  };
+}
+
+export type Logger = Record<LogLevel, (...args: unknown[]) => void>;
+
+/**
+ * Console logger that drops messages below `level`
+ * @param format json writes one object per line, with `context()`'s fields
+ * (the current request's trace and span ids)
+ */
+export function createLogger(
+  level: LogLevel,
+  format: LogFormat = "text",
+  context: () => Record<string, unknown> = () => ({})
+): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const noop = () => {};
+  const write =
+    format === "json"
+      ? (messageLevel: LogLevel) =>
+          (...args: unknown[]) =>
+            logJson(
+              messageLevel,
+              args
+                .map((arg) =>
+                  arg instanceof Error ? arg.message : String(arg)
+                )
+                .join(" "),
+              context()
+            )
+      : (messageLevel: LogLevel) =>
+          messageLevel === "error"
+            ? console.error
+            : messageLevel === "warn"
+            ? console.warn
+            : console.log;
+  return {
+    debug: threshold <= 0 ? write("debug") : noop,
+    info: threshold <= 1 ? write("info") : noop,
+    warn: threshold <= 2 ? write("warn") : noop,
+    error: write("error"),
+  };
+}
@@ -0,0 +1,99 @@
+// bun-ws-proxy.ts - Tunnels the Postgres protocol from WebSockets to the server's database
+import { connect, type Socket, type WebSocketHandler } from "bun";
+import type { Logger } from "./bun-server-config";
+
+// Same path as Neon's wsproxy, so serverless-style drivers find it
+export const WS_PROXY_PATH = "/v2";
+
+export interface TunnelData {
+  tcp: Socket | null; // Set once the database connection is open
+  pending: Uint8Array[]; // Client bytes not yet written to the database
+  closed: boolean; // The WebSocket has closed
+}
+
+/**
+ * Host and port of the database in `databaseUrl`. Clients cannot choose:
+ * Neon-style `address` parameters are ignored, so the proxy only ever
+ * reaches this server's own database.
+ */
+export function tunnelTarget(databaseUrl: string): {
+  hostname: string;
+  port: number;
+} {
+  const url = new URL(databaseUrl);
+  return {
+    hostname: url.hostname.replace(/^\[(.*)\]$/, "$1") || "localhost",
+    port: url.port ? parseInt(url.port, 10) : 5432,
+  };
+}
+
+// Write as much as the socket takes; the rest waits for `drain`
+function flush(data: TunnelData) {
+  while (data.tcp && data.pending.length > 0) {
+    const chunk = data.pending[0];
+    const written = data.tcp.write(chunk);
+    if (written < chunk.byteLength) {
+      data.pending[0] = chunk.subarray(Math.max(written, 0));
+      return;
+    }
+    data.pending.shift();
+  }
+}
+
+/**
+ * WebSocket handlers that open one database connection per WebSocket and
+ * pipe binary messages both ways. The client still authenticates with
+ * Postgres itself; the proxy never sees the credentials in clear.
+ */
+export function createWsProxy(
+  databaseUrl: string,
+  log: Logger
+): WebSocketHandler<TunnelData> {
+  const target = tunnelTarget(databaseUrl);
+
+  return {
+    open(ws) {
+      connect({
+        ...target,
+        socket: {
+          open(tcp) {
+            if (ws.data.closed) {
+              tcp.end();
+              return;
+            }
+            ws.data.tcp = tcp;
+            flush(ws.data);
+          },
+          data(_tcp, chunk) {
+            ws.sendBinary(chunk);
+          },
+          drain() {
+            flush(ws.data);
+          },
+          close() {
+            ws.close();
+          },
+          error(_tcp, error) {
+            log.warn("WebSocket proxy: database connection error:", error);
+            ws.close(1011, "Database connection error");
+          },
+        },
+      }).catch((error) => {
+        log.warn("WebSocket proxy: cannot reach the database:", error);
+        ws.close(1011, "Database unreachable");
+      });
+    },
+
+    message(ws, message) {
+      ws.data.pending.push(
+        typeof message === "string" ? Buffer.from(message) : message
+      );
+      flush(ws.data);
+    },
+
+    close(ws) {
+      ws.data.closed = true;
+      ws.data.tcp?.end();
+    },
+  };
+}
@@ -0,0 +1,25 @@
+DROP TABLE IF EXISTS landmarks;
+DROP TABLE IF EXISTS countries;
+
+CREATE TABLE countries (
+    country_id SERIAL PRIMARY KEY,
+    country_name character varying(100) NOT NULL UNIQUE,
+    continent character varying(50) NOT NULL,
+    population bigint
+);
+
+CREATE TABLE landmarks (
+    landmark_id SERIAL PRIMARY KEY,
+    city_id integer NOT NULL REFERENCES cities (city_id) ON DELETE CASCADE,
+    landmark_name character varying(150) NOT NULL,
+    category character varying(50) NOT NULL,
+    visitors_per_year integer
+);
+
+-- Indexes for the point-lookup and filtered-scan workloads
+CREATE INDEX cities_continent_country_idx ON cities (continent, country);
+CREATE INDEX landmarks_city_id_idx ON landmarks (city_id);
+
+-- Countries for the cities seeded by 001.sql
+INSERT INTO countries (country_name, continent)
+SELECT DISTINCT country, continent FROM cities;
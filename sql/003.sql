@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS benchmark_runs (
+    sample_id BIGSERIAL PRIMARY KEY,
+    session_id uuid NOT NULL,
+    run_id integer NOT NULL,
+    endpoint character varying(100) NOT NULL,
+    region character varying(50) NOT NULL,
+    access_type character varying(50) NOT NULL,
+    cached boolean NOT NULL,
+    workload character varying(50) NOT NULL,
+    colo character varying(10),
+    binding character varying(100),
+    client_time_ms double precision,
+    server_time_ms double precision,
+    error text,
+    version character varying(100) NOT NULL,
+    recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS benchmark_runs_recorded_at_idx ON benchmark_runs (recorded_at);
+CREATE INDEX IF NOT EXISTS benchmark_runs_session_id_idx ON benchmark_runs (session_id);
+CREATE INDEX IF NOT EXISTS benchmark_runs_region_type_idx ON benchmark_runs (region, access_type);
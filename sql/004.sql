@@ -0,0 +1,9 @@
+-- Warm-up samples are stored but left out of baseline comparisons
+ALTER TABLE benchmark_runs ADD COLUMN IF NOT EXISTS warmup boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS benchmark_baselines (
+    name character varying(100) PRIMARY KEY,
+    session_id uuid NOT NULL,
+    description text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
@@ -0,0 +1,7 @@
+-- One row per endpoint, updated by every scheduled monitor check
+CREATE TABLE IF NOT EXISTS monitor_state (
+    endpoint character varying(100) PRIMARY KEY,
+    consecutive_breaches integer NOT NULL DEFAULT 0,
+    alerting boolean NOT NULL DEFAULT false,
+    checked_at timestamptz NOT NULL DEFAULT now()
+);
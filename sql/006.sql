@@ -0,0 +1,14 @@
+-- City names are unique within a country, whatever their case. Number the
+-- repeats earlier seeds left behind so the index can be built.
+UPDATE cities
+SET city_name = cities.city_name || ' ' || repeats.n
+FROM (
+    SELECT city_id,
+        row_number() OVER (
+            PARTITION BY lower(city_name), country ORDER BY city_id
+        ) AS n
+    FROM cities
+) AS repeats
+WHERE cities.city_id = repeats.city_id AND repeats.n > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS cities_name_country_key ON cities (lower(city_name), country);
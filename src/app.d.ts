@@ -5,19 +5,42 @@ import type {
   ExecutionContext,
   Hyperdrive,
 } from "@cloudflare/workers-types";
+import type {
+  HyperdriveBindingKey,
+  WebSocketBindingKey,
+} from "$lib/endpoints";
+import type { MonitorEnv } from "$lib/monitor";
+import type { RateLimitDecision } from "$lib/ratelimit";
+import type { Span } from "$lib/tracing";
 
 declare global {
   namespace App {
+    interface Locals {
+      span?: Span; // The request's server span, set for /api/ routes
+      // Takes tokens from the client's bucket, set when its /api/ requests
+      // are rate limited; for routes that run more than one query
+      chargeRateLimit?: (cost: number) => RateLimitDecision;
+    }
     interface Platform {
       env: Env;
       cf: CfProperties;
       ctx: ExecutionContext;
     }
-    interface Env {
-      "CACHED-DB-BUNVHD": Hyperdrive;
-      "NO-CACHED-DB-BUNVHD": Hyperdrive;
-      "CACHED-DB-BUNVHD-US-EAST": Hyperdrive;
-      "NO-CACHED-DB-BUNVHD-US-EAST": Hyperdrive;
+    // One Hyperdrive binding per region and cache mode, see $lib/endpoints
+    interface Env
+      extends Record<HyperdriveBindingKey, Hyperdrive>,
+        Partial<Record<WebSocketBindingKey, string>>,
+        MonitorEnv {
+      WS_PROXY_URL?: string; // Overrides the pg-websocket proxy, for development
+      BUN_SIGNING_SECRET?: string; // Signs requests and tunnels to the Bun servers, a secret
+      FAULT_INJECTION?: string; // "on" forwards `?fault=` to the Bun servers
+      CITIES_WRITE_KEYS?: string; // X-Api-Key values allowed to write cities, a secret
+      RATE_LIMIT_BURST?: string; // Per client IP on /api/, 0 turns it off
+      RATE_LIMIT_PER_SECOND?: string;
+      OTEL_EXPORTER_OTLP_ENDPOINT?: string; // Collector for the Worker's spans
+      OTEL_EXPORTER_OTLP_HEADERS?: string; // e.g. api-key=..., a secret
+      OTEL_SERVICE_NAME?: string;
+      TRACE_URL_TEMPLATE?: string; // e.g. http://localhost:16686/trace/{traceId}
     }
   }
 }
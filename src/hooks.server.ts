@@ -0,0 +1,118 @@
+// src/hooks.server.ts
+import { json, type Handle } from "@sveltejs/kit";
+import { validateEndpointBindings } from "$lib/endpoints";
+import {
+  createRateLimiter,
+  parseRateLimit,
+  rateLimitHeaders,
+  type RateLimit,
+  type RateLimiter,
+} from "$lib/ratelimit";
+import {
+  createTracer,
+  otlpOptionsFromEnv,
+  parseTraceparent,
+  TRACEPARENT_HEADER,
+} from "$lib/tracing";
+
+// Per client IP and Worker isolate, overridden by RATE_LIMIT_BURST and
+// RATE_LIMIT_PER_SECOND
+const DEFAULT_RATE_LIMIT: RateLimit = { burst: 120, perSecond: 2 };
+
+// Bindings only become available with the first request, so the
+// registry is checked once per isolate rather than at module load
+let bindingsValidated = false;
+let rateLimiter: { limit: RateLimit; limiter: RateLimiter } | null = null;
+
+function clientAddress(event: Parameters<Handle>[0]["event"]): string | null {
+  try {
+    return event.getClientAddress() || null;
+  } catch {
+    return null;
+  }
+}
+
+export const handle: Handle = async ({ event, resolve }) => {
+  if (!bindingsValidated && event.platform?.env) {
+    bindingsValidated = true;
+    const problems = validateEndpointBindings(event.platform.env);
+    for (const problem of problems) {
+      console.error(`Endpoint registry: ${problem}`);
+    }
+
+    const { limit, error } = parseRateLimit(
+      event.platform.env.RATE_LIMIT_BURST,
+      event.platform.env.RATE_LIMIT_PER_SECOND,
+      DEFAULT_RATE_LIMIT
+    );
+    if (error) console.error(`Rate limit: ${error}, using the defaults`);
+    const effective = error ? DEFAULT_RATE_LIMIT : limit;
+    rateLimiter = effective && {
+      limit: effective,
+      limiter: createRateLimiter(effective),
+    };
+  }
+
+  // Only the API routes, and not requests without a client address, like
+  // the scheduled monitor's. The app's sub-requests keep the caller's
+  // address, so each query the stream route runs is charged to the caller.
+  const address = clientAddress(event);
+  if (rateLimiter && address && event.url.pathname.startsWith("/api/")) {
+    const { limiter } = rateLimiter;
+    const decision = limiter.take(address);
+    if (!decision.allowed) {
+      return json(
+        {
+          message: `Too many requests, retry in ${decision.retryAfterSeconds}s`,
+        },
+        {
+          status: 429,
+          headers: {
+            "Cache-Control": "no-store",
+            ...rateLimitHeaders(rateLimiter.limit, decision),
+          },
+        }
+      );
+    }
+    event.locals.chargeRateLimit = (cost) =>
+      limiter.take(address, undefined, cost);
+  }
+
+  if (!event.url.pathname.startsWith("/api/") || !event.platform?.env) {
+    return resolve(event);
+  }
+
+  // Continue the caller's trace (the page's, or the stream route's), with
+  // spans exported once the response is on its way
+  const tracer = createTracer(
+    otlpOptionsFromEnv(event.platform.env, "bunvhd-worker")
+  );
+  const span = tracer.startSpan(
+    `${event.request.method} ${event.route.id ?? "unknown route"}`,
+    parseTraceparent(event.request.headers.get(TRACEPARENT_HEADER)),
+    {
+      kind: "server",
+      attributes: {
+        "http.request.method": event.request.method,
+        "url.path": event.url.pathname,
+      },
+    }
+  );
+  event.locals.span = span;
+  try {
+    const response = await resolve(event);
+    span.setAttribute("http.response.status_code", response.status);
+    if (response.status >= 500) span.setError(`HTTP ${response.status}`);
+    return response;
+  } catch (e: any) {
+    span.setError(e?.message ?? String(e));
+    throw e;
+  } finally {
+    span.end();
+    if (event.platform.ctx?.waitUntil) {
+      event.platform.ctx.waitUntil(tracer.flush());
+    } else {
+      await tracer.flush();
+    }
+  }
+};
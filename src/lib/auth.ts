@@ -0,0 +1,224 @@
+// src/lib/auth.ts - HMAC-signed requests and API keys between the Worker and the Bun servers
+
+// Set by the Worker on every request to a Bun REST API
+export const SIGNATURE_HEADER = "X-Bunvhd-Signature";
+export const TIMESTAMP_HEADER = "X-Bunvhd-Timestamp";
+// The client the Worker queries for, covered by the signature so the Bun
+// server can rate-limit by it
+export const CLIENT_IP_HEADER = "X-Bunvhd-Client-Ip";
+// The optional shared secret other clients of a Bun server send
+export const API_KEY_HEADER = "X-Api-Key";
+
+// The same signature in the query string, for WebSocket upgrades: a
+// Worker's `new WebSocket` cannot set headers
+const SIGNATURE_PARAMS = {
+  signature: "bunvhd_sig",
+  timestamp: "bunvhd_ts",
+  clientIp: "bunvhd_ip",
+};
+
+// Signatures older or newer than this are rejected, which bounds replays
+export const MAX_SIGNATURE_AGE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(message)
+  );
+  return [...new Uint8Array(signature)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Compare two secrets in time that does not depend on where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let difference = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * The IP of the client calling the Worker, as Cloudflare saw it.
+ * `X-Forwarded-For` is not used: clients can set it to anything.
+ */
+export function clientIpOf(request: Request): string {
+  return request.headers.get("cf-connecting-ip") || "unknown";
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(text));
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// The host is left out: a Bun server behind a proxy sees another one
+async function signedMessage(
+  method: string,
+  url: URL,
+  timestamp: string,
+  clientIp: string,
+  body: string
+): Promise<string> {
+  return [
+    method.toUpperCase(),
+    `${url.pathname}${url.search}`,
+    timestamp,
+    clientIp,
+    await sha256Hex(body),
+  ].join("\n");
+}
+
+/**
+ * What a signature covers besides the method, URL and time
+ */
+export interface SignedContent {
+  clientIp?: string | null; // Sent along in `X-Bunvhd-Client-Ip`
+  body?: string | null; // Of POST and PATCH requests
+}
+
+/**
+ * Headers that sign a request with `secret`: an HMAC-SHA256 of the method,
+ * path, query, current time, client IP and a hash of the body
+ */
+export async function signRequest(
+  secret: string,
+  method: string,
+  url: string | URL,
+  { clientIp = null, body = null }: SignedContent = {},
+  now: number = Date.now()
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(now / 1000).toString();
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: await hmacHex(
+      secret,
+      await signedMessage(
+        method,
+        new URL(url),
+        timestamp,
+        clientIp ?? "",
+        body ?? ""
+      )
+    ),
+    ...(clientIp !== null ? { [CLIENT_IP_HEADER]: clientIp } : {}),
+  };
+}
+
+/**
+ * `url` with a signature for a GET in its query string, as WebSocket
+ * upgrades are signed
+ */
+export async function signUrl(
+  secret: string,
+  url: string | URL,
+  clientIp: string | null = null,
+  now: number = Date.now()
+): Promise<URL> {
+  const signed = new URL(url);
+  // Encoded as the verifier sees it once the signature is taken out
+  signed.search = signed.searchParams.toString();
+  const headers = await signRequest(secret, "GET", signed, { clientIp }, now);
+  signed.searchParams.set(
+    SIGNATURE_PARAMS.timestamp,
+    headers[TIMESTAMP_HEADER]
+  );
+  if (clientIp !== null) {
+    signed.searchParams.set(SIGNATURE_PARAMS.clientIp, clientIp);
+  }
+  signed.searchParams.set(
+    SIGNATURE_PARAMS.signature,
+    headers[SIGNATURE_HEADER]
+  );
+  return signed;
+}
+
+/**
+ * A request's signature, from its headers or its query string
+ */
+export interface RequestSignature {
+  signature: string | null;
+  timestamp: string | null;
+  clientIp: string | null;
+  url: URL; // Without the signature parameters, as it was signed
+}
+
+/**
+ * @returns null when the request carries no signature
+ */
+export function readRequestSignature(
+  request: Request
+): RequestSignature | null {
+  const url = new URL(request.url);
+  if (request.headers.has(SIGNATURE_HEADER)) {
+    return {
+      signature: request.headers.get(SIGNATURE_HEADER),
+      timestamp: request.headers.get(TIMESTAMP_HEADER),
+      clientIp: request.headers.get(CLIENT_IP_HEADER),
+      url,
+    };
+  }
+  if (!url.searchParams.has(SIGNATURE_PARAMS.signature)) return null;
+
+  const signature: RequestSignature = {
+    signature: url.searchParams.get(SIGNATURE_PARAMS.signature),
+    timestamp: url.searchParams.get(SIGNATURE_PARAMS.timestamp),
+    clientIp: url.searchParams.get(SIGNATURE_PARAMS.clientIp),
+    url,
+  };
+  for (const name of Object.values(SIGNATURE_PARAMS)) {
+    url.searchParams.delete(name);
+  }
+  return signature;
+}
+
+/**
+ * Check a request's signature headers or parameters against `secret`
+ * @returns null when the signature is valid, otherwise why it is not
+ */
+export async function verifyRequestSignature(
+  secret: string,
+  request: Request,
+  now: number = Date.now()
+): Promise<string | null> {
+  const signed = readRequestSignature(request);
+  if (!signed?.timestamp || !signed.signature) {
+    return "Missing request signature";
+  }
+  const { signature, timestamp, clientIp, url } = signed;
+  if (!/^\d+$/.test(timestamp)) return "Invalid signature timestamp";
+
+  const age = Math.abs(now / 1000 - parseInt(timestamp, 10));
+  if (age > MAX_SIGNATURE_AGE_SECONDS) return "Request signature expired";
+
+  const expected = await hmacHex(
+    secret,
+    await signedMessage(
+      request.method,
+      url,
+      timestamp,
+      clientIp ?? "",
+      // A clone, so the body can still be read by the handler
+      request.body ? await request.clone().text() : ""
+    )
+  );
+  return timingSafeEqual(signature, expected)
+    ? null
+    : "Invalid request signature";
+}
@@ -0,0 +1,335 @@
+// src/lib/backends/bun-rest.ts - Proxies to the regional Bun REST API
+import { error as svelteError } from "@sveltejs/kit";
+import { clientIpOf, signRequest, type SignedContent } from "../auth";
+import { cacheLayerOf, type CacheLayer, type Generation } from "../cachecheck";
+import { timedCheck } from "../health";
+import {
+  createCircuitBreaker,
+  DEFAULT_PROXY_POLICY,
+  fetchWithRetries,
+  type CircuitBreaker,
+  type ProxyReport,
+} from "../proxy";
+import type { QueryOutcome } from "../query";
+import { EMPTY_PHASES, type TimingPhases } from "../timings";
+import {
+  formatTraceparent,
+  logJson,
+  traceFields,
+  TRACEPARENT_HEADER,
+} from "../tracing";
+import { workloadSearchParams, type WorkloadRow } from "../workloads";
+import type { BackendAdapter } from "./index";
+
+// Interface for the response from Bun REST API
+interface RestApiResponse {
+  data: WorkloadRow[] | WorkloadRow | null; // Older Bun servers return one city
+  timeMs: number;
+  binding: string;
+  error: string | null;
+  generation?: Generation; // Missing from older Bun servers
+}
+
+// Headers passed through from the Bun REST API
+const FORWARDED_RESPONSE_HEADERS = [
+  "Content-Type",
+  "Cache-Control",
+  "ETag",
+  "Location",
+  "Allow",
+];
+
+// One per Bun server, for as long as the isolate lives
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+function circuitBreakerFor(restUrl: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(restUrl);
+  if (!breaker) {
+    breaker = createCircuitBreaker();
+    circuitBreakers.set(restUrl, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Signature headers for a request to a Bun server, when the Worker shares
+ * `BUN_SIGNING_SECRET` with it (the Bun server's `SIGNING_SECRET`)
+ */
+function signatureHeaders(
+  env: Record<string, any>,
+  method: string,
+  url: string | URL,
+  content: SignedContent
+): Promise<Record<string, string>> {
+  return env.BUN_SIGNING_SECRET
+    ? signRequest(env.BUN_SIGNING_SECRET, method, url, content)
+    : Promise.resolve({});
+}
+
+/**
+ * The Bun server in the endpoint's region runs the query; the Worker only
+ * forwards the request and reports the Bun server's timing
+ */
+export const bunRestBackend: BackendAdapter = {
+  workerConnects: false,
+
+  async query({
+    config,
+    env,
+    fetch,
+    dynamicSuffix,
+    cacheTtl,
+    forwardedFor,
+    workload,
+    paddingBytes,
+    proxyPolicy = config.proxyPolicy ?? DEFAULT_PROXY_POLICY,
+    fault,
+    span: parentSpan,
+  }): Promise<QueryOutcome> {
+    const isDynamicPath = !!dynamicSuffix;
+    if (!config.restUrl) {
+      throw svelteError(
+        500,
+        `REST API URL not configured for ${config.displayName}`
+      );
+    }
+
+    let results: WorkloadRow[] | null = null;
+    let errorMsg: string | null = null;
+    let serverTimeMs = 0;
+    let upstream: CacheLayer | null = null;
+    const phases: TimingPhases = { ...EMPTY_PHASES };
+    const breaker = circuitBreakerFor(config.restUrl);
+    let proxy: ProxyReport = {
+      attempts: 0,
+      timeoutMs: proxyPolicy.timeoutMs,
+      circuit: breaker.snapshot(),
+    };
+    // Covers every attempt; the Bun server continues the trace from it
+    const span = parentSpan?.child("GET bun-rest", {
+      kind: "client",
+      attributes: { "server.address": new URL(config.restUrl).host },
+    });
+
+    try {
+      // Build the REST API URL with appropriate caching parameters
+      const restParams = workloadSearchParams(workload);
+      if (paddingBytes != null) {
+        restParams.set("bytes", paddingBytes.toString());
+      }
+      if (fault) {
+        restParams.set("fault", fault);
+      }
+      if (config.cached && cacheTtl > 0) {
+        restParams.set("cdnCache", cacheTtl.toString());
+      }
+      if (!config.cached || isDynamicPath) {
+        // For non-cached endpoints or dynamic paths, add a cache-busting parameter
+        restParams.set("_nc", "true");
+        if (isDynamicPath) {
+          // Add the dynamic identifier to ensure uniqueness
+          restParams.set("dynamicId", dynamicSuffix!.substring(1));
+        }
+      }
+
+      const restUrl = `${config.restUrl}/?${restParams.toString()}`;
+
+      const headers = {
+        Accept: "application/json",
+        "User-Agent": "SvelteKit-Benchmark-Proxy",
+        "X-Forwarded-For": forwardedFor,
+        ...(await signatureHeaders(env, "GET", restUrl, {
+          clientIp: forwardedFor,
+        })),
+        ...(span
+          ? { [TRACEPARENT_HEADER]: formatTraceparent(span.context) }
+          : {}),
+      };
+
+      // Fail fast while the Bun server keeps failing
+      if (!breaker.allow()) {
+        const { failures, retryInMs } = breaker.snapshot();
+        throw new Error(
+          `Circuit open after ${failures} failures in a row, retrying in ${Math.ceil(
+            retryInMs! / 1000
+          )} s`
+        );
+      }
+
+      // Time the REST API call, including reading the body and any retries
+      const startTime = performance.now();
+      const { response, error, attempts } = await fetchWithRetries(
+        fetch,
+        restUrl,
+        { method: "GET", headers },
+        proxyPolicy
+      );
+      // 4xx answers mean the request was wrong, not that the server is down.
+      // Injected faults say nothing about it either, but may have been the
+      // half-open circuit's trial.
+      if (fault) breaker.release();
+      else breaker.record(response !== null && response.status < 500);
+      proxy = {
+        attempts,
+        timeoutMs: proxyPolicy.timeoutMs,
+        circuit: breaker.snapshot(),
+      };
+
+      if (!response) {
+        throw new Error(error!);
+      }
+      if (!response.ok) {
+        throw new Error(
+          `REST API returned ${response.status}: ${await response.text()}`
+        );
+      }
+
+      const data: RestApiResponse = await response.json();
+      const clientTimeMs = performance.now() - startTime;
+      phases.upstreamMs = clientTimeMs;
+      upstream = cacheLayerOf(response.headers, data.generation);
+
+      // Use the server-side timing from the REST API
+      serverTimeMs = data.timeMs;
+      phases.queryMs = data.timeMs;
+
+      // Get the result data
+      if (data.data) {
+        results = Array.isArray(data.data) ? data.data : [data.data];
+      }
+
+      // If there was an error in the REST API, capture it
+      if (data.error) {
+        errorMsg = data.error;
+      }
+
+      logJson(
+        "info",
+        `REST proxy to ${restUrl} completed in ${clientTimeMs.toFixed(
+          2
+        )}ms (server: ${serverTimeMs.toFixed(2)}ms)`,
+        traceFields(span)
+      );
+    } catch (e: any) {
+      logJson("error", `Error in REST proxy for ${config.displayName}`, {
+        ...traceFields(span),
+        error: e?.message ?? String(e),
+      });
+      errorMsg =
+        e.message || "An unknown error occurred while calling the REST API";
+    }
+
+    if (span) {
+      span.setAttribute("bunvhd.proxy.attempts", proxy.attempts);
+      span.setAttribute("bunvhd.proxy.circuit", proxy.circuit.state);
+      if (errorMsg) span.setError(errorMsg);
+      span.end();
+    }
+
+    return {
+      results,
+      errorMsg,
+      serverTimeMs,
+      binding: config.displayName,
+      connMode: null,
+      phases,
+      upstream,
+      proxy,
+    };
+  },
+
+  check(config, _env, fetchImpl, _ctx, timeoutMs) {
+    return timedCheck(timeoutMs, async () => {
+      const response = await fetchImpl(`${config.restUrl}/readyz`, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        throw new Error(
+          `Bun REST API not ready (HTTP ${response.status}${
+            body?.error ? `: ${body.error}` : ""
+          })`
+        );
+      }
+    });
+  },
+
+  async serveCities(config, { id, request, fetch, env }) {
+    const upstreamUrl = new URL(
+      `${config.restUrl}/cities${
+        id !== null ? `/${encodeURIComponent(id)}` : ""
+      }`
+    );
+    upstreamUrl.search = new URL(request.url).search;
+
+    // The Bun server's rate limit is per client, as for queries
+    const clientIp = clientIpOf(request);
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "User-Agent": "SvelteKit-Benchmark-Proxy",
+      "X-Forwarded-For": clientIp,
+    };
+    for (const name of ["Content-Type", "If-None-Match", "If-Match"]) {
+      const value = request.headers.get(name);
+      if (value) headers[name] = value;
+    }
+    const body =
+      request.method === "GET" || request.method === "HEAD"
+        ? null
+        : await request.text();
+    Object.assign(
+      headers,
+      await signatureHeaders(env, request.method, upstreamUrl, {
+        clientIp,
+        body,
+      })
+    );
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(upstreamUrl, {
+        method: request.method,
+        headers,
+        body,
+      });
+    } catch (e: any) {
+      console.error(`Error in REST proxy for ${config.displayName}:`, e);
+      return new Response(
+        JSON.stringify({
+          data: null,
+          timeMs: 0,
+          binding: config.displayName,
+          error: e.message || "An unknown error occurred calling the REST API",
+        }),
+        {
+          status: 502,
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+          },
+        }
+      );
+    }
+
+    const responseHeaders = new Headers();
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) responseHeaders.set(name, value);
+    }
+    // The Bun server answers POST /cities with /cities/:id
+    const location = upstream.headers.get("Location");
+    if (location?.startsWith("/cities/")) {
+      responseHeaders.set(
+        "Location",
+        `${new URL(request.url).pathname}${location.slice("/cities".length)}`
+      );
+    }
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: responseHeaders,
+    });
+  },
+};
@@ -0,0 +1,61 @@
+// src/lib/backends/index.ts - One adapter per access type, behind a common interface
+import type { ExecutionContext } from "@cloudflare/workers-types";
+import type { AccessType, EndpointConfig } from "../endpoints";
+import { READY_TIMEOUT_MS, type HealthCheck } from "../health";
+import type { QueryOptions, QueryOutcome } from "../query";
+import type { ResourceOptions } from "../resource";
+import { bunRestBackend } from "./bun-rest";
+import { hyperdriveBackend, pgWebSocketBackend } from "./postgres";
+
+/**
+ * What the Worker does for an endpoint of one access type. The routes only
+ * dispatch through `BACKENDS`, so a new way of reaching the database needs
+ * an adapter and an `ACCESS_TYPE_DEFINITIONS` entry, not new branches.
+ */
+export interface BackendAdapter {
+  // The Worker opens Postgres connections itself, so `connMode` applies
+  workerConnects: boolean;
+  /**
+   * Run the workload once. Query failures are reported in `errorMsg`;
+   * configuration problems throw.
+   */
+  query(options: QueryOptions): Promise<QueryOutcome>;
+  /**
+   * Check that the endpoint could serve a query right now
+   */
+  check(
+    config: EndpointConfig,
+    env: Record<string, any>,
+    fetchImpl: typeof fetch,
+    ctx: ExecutionContext | undefined,
+    timeoutMs: number
+  ): Promise<HealthCheck>;
+  /**
+   * Serve `/api/[endpoint]/cities[/id]` with the Bun server's contract
+   */
+  serveCities(
+    config: EndpointConfig,
+    options: ResourceOptions & { env: Record<string, any> }
+  ): Promise<Response>;
+}
+
+export const BACKENDS: Record<AccessType, BackendAdapter> = {
+  hyperdrive: hyperdriveBackend,
+  "bun-rest-proxy": bunRestBackend,
+  "pg-websocket": pgWebSocketBackend,
+};
+
+/**
+ * Check that an endpoint could serve a benchmark query right now, e.g. a
+ * database round trip through its Hyperdrive binding or its region's Bun
+ * REST API answering `/readyz`
+ */
+export function checkEndpoint(
+  config: EndpointConfig,
+  env: Record<string, any>,
+  fetchImpl: typeof fetch,
+  ctx?: ExecutionContext,
+  timeoutMs: number = READY_TIMEOUT_MS
+): Promise<HealthCheck> {
+  return BACKENDS[config.type].check(config, env, fetchImpl, ctx, timeoutMs);
+}
@@ -0,0 +1,290 @@
+// src/lib/backends/postgres.ts - Backends where the Worker speaks the Postgres protocol itself
+import { error as svelteError } from "@sveltejs/kit";
+import postgres from "postgres";
+import type { ExecutionContext } from "@cloudflare/workers-types";
+import { clientIpOf, signUrl } from "../auth";
+import { handleCitiesRequest } from "../cities";
+import { DEFAULT_CONN_MODE, runWithConnMode } from "../connmodes";
+import { getDbConnection } from "../db";
+import type { EndpointConfig } from "../endpoints";
+import { checkDatabase } from "../health";
+import type { QueryOutcome } from "../query";
+import { EMPTY_PHASES, type TimingPhases } from "../timings";
+import { logJson, traceFields } from "../tracing";
+import { WORKLOADS, type WorkloadRow } from "../workloads";
+import type { BackendAdapter } from "./index";
+import { openTunnelSocket, type TunnelSocket } from "./wssocket";
+
+/**
+ * Where a backend's clients connect to
+ */
+interface PostgresTarget {
+  connectionString: string;
+  options: postgres.Options<{}>; // Added to every client's options
+}
+
+/**
+ * postgres.js honours a `socket` factory, which its types leave out
+ */
+type TunnelledOptions = postgres.Options<{}> & {
+  socket: () => Promise<TunnelSocket>;
+};
+
+/**
+ * @param clientIp Whom the connection is for, when it serves a client
+ * @returns The target for an endpoint's binding, or null when the binding
+ * holds no connection string
+ */
+type TargetResolver = (
+  config: EndpointConfig,
+  binding: unknown,
+  env: Record<string, any>,
+  clientIp: string | null
+) => PostgresTarget | null;
+
+function connectionStringOf(binding: unknown): string | null {
+  if (typeof binding === "string") return binding;
+  if (
+    typeof binding === "object" &&
+    binding !== null &&
+    "connectionString" in binding
+  ) {
+    return (binding as { connectionString: string }).connectionString;
+  }
+  return null;
+}
+
+function bindingOf(config: EndpointConfig, env: Record<string, any>) {
+  const binding = env[config.bindingKey];
+  if (!binding) {
+    console.error(`API Error: ${config.bindingKey} binding not found`);
+    throw svelteError(
+      500,
+      `Configuration Error: ${config.displayName} binding not found.`
+    );
+  }
+  return binding;
+}
+
+// Close per-request clients once the response has been sent, or right
+// away where there is no `waitUntil`
+async function closeAfterResponse(
+  clients: postgres.Sql[],
+  config: EndpointConfig,
+  ctx?: ExecutionContext
+) {
+  if (clients.length === 0) return;
+  const closePromise = Promise.all(
+    clients.map((sql) => sql.end({ timeout: 5 }))
+  ).catch((err) =>
+    console.error(
+      `Error closing SQL connection for ${config.displayName}:`,
+      err
+    )
+  );
+  if (ctx?.waitUntil) {
+    ctx.waitUntil(closePromise);
+  } else {
+    await closePromise;
+  }
+}
+
+/**
+ * A backend whose clients are postgres.js clients; only how they reach
+ * the database differs
+ * @param bindingLabel Names the binding in health check errors
+ */
+function createPostgresBackend(
+  bindingLabel: string,
+  resolveTarget: TargetResolver
+): BackendAdapter {
+  return {
+    workerConnects: true,
+
+    async query({
+      config,
+      env,
+      ctx,
+      dynamicEndpoint,
+      dynamicSuffix,
+      forwardedFor,
+      workload,
+      connStrategy = { mode: DEFAULT_CONN_MODE, queries: 1 },
+      span: parentSpan,
+    }): Promise<QueryOutcome> {
+      const isDynamicPath = !!dynamicSuffix;
+      const dbBinding = bindingOf(config, env);
+      const span = parentSpan?.child(`workload ${workload.name}`, {
+        attributes: {
+          "bunvhd.workload": workload.name,
+          "bunvhd.queries": connStrategy.queries,
+        },
+      });
+
+      let results: WorkloadRow[] | null = null;
+      let errorMsg: string | null = null;
+      let serverTimeMs = 0;
+      const phases: TimingPhases = { ...EMPTY_PHASES };
+      const clients: postgres.Sql[] = [];
+
+      try {
+        const target = resolveTarget(config, dbBinding, env, forwardedFor);
+        if (!target) {
+          throw new Error("Invalid or missing connection string in binding.");
+        }
+
+        // For dynamic paths, add a unique comment to force a new query plan
+        const uniqueComment = isDynamicPath ? `/* ${dynamicEndpoint} */` : "";
+
+        // Create new database connections for this request
+        const outcome = await runWithConnMode(
+          target.connectionString,
+          {
+            max: 1, // Single connection
+            idle_timeout: 5, // Short timeout
+            connect_timeout: 10, // 10 second connection timeout
+            ...target.options,
+            // For dynamic paths, set additional parameters to prevent connection pooling
+            ...(isDynamicPath
+              ? {
+                  connection: {
+                    application_name: `benchmark_${dynamicEndpoint}`,
+                  },
+                }
+              : {}),
+          },
+          connStrategy,
+          clients,
+          (sql) =>
+            WORKLOADS[workload.name].run(sql, workload.params, uniqueComment),
+          span
+        );
+
+        results = outcome.results;
+        phases.connectMs = outcome.timings.connectMs;
+        phases.queryMs = outcome.timings.queryMs;
+        phases.firstQueryMs = outcome.timings.firstQueryMs;
+        serverTimeMs = outcome.timings.totalMs;
+      } catch (e: any) {
+        logJson("error", `Error querying ${config.displayName}`, {
+          ...traceFields(span),
+          error: e?.message ?? String(e),
+        });
+        errorMsg = e.message || "An unknown database error occurred";
+        span?.setError(errorMsg!);
+      } finally {
+        span?.end();
+        // Always properly close the connections
+        await closeAfterResponse(clients, config, ctx);
+      }
+
+      return {
+        results,
+        errorMsg,
+        serverTimeMs,
+        binding: config.displayName,
+        connMode: connStrategy.mode,
+        phases,
+        upstream: null,
+        proxy: null,
+      };
+    },
+
+    async check(config, env, _fetchImpl, ctx, timeoutMs) {
+      const target = env[config.bindingKey]
+        ? resolveTarget(config, env[config.bindingKey], env, null)
+        : null;
+      if (!target) {
+        return {
+          ok: false,
+          timeMs: 0,
+          error: `${bindingLabel} ${config.bindingKey} not found`,
+        };
+      }
+
+      const sql = getDbConnection(
+        target.connectionString,
+        config.cached,
+        config.region,
+        target.options
+      );
+      try {
+        return await checkDatabase(sql, timeoutMs);
+      } finally {
+        await closeAfterResponse([sql], config, ctx);
+      }
+    },
+
+    async serveCities(config, { env, ctx, request, id, span }) {
+      const target = resolveTarget(
+        config,
+        bindingOf(config, env),
+        env,
+        clientIpOf(request)
+      );
+      if (!target) {
+        throw svelteError(
+          500,
+          `Configuration Error: ${config.displayName} binding has no connection string.`
+        );
+      }
+
+      const sql = getDbConnection(
+        target.connectionString,
+        config.cached,
+        config.region,
+        target.options,
+        span
+      );
+      try {
+        return await handleCitiesRequest(sql, request, id, config.displayName);
+      } finally {
+        await closeAfterResponse([sql], config, ctx);
+      }
+    },
+  };
+}
+
+/**
+ * Connects through the endpoint's Hyperdrive binding, which pools and
+ * (for cached bindings) caches on Cloudflare's side
+ */
+export const hyperdriveBackend = createPostgresBackend(
+  "Hyperdrive binding",
+  (_config, binding) => {
+    const connectionString = connectionStringOf(binding);
+    return connectionString ? { connectionString, options: {} } : null;
+  }
+);
+
+/**
+ * Speaks the Postgres protocol over a WebSocket to the region's Bun server,
+ * which pipes it to its database, like a serverless driver. The binding is
+ * a secret holding the connection string; `WS_PROXY_URL` overrides the
+ * proxy for local development. With `BUN_SIGNING_SECRET` set, the tunnel
+ * URL is signed for the Bun server's guard.
+ */
+export const pgWebSocketBackend = createPostgresBackend(
+  "WebSocket secret",
+  (config, binding, env, clientIp) => {
+    const connectionString = connectionStringOf(binding);
+    if (!connectionString) return null;
+
+    // The WebSocket is the transport, so TLS is up to the wss:// URL
+    const url = new URL(connectionString);
+    url.searchParams.delete("sslmode");
+    const proxyUrl: string = env.WS_PROXY_URL || config.wsUrl!;
+    const options: TunnelledOptions = {
+      ssl: false,
+      socket: async () =>
+        openTunnelSocket(
+          env.BUN_SIGNING_SECRET
+            ? (
+                await signUrl(env.BUN_SIGNING_SECRET, proxyUrl, clientIp)
+              ).toString()
+            : proxyUrl
+        ),
+    };
+    return { connectionString: url.toString(), options };
+  }
+);
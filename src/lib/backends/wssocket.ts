@@ -0,0 +1,89 @@
+// src/lib/backends/wssocket.ts - A socket for postgres.js that tunnels over a WebSocket
+import { Buffer } from "node:buffer";
+import { EventEmitter } from "node:events";
+
+/**
+ * The parts of `net.Socket` postgres.js uses when given a `socket` option
+ */
+export interface TunnelSocket extends EventEmitter {
+  readyState: "open" | "closed";
+  write(data: Uint8Array, callback?: () => void): boolean;
+  end(data?: Uint8Array): void;
+  destroy(): void;
+  pause(): void;
+  resume(): void;
+}
+
+/**
+ * Open a WebSocket to a proxy that pipes its binary messages to a Postgres
+ * server and back, as Neon's wsproxy does, and wrap it in a socket.
+ * Resolves once the WebSocket is open; messages arriving while the socket
+ * is paused are held until it resumes.
+ */
+export function openTunnelSocket(url: string): Promise<TunnelSocket> {
+  const ws = new WebSocket(url);
+  ws.binaryType = "arraybuffer";
+
+  let paused = false;
+  const held: Buffer[] = [];
+
+  const socket: TunnelSocket = Object.assign(new EventEmitter(), {
+    readyState: "open" as const,
+    write(data: Uint8Array, callback?: () => void) {
+      ws.send(data);
+      // WebSocket sends are buffered, so the chunk counts as written
+      if (callback) queueMicrotask(callback);
+      return true;
+    },
+    end(data?: Uint8Array) {
+      if (data) ws.send(data);
+      ws.close();
+    },
+    destroy() {
+      ws.close();
+      close();
+    },
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      while (!paused && held.length > 0) socket.emit("data", held.shift());
+    },
+  });
+
+  function close() {
+    if (socket.readyState === "closed") return;
+    socket.readyState = "closed";
+    socket.emit("close");
+  }
+
+  ws.addEventListener("message", (event) => {
+    const chunk = Buffer.from(event.data as ArrayBuffer);
+    if (paused) held.push(chunk);
+    else socket.emit("data", chunk);
+  });
+
+  return new Promise((resolve, reject) => {
+    let opened = false;
+    ws.addEventListener("open", () => {
+      opened = true;
+      resolve(socket);
+    });
+    ws.addEventListener("error", () => {
+      const error = new Error(`WebSocket to ${new URL(url).host} failed`);
+      if (opened) socket.emit("error", error);
+      else reject(error);
+    });
+    ws.addEventListener("close", (event) => {
+      if (opened) close();
+      else {
+        reject(
+          new Error(
+            `WebSocket to ${new URL(url).host} closed (code ${event.code})`
+          )
+        );
+      }
+    });
+  });
+}
@@ -0,0 +1,360 @@
+// src/lib/baselines.ts - Named baseline sessions and regression checks against them
+import type postgres from "postgres";
+import { ENDPOINT_CONFIG } from "./endpoints";
+import { UUID_PATTERN } from "./results";
+import { compareSamples, median, SIGNIFICANCE_LEVEL } from "./stats";
+
+export interface Baseline {
+  name: string;
+  sessionId: string;
+  description: string | null;
+  createdAt: Date | null; // Set by the database
+}
+
+/**
+ * When a slower endpoint counts as a regression. All three must hold:
+ * the slowdown is significant at `alpha` and exceeds both limits.
+ */
+export interface ComparisonThresholds {
+  metric: "client" | "server";
+  maxRegressionPercent: number;
+  maxRegressionMs: number; // Ignores slowdowns too small to matter
+  alpha: number;
+}
+
+export const DEFAULT_THRESHOLDS: ComparisonThresholds = {
+  metric: "client",
+  maxRegressionPercent: 10,
+  maxRegressionMs: 5,
+  alpha: SIGNIFICANCE_LEVEL,
+};
+
+export type EndpointVerdict =
+  | "regression" // Also when no sample succeeded where the baseline's did
+  | "improvement" // Significantly faster, by any amount
+  | "unchanged"
+  | "missing"; // No successful sample in the baseline
+
+export interface EndpointDelta {
+  endpoint: string;
+  baselineMedian: number | null;
+  candidateMedian: number | null;
+  baselineCount: number;
+  candidateCount: number;
+  deltaMs: number | null; // Candidate minus baseline, so positive is slower
+  percentChange: number | null;
+  pValue: number | null;
+  significant: boolean;
+  verdict: EndpointVerdict;
+}
+
+export interface SessionComparison {
+  baselineSessionId: string;
+  candidateSessionId: string;
+  thresholds: ComparisonThresholds;
+  passed: boolean; // No endpoint regressed
+  endpoints: EndpointDelta[];
+}
+
+/**
+ * Timings of one stored sample, as read for a comparison
+ */
+export interface ComparedSample {
+  endpoint: string;
+  clientTime: number | null;
+  serverTime: number | null;
+  error: string | null;
+  warmup: boolean;
+}
+
+const BASELINE_NAME_PATTERN = /^[\w.-]{1,100}$/;
+
+export function isBaselineName(name: string): boolean {
+  return BASELINE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Validate a `POST /api/baselines` body: `{ name, sessionId, description? }`
+ * @returns The baseline, or an error message for a 400 response
+ */
+export function parseBaseline(body: any): {
+  baseline: Baseline | null;
+  error: string | null;
+} {
+  if (typeof body !== "object" || body === null) {
+    return { baseline: null, error: "Body must be a JSON object" };
+  }
+  if (typeof body.name !== "string" || !isBaselineName(body.name)) {
+    return {
+      baseline: null,
+      error: "name must be 1-100 letters, digits, underscores, dots or hyphens",
+    };
+  }
+  if (
+    typeof body.sessionId !== "string" ||
+    !UUID_PATTERN.test(body.sessionId)
+  ) {
+    return { baseline: null, error: "sessionId must be a UUID" };
+  }
+  const description = body.description ?? null;
+  if (description !== null && typeof description !== "string") {
+    return { baseline: null, error: "description must be a string" };
+  }
+  return {
+    baseline: {
+      name: body.name,
+      sessionId: body.sessionId,
+      description,
+      createdAt: null,
+    },
+    error: null,
+  };
+}
+
+function parseNonNegative(value: string | null, name: string) {
+  if (value === null) return { value: null, error: null };
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed) || parsed < 0) {
+    return { value: null, error: `${name} must be a non-negative number` };
+  }
+  return { value: parsed, error: null };
+}
+
+/**
+ * Read `metric`, `maxRegressionPercent`, `maxRegressionMs` and `alpha`
+ * from the query string, falling back to `DEFAULT_THRESHOLDS`
+ * @returns The thresholds, or an error message for a 400 response
+ */
+export function parseThresholds(searchParams: URLSearchParams): {
+  thresholds: ComparisonThresholds | null;
+  error: string | null;
+} {
+  const metric = searchParams.get("metric") ?? DEFAULT_THRESHOLDS.metric;
+  if (metric !== "client" && metric !== "server") {
+    return { thresholds: null, error: "metric must be client or server" };
+  }
+
+  const percent = parseNonNegative(
+    searchParams.get("maxRegressionPercent"),
+    "maxRegressionPercent"
+  );
+  const ms = parseNonNegative(
+    searchParams.get("maxRegressionMs"),
+    "maxRegressionMs"
+  );
+  const alpha = parseNonNegative(searchParams.get("alpha"), "alpha");
+  const error = percent.error ?? ms.error ?? alpha.error;
+  if (error) return { thresholds: null, error };
+  if (alpha.value !== null && (alpha.value <= 0 || alpha.value >= 1)) {
+    return { thresholds: null, error: "alpha must be between 0 and 1" };
+  }
+
+  return {
+    thresholds: {
+      metric,
+      maxRegressionPercent:
+        percent.value ?? DEFAULT_THRESHOLDS.maxRegressionPercent,
+      maxRegressionMs: ms.value ?? DEFAULT_THRESHOLDS.maxRegressionMs,
+      alpha: alpha.value ?? DEFAULT_THRESHOLDS.alpha,
+    },
+    error: null,
+  };
+}
+
+function timingsOf(
+  samples: ComparedSample[],
+  endpoint: string,
+  metric: ComparisonThresholds["metric"]
+): number[] {
+  return samples
+    .filter(
+      (sample) =>
+        sample.endpoint === endpoint && !sample.warmup && sample.error === null
+    )
+    .map((sample) =>
+      metric === "client" ? sample.clientTime : sample.serverTime
+    )
+    .filter((time): time is number => time !== null);
+}
+
+/**
+ * Compare every endpoint sampled in either session. Warm-ups and failed
+ * samples are left out, as in the page's summaries.
+ * @param random Passed to the permutation test, injectable for reproducibility
+ */
+export function compareSessions(
+  baselineSessionId: string,
+  baselineSamples: ComparedSample[],
+  candidateSessionId: string,
+  candidateSamples: ComparedSample[],
+  thresholds: ComparisonThresholds = DEFAULT_THRESHOLDS,
+  random: () => number = Math.random
+): SessionComparison {
+  // Registry order, so the comparison lines up with the results table
+  const sampled = new Set(
+    [...baselineSamples, ...candidateSamples].map((sample) => sample.endpoint)
+  );
+  const endpoints = Object.keys(ENDPOINT_CONFIG).filter((key) =>
+    sampled.has(key)
+  );
+
+  const deltas = endpoints.map((endpoint): EndpointDelta => {
+    const before = timingsOf(baselineSamples, endpoint, thresholds.metric);
+    const after = timingsOf(candidateSamples, endpoint, thresholds.metric);
+    const baselineMedian = median(before);
+    const candidateMedian = median(after);
+    const comparison = compareSamples(before, after, thresholds.alpha, random);
+    if (!comparison || baselineMedian === null || candidateMedian === null) {
+      return {
+        endpoint,
+        baselineMedian,
+        candidateMedian,
+        baselineCount: before.length,
+        candidateCount: after.length,
+        deltaMs: null,
+        percentChange: null,
+        pValue: null,
+        significant: false,
+        // An endpoint that stopped answering is as bad as it gets
+        verdict: before.length > 0 ? "regression" : "missing",
+      };
+    }
+
+    const deltaMs = comparison.medianDiff;
+    const percentChange =
+      baselineMedian > 0 ? (deltaMs / baselineMedian) * 100 : null;
+    let verdict: EndpointVerdict = "unchanged";
+    if (comparison.significant && deltaMs < 0) {
+      verdict = "improvement";
+    } else if (
+      comparison.significant &&
+      deltaMs > thresholds.maxRegressionMs &&
+      (percentChange === null ||
+        percentChange > thresholds.maxRegressionPercent)
+    ) {
+      verdict = "regression";
+    }
+
+    return {
+      endpoint,
+      baselineMedian,
+      candidateMedian,
+      baselineCount: before.length,
+      candidateCount: after.length,
+      deltaMs,
+      percentChange,
+      pValue: comparison.pValue,
+      significant: comparison.significant,
+      verdict,
+    };
+  });
+
+  return {
+    baselineSessionId,
+    candidateSessionId,
+    thresholds,
+    passed: deltas.every((delta) => delta.verdict !== "regression"),
+    endpoints: deltas,
+  };
+}
+
+type BaselineRow = {
+  name: string;
+  session_id: string;
+  description: string | null;
+  created_at: Date;
+};
+
+function toBaseline(row: BaselineRow): Baseline {
+  return {
+    name: row.name,
+    sessionId: row.session_id,
+    description: row.description,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Stored samples of a session, for `compareSessions`
+ */
+export async function sessionSamples(
+  sql: postgres.Sql,
+  sessionId: string
+): Promise<ComparedSample[]> {
+  const rows = await sql<
+    {
+      endpoint: string;
+      client_time_ms: number | null;
+      server_time_ms: number | null;
+      error: string | null;
+      warmup: boolean;
+    }[]
+  >`
+    SELECT endpoint, client_time_ms, server_time_ms, error, warmup
+    FROM benchmark_runs
+    WHERE session_id = ${sessionId}
+  `;
+  return rows.map((row) => ({
+    endpoint: row.endpoint,
+    clientTime: row.client_time_ms,
+    serverTime: row.server_time_ms,
+    error: row.error,
+    warmup: row.warmup,
+  }));
+}
+
+/**
+ * Save `baseline`, replacing any baseline of the same name
+ * @returns The stored baseline, or null when the session has no samples
+ */
+export async function saveBaseline(
+  sql: postgres.Sql,
+  baseline: Baseline
+): Promise<Baseline | null> {
+  const rows = await sql<BaselineRow[]>`
+    INSERT INTO benchmark_baselines (name, session_id, description)
+    SELECT ${baseline.name}, ${baseline.sessionId}, ${baseline.description}
+    WHERE EXISTS (
+      SELECT 1 FROM benchmark_runs WHERE session_id = ${baseline.sessionId}
+    )
+    ON CONFLICT (name) DO UPDATE SET
+      session_id = EXCLUDED.session_id,
+      description = EXCLUDED.description,
+      created_at = now()
+    RETURNING *
+  `;
+  return rows.length > 0 ? toBaseline(rows[0]) : null;
+}
+
+/**
+ * Every baseline, newest first
+ */
+export async function listBaselines(sql: postgres.Sql): Promise<Baseline[]> {
+  const rows = await sql<BaselineRow[]>`
+    SELECT * FROM benchmark_baselines ORDER BY created_at DESC, name
+  `;
+  return rows.map(toBaseline);
+}
+
+export async function getBaseline(
+  sql: postgres.Sql,
+  name: string
+): Promise<Baseline | null> {
+  const rows = await sql<BaselineRow[]>`
+    SELECT * FROM benchmark_baselines WHERE name = ${name}
+  `;
+  return rows.length > 0 ? toBaseline(rows[0]) : null;
+}
+
+/**
+ * @returns Whether a baseline was deleted
+ */
+export async function deleteBaseline(
+  sql: postgres.Sql,
+  name: string
+): Promise<boolean> {
+  const result = await sql`
+    DELETE FROM benchmark_baselines WHERE name = ${name}
+  `;
+  return result.count > 0;
+}
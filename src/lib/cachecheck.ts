@@ -0,0 +1,221 @@
+// src/lib/cachecheck.ts - Cache hit/miss classification and staleness of CDN-cached responses
+import { summarize, type TimingSummary } from "./stats";
+
+/**
+ * Stamped into every body an origin renders. A cached copy keeps the
+ * stamp, so a repeated `id` proves the response did not reach the origin.
+ */
+export interface Generation {
+  id: string;
+  generatedAt: string; // ISO timestamp
+  originRequest: number; // Per isolate or process, from 1
+}
+
+/**
+ * Counts the requests reaching this origin and stamps each response
+ */
+export function createGenerationCounter(): () => Generation {
+  let originRequests = 0;
+  return () => ({
+    id: crypto.randomUUID(),
+    generatedAt: new Date().toISOString(),
+    originRequest: ++originRequests,
+  });
+}
+
+export function isGeneration(value: unknown): value is Generation {
+  const generation = value as Generation | null;
+  return (
+    typeof generation === "object" &&
+    generation !== null &&
+    typeof generation.id === "string" &&
+    typeof generation.generatedAt === "string" &&
+    typeof generation.originRequest === "number"
+  );
+}
+
+/**
+ * What one cache layer reported about a response
+ */
+export interface CacheLayer {
+  generation: Generation | null;
+  cacheStatus: string | null; // `CF-Cache-Status`, upper-cased
+  ageSeconds: number | null; // `Age`
+}
+
+/**
+ * Cache details of one benchmark sample. `upstream` is the Bun REST API
+ * response as the Worker received it, for proxied endpoints.
+ */
+export interface CacheObservation extends CacheLayer {
+  receivedAt: number; // Client clock, epoch ms
+  upstream: CacheLayer | null;
+}
+
+export type CacheOutcome = "hit" | "miss" | "revalidated";
+
+/**
+ * Read `CF-Cache-Status` and `Age` from `headers`
+ */
+export function cacheLayerOf(
+  headers: Headers,
+  generation: unknown
+): CacheLayer {
+  const age = headers.get("age");
+  const ageSeconds = age !== null && /^\d+$/.test(age) ? Number(age) : null;
+  return {
+    generation: isGeneration(generation) ? generation : null,
+    cacheStatus: headers.get("cf-cache-status")?.toUpperCase() ?? null,
+    ageSeconds,
+  };
+}
+
+/**
+ * Map a `CF-Cache-Status` onto an outcome, or null when it does not say.
+ * STALE and UPDATING are served from cache; EXPIRED went to the origin.
+ */
+export function outcomeOfCacheStatus(
+  status: string | null
+): CacheOutcome | null {
+  switch (status) {
+    case "HIT":
+    case "STALE":
+    case "UPDATING":
+      return "hit";
+    case "REVALIDATED":
+      return "revalidated";
+    case "MISS":
+    case "EXPIRED":
+    case "BYPASS":
+    case "DYNAMIC":
+      return "miss";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Classify each layer in request order. A generation seen earlier is a hit
+ * whatever the headers say; otherwise `CF-Cache-Status` decides, and a
+ * layer with neither is a miss, since the origin rendered it fresh.
+ */
+export function classifyLayers(layers: CacheLayer[]): CacheOutcome[] {
+  const seen = new Set<string>();
+  return layers.map((layer) => {
+    const fromHeader = outcomeOfCacheStatus(layer.cacheStatus);
+    const id = layer.generation?.id;
+    const repeated = id !== undefined && seen.has(id);
+    if (id !== undefined) seen.add(id);
+    if (fromHeader === "revalidated") return "revalidated";
+    if (repeated) return "hit";
+    return fromHeader ?? "miss";
+  });
+}
+
+// Allowance for clock skew between the client and the origin
+export const STALENESS_TOLERANCE_MS = 2000;
+
+export interface CacheSummary {
+  samples: number;
+  hits: number;
+  misses: number;
+  revalidated: number;
+  hitRatio: number | null; // Hits over samples
+  generations: number; // Distinct origin renders seen
+  staleness: TimingSummary; // Age of the body when received, ms
+  maxAgeSeconds: number | null; // Largest `Age` header
+  overTtl: number; // Samples older than the TTL allows
+}
+
+/**
+ * Summarize layers classified together by `classifyLayers`
+ * @param measured Which samples count, e.g. leaving out warm-ups that only
+ * fill the cache; all of them still inform the classification
+ */
+export function summarizeCache(
+  layers: CacheLayer[],
+  receivedAt: number[],
+  ttlSeconds: number,
+  measured: boolean[] = layers.map(() => true)
+): CacheSummary {
+  const outcomes = classifyLayers(layers);
+  const counts = { hit: 0, miss: 0, revalidated: 0 };
+  const generations = new Set<string>();
+  const staleness: number[] = [];
+  let maxAgeSeconds: number | null = null;
+  let overTtl = 0;
+
+  layers.forEach((layer, i) => {
+    if (!measured[i]) return;
+    counts[outcomes[i]]++;
+    if (layer.generation) {
+      generations.add(layer.generation.id);
+      const generatedAt = Date.parse(layer.generation.generatedAt);
+      if (!Number.isNaN(generatedAt)) {
+        const ageMs = Math.max(0, receivedAt[i] - generatedAt);
+        staleness.push(ageMs);
+        if (ageMs > ttlSeconds * 1000 + STALENESS_TOLERANCE_MS) overTtl++;
+      }
+    }
+    if (layer.ageSeconds !== null) {
+      maxAgeSeconds = Math.max(maxAgeSeconds ?? 0, layer.ageSeconds);
+    }
+  });
+
+  const samples = counts.hit + counts.miss + counts.revalidated;
+  return {
+    samples,
+    hits: counts.hit,
+    misses: counts.miss,
+    revalidated: counts.revalidated,
+    hitRatio: samples > 0 ? counts.hit / samples : null,
+    generations: generations.size,
+    staleness: summarize(staleness),
+    maxAgeSeconds,
+    overTtl,
+  };
+}
+
+/**
+ * Cache behaviour of one CDN-cached endpoint. `upstream` covers the Bun
+ * REST API behind a proxied endpoint, null for Hyperdrive endpoints.
+ */
+export interface EndpointCacheReport {
+  endpoint: string;
+  ttlSeconds: number;
+  edge: CacheSummary;
+  upstream: CacheSummary | null;
+}
+
+/**
+ * Classify an endpoint's successful samples, in request order
+ * @param samples Observations with whether each one is measured (not a warm-up)
+ */
+export function endpointCacheReport(
+  endpoint: string,
+  ttlSeconds: number,
+  samples: { cache: CacheObservation; measured: boolean }[]
+): EndpointCacheReport {
+  const receivedAt = samples.map(({ cache }) => cache.receivedAt);
+  const measured = samples.map((sample) => sample.measured);
+  const proxied = samples.filter(({ cache }) => cache.upstream !== null);
+  return {
+    endpoint,
+    ttlSeconds,
+    edge: summarizeCache(
+      samples.map(({ cache }) => cache),
+      receivedAt,
+      ttlSeconds,
+      measured
+    ),
+    upstream:
+      proxied.length > 0
+        ? summarizeCache(
+            proxied.map(({ cache }) => cache.upstream!),
+            proxied.map(({ cache }) => cache.receivedAt),
+            ttlSeconds,
+            proxied.map((sample) => sample.measured)
+          )
+        : null,
+  };
+}
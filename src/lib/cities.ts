@@ -0,0 +1,564 @@
+// src/lib/cities.ts - The cities REST resource, shared by Bun and the Worker
+import type postgres from "postgres";
+import type { City } from "./db";
+
+export type CityInput = Omit<City, "city_id">;
+
+export interface CitiesListQuery {
+  continent: string | null;
+  country: string | null;
+  minPopulation: number | null;
+  maxPopulation: number | null;
+  sort: { field: SortField; descending: boolean };
+  limit: number;
+  cursor: Cursor | null;
+}
+
+const SORT_FIELDS = ["city_id", "city_name", "population"] as const;
+type SortField = (typeof SORT_FIELDS)[number];
+
+// The sort value and city_id of the last row of the previous page
+type Cursor = [string | number, number];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_INTEGER = 2_147_483_647; // Postgres integer
+const UNIQUE_VIOLATION = "23505"; // Postgres SQLSTATE
+
+/**
+ * Writable columns with their maximum length (strings) and whether they
+ * may be null, mirroring the `cities` table
+ */
+const CITY_COLUMNS: Record<
+  keyof CityInput,
+  { type: "string" | "integer"; maxLength?: number; nullable: boolean }
+> = {
+  city_name: { type: "string", maxLength: 100, nullable: false },
+  local_name: { type: "string", maxLength: 100, nullable: true },
+  country: { type: "string", maxLength: 100, nullable: false },
+  continent: { type: "string", maxLength: 50, nullable: false },
+  population: { type: "integer", nullable: true },
+  language_spoken: { type: "string", maxLength: 100, nullable: true },
+};
+
+function parseOptionalInt(
+  value: string | null,
+  name: string
+): { value: number | null; error: string | null } {
+  if (value === null || value === "") return { value: null, error: null };
+  if (!/^\d+$/.test(value)) {
+    return { value: null, error: `${name} must be a non-negative integer` };
+  }
+  return { value: parseInt(value, 10), error: null };
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify(cursor))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(value: string, field: SortField): Cursor | null {
+  try {
+    const cursor = JSON.parse(
+      atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    const expected = field === "city_name" ? "string" : "number";
+    if (
+      Array.isArray(cursor) &&
+      cursor.length === 2 &&
+      typeof cursor[0] === expected &&
+      Number.isInteger(cursor[1])
+    ) {
+      return cursor as Cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  return null;
+}
+
+/**
+ * Read the `GET /cities` filters, `sort` (a field, `-` prefixed for
+ * descending), `limit` and `cursor` from the query string
+ * @returns The list query, or an error message for a 400 response
+ */
+export function parseCitiesListQuery(searchParams: URLSearchParams): {
+  query: CitiesListQuery | null;
+  error: string | null;
+} {
+  const sortParam = searchParams.get("sort") || "city_id";
+  const descending = sortParam.startsWith("-");
+  const field = descending ? sortParam.slice(1) : sortParam;
+  if (!(SORT_FIELDS as readonly string[]).includes(field)) {
+    return {
+      query: null,
+      error: `sort must be one of ${SORT_FIELDS.join(
+        ", "
+      )} (prefix - to reverse)`,
+    };
+  }
+
+  const minPopulation = parseOptionalInt(
+    searchParams.get("minPopulation"),
+    "minPopulation"
+  );
+  const maxPopulation = parseOptionalInt(
+    searchParams.get("maxPopulation"),
+    "maxPopulation"
+  );
+  const limit = parseOptionalInt(searchParams.get("limit"), "limit");
+  const error = minPopulation.error || maxPopulation.error || limit.error;
+  if (error) {
+    return { query: null, error };
+  }
+  if (limit.value !== null && (limit.value < 1 || limit.value > MAX_LIMIT)) {
+    return { query: null, error: `limit must be between 1 and ${MAX_LIMIT}` };
+  }
+
+  const cursorParam = searchParams.get("cursor");
+  let cursor: Cursor | null = null;
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam, field as SortField);
+    if (!cursor) {
+      return { query: null, error: "cursor is invalid for this sort" };
+    }
+  }
+
+  return {
+    query: {
+      continent: searchParams.get("continent") || null,
+      country: searchParams.get("country") || null,
+      minPopulation: minPopulation.value,
+      maxPopulation: maxPopulation.value,
+      sort: { field: field as SortField, descending },
+      limit: limit.value ?? DEFAULT_LIMIT,
+      cursor,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Validate a POST (all required columns) or PATCH (any columns) body
+ * @returns The columns to write, or an error message for a 400 response
+ */
+export function parseCityInput(
+  body: unknown,
+  partial: boolean
+): { input: Partial<CityInput> | null; error: string | null } {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { input: null, error: "Body must be a JSON object" };
+  }
+
+  const input: Partial<CityInput> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!Object.hasOwn(CITY_COLUMNS, key)) {
+      return {
+        input: null,
+        error:
+          key === "city_id"
+            ? "city_id is assigned by the server"
+            : `Unknown field: ${key}`,
+      };
+    }
+    const column = CITY_COLUMNS[key as keyof CityInput];
+    if (value === null) {
+      if (!column.nullable) {
+        return { input: null, error: `${key} must not be null` };
+      }
+    } else if (column.type === "string") {
+      if (
+        typeof value !== "string" ||
+        value.trim() === "" ||
+        value.length > column.maxLength!
+      ) {
+        return {
+          input: null,
+          error: `${key} must be a non-empty string of at most ${column.maxLength} characters`,
+        };
+      }
+    } else if (
+      !Number.isInteger(value) ||
+      (value as number) < 0 ||
+      (value as number) > MAX_INTEGER
+    ) {
+      return {
+        input: null,
+        error: `${key} must be an integer between 0 and ${MAX_INTEGER}`,
+      };
+    }
+    (input as Record<string, unknown>)[key] = value;
+  }
+
+  if (partial) {
+    if (Object.keys(input).length === 0) {
+      return { input: null, error: "Body must contain at least one field" };
+    }
+  } else {
+    const missing = (Object.keys(CITY_COLUMNS) as (keyof CityInput)[]).filter(
+      (key) => !CITY_COLUMNS[key].nullable && input[key] === undefined
+    );
+    if (missing.length > 0) {
+      return { input: null, error: `Missing fields: ${missing.join(", ")}` };
+    }
+  }
+  return { input, error: null };
+}
+
+/**
+ * Parse the `:id` path segment
+ */
+export function parseCityId(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null;
+  const id = parseInt(value, 10);
+  return id >= 1 && id <= MAX_INTEGER ? id : null;
+}
+
+// --- Queries ---
+
+function sortKey(sql: postgres.Sql, field: SortField) {
+  // Nulls sort as 0 so the keyset comparison never meets a NULL
+  return field === "population"
+    ? sql`COALESCE(population, 0)`
+    : sql`${sql(field)}`;
+}
+
+async function listCities(
+  sql: postgres.Sql,
+  query: CitiesListQuery
+): Promise<{ cities: City[]; nextCursor: string | null }> {
+  const { field, descending } = query.sort;
+  const key = sortKey(sql, field);
+  const direction = descending ? sql`DESC` : sql`ASC`;
+
+  const conditions = [
+    query.continent && sql`continent = ${query.continent}`,
+    query.country && sql`country = ${query.country}`,
+    query.minPopulation !== null && sql`population >= ${query.minPopulation}`,
+    query.maxPopulation !== null && sql`population <= ${query.maxPopulation}`,
+    query.cursor &&
+      (descending
+        ? sql`(${key}, city_id) < (${query.cursor[0]}, ${query.cursor[1]})`
+        : sql`(${key}, city_id) > (${query.cursor[0]}, ${query.cursor[1]})`),
+  ].filter((condition) => !!condition);
+
+  const where = conditions.reduce(
+    (clause, condition, index) =>
+      index === 0 ? sql`WHERE ${condition}` : sql`${clause} AND ${condition}`,
+    sql``
+  );
+
+  // One extra row tells whether another page exists
+  const rows = await sql<City[]>`
+    SELECT * FROM public.cities
+    ${where}
+    ORDER BY ${key} ${direction}, city_id ${direction}
+    LIMIT ${query.limit + 1}
+  `;
+
+  const cities = rows.slice(0, query.limit);
+  const last = cities[cities.length - 1];
+  const nextCursor =
+    rows.length > query.limit
+      ? encodeCursor([
+          field === "population" ? last.population ?? 0 : last[field],
+          last.city_id,
+        ])
+      : null;
+  return { cities, nextCursor };
+}
+
+async function findDuplicate(
+  sql: postgres.Sql,
+  cityName: string,
+  country: string,
+  excludeId: number | null
+): Promise<boolean> {
+  const rows = await sql`
+    SELECT 1 FROM public.cities
+    WHERE lower(city_name) = lower(${cityName}) AND country = ${country}
+    ${excludeId !== null ? sql`AND city_id <> ${excludeId}` : sql``}
+    LIMIT 1
+  `;
+  return rows.length > 0;
+}
+
+// --- Request handling ---
+
+export interface CitiesEnvelope {
+  data: City | City[] | null;
+  timeMs: number; // Database time, as in the benchmark responses
+  binding: string;
+  error: string | null;
+  nextCursor?: string | null; // Lists only
+}
+
+class CitiesError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Run a write that may hit the `cities_name_country_key` index: a writer
+ * racing another past `findDuplicate` gets the same 409 as a late one.
+ */
+async function uniqueWrite<T>(
+  cityName: string,
+  country: string,
+  write: () => Promise<T>
+): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if ((error as { code?: unknown }).code === UNIQUE_VIOLATION) {
+      throw new CitiesError(409, `${cityName} already exists in ${country}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Weak ETag over the serialized data, so equal representations match
+ * whichever server produced them
+ */
+export async function etagFor(data: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(JSON.stringify(data))
+  );
+  const hash = btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `W/"${hash}"`;
+}
+
+/** The ETag a GET of `city` carries, for write responses to repeat */
+function cityEtag(city: City): Promise<string> {
+  return etagFor({ data: city });
+}
+
+/** For `If-None-Match` and `If-Match` */
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  // Weak comparison: W/ prefixes are ignored
+  const opaque = etag.replace(/^W\//, "");
+  return header
+    .split(",")
+    .some((candidate) => candidate.trim().replace(/^W\//, "") === opaque);
+}
+
+async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new CitiesError(400, "Body must be valid JSON");
+  }
+}
+
+/**
+ * Serve one request to `/cities` (`id` null) or `/cities/:id`:
+ * GET lists or reads (with ETag / If-None-Match), POST creates, PATCH
+ * updates and DELETE removes (both with If-Match). Every body uses the
+ * `timeMs` envelope.
+ * @param binding Reported in the envelope, like the benchmark endpoints
+ */
+export async function handleCitiesRequest(
+  sql: postgres.Sql,
+  request: Request,
+  id: string | null,
+  binding: string
+): Promise<Response> {
+  let timeMs = 0;
+  // Time only the database work, not validation or serialization
+  async function timed<T>(work: () => Promise<T>): Promise<T> {
+    const startTime = performance.now();
+    try {
+      return await work();
+    } finally {
+      timeMs += performance.now() - startTime;
+    }
+  }
+
+  function respond(
+    status: number,
+    envelope: Omit<CitiesEnvelope, "timeMs" | "binding">,
+    headers: Record<string, string> = {}
+  ): Response {
+    return new Response(JSON.stringify({ ...envelope, timeMs, binding }), {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+        ...headers,
+      },
+    });
+  }
+
+  async function respondWithEtag(
+    envelope: Omit<CitiesEnvelope, "timeMs" | "binding" | "error">
+  ): Promise<Response> {
+    const etag = await etagFor(envelope);
+    const headers = { ETag: etag, "Cache-Control": "no-cache" };
+    if (matchesEtag(request.headers.get("If-None-Match"), etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+    return respond(200, { ...envelope, error: null }, headers);
+  }
+
+  // `If-Match` makes a write conditional on the city a GET returned
+  async function checkIfMatch(current: City): Promise<void> {
+    const header = request.headers.get("If-Match");
+    if (header && !matchesEtag(header, await cityEtag(current))) {
+      throw new CitiesError(412, `City ${current.city_id} has changed`);
+    }
+  }
+
+  try {
+    const method = request.method;
+
+    if (id === null) {
+      if (method === "GET") {
+        const { query, error } = parseCitiesListQuery(
+          new URL(request.url).searchParams
+        );
+        if (!query) throw new CitiesError(400, error!);
+        const { cities, nextCursor } = await timed(() =>
+          listCities(sql, query)
+        );
+        return respondWithEtag({ data: cities, nextCursor });
+      }
+
+      if (method === "POST") {
+        const { input, error } = parseCityInput(
+          await readJsonBody(request),
+          false
+        );
+        if (!input) throw new CitiesError(400, error!);
+        const city = await timed(() =>
+          sql.begin(async (tx) => {
+            if (
+              await findDuplicate(tx, input.city_name!, input.country!, null)
+            ) {
+              throw new CitiesError(
+                409,
+                `${input.city_name} already exists in ${input.country}`
+              );
+            }
+            const [created] = await uniqueWrite(
+              input.city_name!,
+              input.country!,
+              () => tx<City[]>`
+                INSERT INTO public.cities ${tx(input)} RETURNING *
+              `
+            );
+            return created;
+          })
+        );
+        // Relative to the collection, which SvelteKit mounts elsewhere
+        const collection = new URL(request.url).pathname.replace(/\/$/, "");
+        return respond(
+          201,
+          { data: city, error: null },
+          {
+            Location: `${collection}/${city.city_id}`,
+            ETag: await cityEtag(city),
+          }
+        );
+      }
+
+      throw new CitiesError(405, `Method ${method} not allowed on /cities`);
+    }
+
+    const cityId = parseCityId(id);
+    if (cityId === null) {
+      throw new CitiesError(400, "City id must be a positive integer");
+    }
+    const notFound = new CitiesError(404, `City ${cityId} not found`);
+
+    if (method === "GET") {
+      const [city] = await timed(
+        () => sql<City[]>`SELECT * FROM public.cities WHERE city_id = ${cityId}`
+      );
+      if (!city) throw notFound;
+      return respondWithEtag({ data: city });
+    }
+
+    if (method === "PATCH") {
+      const { input, error } = parseCityInput(
+        await readJsonBody(request),
+        true
+      );
+      if (!input) throw new CitiesError(400, error!);
+      const city = await timed(() =>
+        sql.begin(async (tx) => {
+          const [current] = await tx<City[]>`
+            SELECT * FROM public.cities WHERE city_id = ${cityId} FOR UPDATE
+          `;
+          if (!current) throw notFound;
+          await checkIfMatch(current);
+          const cityName = input.city_name ?? current.city_name;
+          const country = input.country ?? current.country;
+          if (
+            (input.city_name !== undefined || input.country !== undefined) &&
+            (await findDuplicate(tx, cityName, country, cityId))
+          ) {
+            throw new CitiesError(
+              409,
+              `${cityName} already exists in ${country}`
+            );
+          }
+          const [updated] = await uniqueWrite(
+            cityName,
+            country,
+            () => tx<City[]>`
+              UPDATE public.cities SET ${tx(input)}
+              WHERE city_id = ${cityId}
+              RETURNING *
+            `
+          );
+          return updated;
+        })
+      );
+      return respond(
+        200,
+        { data: city, error: null },
+        { ETag: await cityEtag(city) }
+      );
+    }
+
+    if (method === "DELETE") {
+      const city = await timed(() =>
+        sql.begin(async (tx) => {
+          const [current] = await tx<City[]>`
+            SELECT * FROM public.cities WHERE city_id = ${cityId} FOR UPDATE
+          `;
+          if (!current) throw notFound;
+          await checkIfMatch(current);
+          await tx`DELETE FROM public.cities WHERE city_id = ${cityId}`;
+          return current;
+        })
+      );
+      return respond(200, { data: city, error: null });
+    }
+
+    throw new CitiesError(405, `Method ${method} not allowed on /cities/:id`);
+  } catch (e: any) {
+    if (e instanceof CitiesError) {
+      const headers: Record<string, string> =
+        e.status === 405
+          ? { Allow: id === null ? "GET, POST" : "GET, PATCH, DELETE" }
+          : {};
+      return respond(e.status, { data: null, error: e.message }, headers);
+    }
+    console.error("Cities request failed:", e);
+    return respond(500, {
+      data: null,
+      error: e.message || "An unknown database error occurred",
+    });
+  }
+}
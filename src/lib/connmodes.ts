@@ -0,0 +1,193 @@
+// src/lib/connmodes.ts - Connection strategies for Hyperdrive queries
+import postgres from "postgres";
+import type { Span } from "./tracing";
+import type { WorkloadRow } from "./workloads";
+
+export const CONN_MODES = [
+  "per-request",
+  "reuse",
+  "unprepared",
+  "pipelined",
+] as const;
+
+export type ConnMode = (typeof CONN_MODES)[number];
+
+export const DEFAULT_CONN_MODE: ConnMode = "per-request";
+
+export const CONN_MODE_DESCRIPTIONS: Record<ConnMode, string> = {
+  "per-request": "A fresh client for every query, as if each were a request",
+  reuse: "One client for all of the request's queries, run in sequence",
+  unprepared: "Like reuse, with prepared statements off (prepare: false)",
+  pipelined: "One client, with every query sent before the first returns",
+};
+
+// Keeps a pipelined request well inside one Worker invocation
+export const MAX_QUERIES = 20;
+
+export interface ConnStrategy {
+  mode: ConnMode;
+  queries: number; // How many times the workload runs in one request
+}
+
+export interface ConnModeTimings {
+  connectMs: number; // Summed over every client opened
+  queryMs: number; // After connecting until the last result, minus closes
+  firstQueryMs: number; // Until the first result, including its connect
+  totalMs: number; // Until the last result, closes included
+}
+
+/**
+ * Read `connMode` and `queries` from a request's query string
+ * @returns The strategy, or an error message for a 400 response
+ */
+export function parseConnStrategy(searchParams: URLSearchParams): {
+  strategy: ConnStrategy | null;
+  error: string | null;
+} {
+  const mode = searchParams.get("connMode") || DEFAULT_CONN_MODE;
+  if (!(CONN_MODES as readonly string[]).includes(mode)) {
+    return {
+      strategy: null,
+      error: `Unknown connMode: ${mode}. Expected one of ${CONN_MODES.join(
+        ", "
+      )}`,
+    };
+  }
+
+  const queries = searchParams.get("queries") ?? "1";
+  if (!/^\d+$/.test(queries)) {
+    return { strategy: null, error: "queries must be a positive integer" };
+  }
+  const count = parseInt(queries, 10);
+  if (count < 1 || count > MAX_QUERIES) {
+    return {
+      strategy: null,
+      error: `queries must be between 1 and ${MAX_QUERIES}`,
+    };
+  }
+
+  return { strategy: { mode: mode as ConnMode, queries: count }, error: null };
+}
+
+/**
+ * Run `runQuery` `strategy.queries` times against `connectionString`,
+ * opening clients the way `strategy.mode` says. Every client is pushed to
+ * `clients` as soon as it exists, so the caller can close them even when
+ * a query fails.
+ * @param span Parent of a `db.connect` span per client and a `db.query`
+ * span per query
+ * @returns The first query's rows and how long connecting and querying took
+ */
+export async function runWithConnMode(
+  connectionString: string,
+  options: postgres.Options<{}>,
+  strategy: ConnStrategy,
+  clients: postgres.Sql[],
+  runQuery: (sql: postgres.Sql) => Promise<WorkloadRow[]>,
+  span?: Span
+): Promise<{ results: WorkloadRow[]; timings: ConnModeTimings }> {
+  let connectMs = 0;
+  let queryMs = 0;
+
+  // Recorded once measured, as the connect time is only known afterwards
+  function recordSpan(name: string, start: number, end: number) {
+    span
+      ?.child(name, {
+        kind: "client",
+        startTime: start,
+        attributes: {
+          "db.system": "postgresql",
+          "bunvhd.conn_mode": strategy.mode,
+        },
+      })
+      .end(end);
+  }
+
+  // postgres.js connects lazily and builds the first statement once the
+  // connection is ready, so its debug hook marks the end of connecting
+  function openClient() {
+    let connectedTime: number | null = null;
+    const sql = postgres(connectionString, {
+      ...options,
+      prepare: strategy.mode !== "unprepared",
+      debug: () => {
+        connectedTime ??= performance.now();
+      },
+    });
+    clients.push(sql);
+    return {
+      sql,
+      connectedAt: (fallback: number) => connectedTime ?? fallback,
+    };
+  }
+
+  const startTime = performance.now();
+  let firstResultTime: number | null = null;
+  let results: WorkloadRow[] = [];
+
+  if (strategy.mode === "per-request") {
+    for (let i = 0; i < strategy.queries; i++) {
+      const client = openClient();
+      const queryStart = performance.now();
+      const rows = await runQuery(client.sql);
+      const queryEnd = performance.now();
+      const connectedTime = client.connectedAt(queryStart);
+      connectMs += connectedTime - queryStart;
+      queryMs += queryEnd - connectedTime;
+      recordSpan("db.connect", queryStart, connectedTime);
+      recordSpan("db.query", connectedTime, queryEnd);
+      if (firstResultTime === null) {
+        firstResultTime = queryEnd;
+        results = rows;
+      }
+      // Workers cap open connections, so close before the next request
+      await client.sql.end({ timeout: 5 });
+    }
+  } else {
+    const client = openClient();
+    // When each query was sent and answered
+    const queryTimes: [number, number][] = [];
+    if (strategy.mode === "pipelined") {
+      const all = await Promise.all(
+        Array.from({ length: strategy.queries }, () =>
+          runQuery(client.sql).then((rows) => {
+            const queryEnd = performance.now();
+            firstResultTime ??= queryEnd;
+            queryTimes.push([startTime, queryEnd]);
+            return rows;
+          })
+        )
+      );
+      results = all[0];
+    } else {
+      for (let i = 0; i < strategy.queries; i++) {
+        const queryStart = performance.now();
+        const rows = await runQuery(client.sql);
+        queryTimes.push([queryStart, performance.now()]);
+        if (firstResultTime === null) {
+          firstResultTime = performance.now();
+          results = rows;
+        }
+      }
+    }
+    const connectedTime = client.connectedAt(startTime);
+    connectMs = connectedTime - startTime;
+    queryMs = performance.now() - startTime - connectMs;
+    recordSpan("db.connect", startTime, connectedTime);
+    for (const [queryStart, queryEnd] of queryTimes) {
+      // The first queries wait for the connection
+      recordSpan("db.query", Math.max(queryStart, connectedTime), queryEnd);
+    }
+  }
+
+  const endTime = performance.now();
+  return {
+    results,
+    timings: {
+      connectMs,
+      queryMs,
+      firstQueryMs: (firstResultTime ?? endTime) - startTime,
+      totalMs: endTime - startTime,
+    },
+  };
+}
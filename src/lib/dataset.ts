@@ -0,0 +1,143 @@
+// src/lib/dataset.ts - Deterministic synthetic data for the benchmark tables
+import type { City } from "./db";
+
+export type Country = {
+  country_name: string;
+  continent: string;
+  population: number;
+};
+
+export type Landmark = {
+  city_id: number;
+  landmark_name: string;
+  category: string;
+  visitors_per_year: number;
+};
+
+export interface Dataset {
+  countries: Country[];
+  cities: Omit<City, "city_id">[];
+  landmarks: Landmark[];
+}
+
+const CONTINENTS: Record<string, { countries: string[]; languages: string[] }> =
+  {
+    Africa: {
+      countries: ["Egypt", "Kenya", "Nigeria", "Morocco", "South Africa"],
+      languages: ["Arabic", "Swahili", "English", "French"],
+    },
+    Asia: {
+      countries: ["Japan", "India", "Thailand", "South Korea", "Vietnam"],
+      languages: ["Japanese", "Hindi", "Thai", "Korean", "Vietnamese"],
+    },
+    Europe: {
+      countries: ["Finland", "France", "Germany", "Italy", "Spain"],
+      languages: ["Finnish", "French", "German", "Italian", "Spanish"],
+    },
+    "North America": {
+      countries: ["Canada", "Mexico", "United States"],
+      languages: ["English", "French", "Spanish"],
+    },
+    "South America": {
+      countries: ["Argentina", "Brazil", "Chile", "Peru"],
+      languages: ["Spanish", "Portuguese"],
+    },
+    Australia: {
+      countries: ["Australia", "New Zealand"],
+      languages: ["English", "Māori"],
+    },
+  };
+
+const SYLLABLES = [
+  "ka", "lo", "mi", "ra", "ne", "to", "sa", "vi", "du", "po",
+  "len", "mar", "sol", "ber", "tin", "gar", "hel", "fen", "dor", "val",
+];
+const SUFFIXES = ["", "", "", " City", "ville", "burg", "polis", " Bay", "stad"];
+const LANDMARK_CATEGORIES = ["museum", "park", "bridge", "tower", "market", "temple"];
+
+/**
+ * Small, fast, seedable PRNG (mulberry32). The same seed always yields the
+ * same sequence, so every region can be seeded with identical rows, and
+ * benchmark run orders and injected faults can be replayed.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function makeName(random: () => number): string {
+  const syllableCount = 2 + Math.floor(random() * 2);
+  let name = "";
+  for (let i = 0; i < syllableCount; i++) name += pick(random, SYLLABLES);
+  return name[0].toUpperCase() + name.slice(1) + pick(random, SUFFIXES);
+}
+
+/**
+ * Generate countries, `cityCount` cities and up to three landmarks per city.
+ * Landmark `city_id`s assume cities are inserted in order into an empty
+ * table whose identity starts at 1. A name repeated within a country gets a
+ * number, as the `cities_name_country_key` index (006.sql) requires.
+ */
+export function generateDataset(cityCount: number, seed: number): Dataset {
+  const random = createRandom(seed);
+
+  const countries: Country[] = [];
+  for (const [continent, { countries: names }] of Object.entries(CONTINENTS)) {
+    for (const country_name of names) {
+      countries.push({
+        country_name,
+        continent,
+        population: 1_000_000 + Math.floor(random() * 200_000_000),
+      });
+    }
+  }
+
+  const cities: Omit<City, "city_id">[] = [];
+  const landmarks: Landmark[] = [];
+  const nameCounts = new Map<string, number>();
+  for (let i = 0; i < cityCount; i++) {
+    const country = pick(random, countries);
+    const name = makeName(random);
+    const key = `${country.country_name}:${name.toLowerCase()}`;
+    const count = (nameCounts.get(key) ?? 0) + 1;
+    nameCounts.set(key, count);
+    // Generated names have no digits, so a numbered one never repeats
+    const city_name = count > 1 ? `${name} ${count}` : name;
+    // Skew populations so most cities are small and a few are very large
+    const population = Math.floor(1_000 + random() ** 4 * 30_000_000);
+
+    cities.push({
+      city_name,
+      local_name: random() < 0.3 ? makeName(random) : city_name,
+      country: country.country_name,
+      continent: country.continent,
+      population: random() < 0.05 ? null : population,
+      language_spoken: pick(random, CONTINENTS[country.continent].languages),
+    });
+
+    const landmarkCount = Math.floor(random() * 4);
+    for (let j = 0; j < landmarkCount; j++) {
+      const category = pick(random, LANDMARK_CATEGORIES);
+      landmarks.push({
+        city_id: i + 1,
+        landmark_name: `${makeName(random)} ${
+          category[0].toUpperCase() + category.slice(1)
+        }`,
+        category,
+        visitors_per_year: Math.floor(random() * 5_000_000),
+      });
+    }
+  }
+
+  return { countries, cities, landmarks };
+}
@@ -1,5 +1,6 @@
 // src/lib/db.ts - Workers-compatible version
 import postgres from "postgres";
+import { logJson, traceFields, type Span } from "./tracing";
 
 // Define interface for binding objects to handle different binding formats
 interface DbBinding {
@@ -12,12 +13,16 @@ interface DbBinding {
  * @param binding The binding from platform.env or a connection string
  * @param cached Whether this is a cached connection (for configuration only)
  * @param region Optional region identifier for logging
+ * @param options Added to the client's options, e.g. a custom `socket`
+ * @param span The request's span, whose ids the log line carries
  * @returns Postgres SQL connection
  */
 export function getDbConnection(
   binding: string | DbBinding,
   cached: boolean = true,
-  region: string = "default"
+  region: string = "default",
+  options: postgres.Options<{}> = {},
+  span?: Span
 ) {
   // Extract connection string from binding
   const connectionString =
@@ -31,12 +36,15 @@ export function getDbConnection(
     max: 1, // Single connection
     idle_timeout: 5, // Short timeout
     connect_timeout: 10, // 10 second connection timeout
+    ...options,
   });
 
-  console.log(
+  logJson(
+    "info",
     `Created new database connection: ${region}_${
       cached ? "cached" : "non-cached"
-    }`
+    }`,
+    traceFields(span)
   );
 
   return sql;
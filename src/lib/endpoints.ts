@@ -0,0 +1,313 @@
+// src/lib/endpoints.ts - Single source of truth for benchmark endpoints
+import { DEFAULT_PROXY_POLICY, type ProxyPolicy } from "./proxy";
+
+/**
+ * Describes one database region. Every region gets one endpoint per
+ * access type and cache mode (e.g. Hyperdrive × CDN-cached), so adding a
+ * region only requires a new entry in `REGIONS`.
+ */
+export interface RegionDefinition {
+  label: string; // Human readable name shown on the page
+  flag: string;
+  displaySuffix: string; // Used in the `binding` name reported to the page
+  bindingSuffix: string; // Appended to the binding and secret names in wrangler.jsonc
+  querySlug: string; // Appended to `cached-query` / `non-cached-query`
+  bunSlug: string; // Appended to `bun-cached-` / `ws-non-cached-` etc.
+  restUrl: string; // Base URL of the Bun REST API in this region
+}
+
+export const REGIONS = {
+  "us-east": {
+    label: "US East",
+    flag: "🇺🇸",
+    displaySuffix: "US_EAST",
+    bindingSuffix: "-US-EAST",
+    querySlug: "-us-east",
+    bunSlug: "us-east",
+    restUrl: "https://bunvhd-db-us-east.tripcafe.org",
+  },
+  "us-west": {
+    label: "US West",
+    flag: "🇺🇸",
+    displaySuffix: "US_WEST",
+    bindingSuffix: "-US-WEST",
+    querySlug: "-us-west",
+    bunSlug: "us-west",
+    restUrl: "https://bunvhd-db-us-west.tripcafe.org",
+  },
+  helsinki: {
+    label: "Helsinki",
+    flag: "🇫🇮",
+    displaySuffix: "HELSINKI",
+    bindingSuffix: "",
+    querySlug: "",
+    bunSlug: "hel",
+    restUrl: "https://bunvhd-db-eu-east.tripcafe.org",
+  },
+} as const satisfies Record<string, RegionDefinition>;
+
+export type Region = keyof typeof REGIONS;
+
+export type AccessType = "hyperdrive" | "bun-rest-proxy" | "pg-websocket";
+
+type BindingSuffix = (typeof REGIONS)[Region]["bindingSuffix"];
+
+export type HyperdriveBindingKey = `${
+  | "CACHED"
+  | "NO-CACHED"}-DB-BUNVHD${BindingSuffix}`;
+
+// Worker secret holding the connection string of a pg-websocket endpoint
+export type WebSocketBindingKey = `WS-DB-BUNVHD${BindingSuffix}`;
+
+export type BindingKey = HyperdriveBindingKey | WebSocketBindingKey;
+
+export interface EndpointConfig {
+  key: string; // The `[endpoint]` route parameter, e.g. `cached-query-us-east`
+  bindingKey: BindingKey;
+  displayName: string;
+  cached: boolean;
+  region: Region;
+  type: AccessType; // Selects the backend adapter in `$lib/backends`
+  restUrl?: string; // URL for the REST API (only needed for bun-rest-proxy type)
+  proxyPolicy?: ProxyPolicy; // Timeout and retries of the bun-rest-proxy type
+  wsUrl?: string; // WebSocket proxy to the database (only for pg-websocket)
+}
+
+/**
+ * How endpoints of one access type are named and shown. What they do on
+ * the server is up to their adapter in `$lib/backends`.
+ */
+interface AccessTypeDefinition {
+  pageType: PageEndpoint["type"];
+  label: string; // Shown on the page, e.g. "Hyperdrive"
+  key(def: RegionDefinition, cached: boolean): string;
+  displayName(def: RegionDefinition, cacheName: string): string;
+  bindingKey(def: RegionDefinition, cached: boolean): BindingKey;
+  describe(regionLabel: string, cached: boolean): string;
+  extra?(def: RegionDefinition): Partial<EndpointConfig>;
+}
+
+function hyperdriveBindingKey(
+  def: RegionDefinition,
+  cached: boolean
+): HyperdriveBindingKey {
+  return `${cached ? "CACHED" : "NO-CACHED"}-DB-BUNVHD${
+    def.bindingSuffix
+  }` as HyperdriveBindingKey;
+}
+
+export const ACCESS_TYPE_DEFINITIONS: Record<AccessType, AccessTypeDefinition> =
+  {
+    hyperdrive: {
+      pageType: "hyperdrive",
+      label: "Hyperdrive",
+      key: (def, cached) =>
+        `${cached ? "cached" : "non-cached"}-query${def.querySlug}`,
+      displayName: (def, cacheName) => `${cacheName}_DB_${def.displaySuffix}`,
+      bindingKey: hyperdriveBindingKey,
+      describe: (regionLabel, cached) =>
+        cached
+          ? `Worker: Hyperdrive query. CDN cached. DB: ${regionLabel}.`
+          : `Worker: Hyperdrive query. Dynamic URL (no CDN), fresh data. Hyperdrive pooling. DB: ${regionLabel}.`,
+    },
+    "bun-rest-proxy": {
+      pageType: "bun-rest",
+      label: "Bun REST",
+      key: (def, cached) =>
+        `bun-${cached ? "cached" : "non-cached"}-${def.bunSlug}`,
+      displayName: (def, cacheName) =>
+        `BUN_REST_${cacheName}_${def.displaySuffix}`,
+      // Still need a binding for auth context, even if not used directly
+      bindingKey: hyperdriveBindingKey,
+      describe: (regionLabel, cached) =>
+        cached
+          ? `Worker: proxies Bun API. CDN cached. Bun API & DB: ${regionLabel}.`
+          : `Worker: proxies Bun API. Non-CDN cached, fresh data. Bun API & DB: ${regionLabel}.`,
+      extra: (def) => ({
+        restUrl: def.restUrl,
+        proxyPolicy: DEFAULT_PROXY_POLICY,
+      }),
+    },
+    "pg-websocket": {
+      pageType: "pg-websocket",
+      label: "PG WebSocket",
+      key: (def, cached) =>
+        `ws-${cached ? "cached" : "non-cached"}-${def.bunSlug}`,
+      displayName: (def, cacheName) =>
+        `PG_WS_${cacheName}_${def.displaySuffix}`,
+      bindingKey: (def) => `WS-DB-BUNVHD${def.bindingSuffix}` as BindingKey,
+      describe: (regionLabel, cached) =>
+        `Worker: Postgres over a WebSocket to the Bun server, no pooling. ${
+          cached ? "CDN cached" : "Dynamic URL (no CDN), fresh data"
+        }. DB: ${regionLabel}.`,
+      // The Bun server in each region tunnels to its own database
+      extra: (def) => ({ wsUrl: `${def.restUrl.replace(/^http/, "ws")}/v2` }),
+    },
+  };
+
+export const ACCESS_TYPES = Object.keys(
+  ACCESS_TYPE_DEFINITIONS
+) as readonly AccessType[];
+export const CACHE_MODES: readonly boolean[] = [true, false];
+
+function buildEndpoint(
+  region: Region,
+  type: AccessType,
+  cached: boolean
+): EndpointConfig {
+  const def: RegionDefinition = REGIONS[region];
+  const access = ACCESS_TYPE_DEFINITIONS[type];
+  return {
+    key: access.key(def, cached),
+    bindingKey: access.bindingKey(def, cached),
+    displayName: access.displayName(def, cached ? "CACHED" : "NON_CACHED"),
+    cached,
+    region,
+    type,
+    ...access.extra?.(def),
+  };
+}
+
+/**
+ * Every endpoint, keyed by its route parameter, in region × type × cache order
+ */
+export const ENDPOINT_CONFIG: Record<string, EndpointConfig> =
+  Object.fromEntries(
+    (Object.keys(REGIONS) as Region[]).flatMap((region) =>
+      ACCESS_TYPES.flatMap((type) =>
+        CACHE_MODES.map((cached) => {
+          const config = buildEndpoint(region, type, cached);
+          return [config.key, config];
+        })
+      )
+    )
+  );
+
+for (const config of Object.values(ENDPOINT_CONFIG)) {
+  if (config.type === "bun-rest-proxy" && !config.restUrl) {
+    throw new Error(`Endpoint registry: ${config.key} has no restUrl`);
+  }
+  if (config.type === "pg-websocket" && !config.wsUrl) {
+    throw new Error(`Endpoint registry: ${config.key} has no wsUrl`);
+  }
+}
+
+/**
+ * Matches an endpoint key with an optional cache-busting suffix
+ * (`-<timestamp>` or `-<timestamp>-<random>`). Keys are sorted longest
+ * first so `cached-query-us-east` is never read as `cached-query`.
+ */
+export const ENDPOINT_PATTERN = new RegExp(
+  `^(${Object.keys(ENDPOINT_CONFIG)
+    .sort((a, b) => b.length - a.length)
+    .join("|")})(-\\d+-\\d+|-\\d+)?$`
+);
+
+// Why the Worker env cannot serve an endpoint, or null when it can
+function bindingProblem(
+  config: EndpointConfig,
+  env: Record<string, unknown>
+): string | null {
+  if (config.type === "hyperdrive" && !(config.bindingKey in env)) {
+    return `Hyperdrive binding ${config.bindingKey} not found`;
+  }
+  if (config.type === "pg-websocket") {
+    if (!env[config.bindingKey]) {
+      return `WebSocket secret ${config.bindingKey} not found`;
+    }
+    const proxyUrl = env.WS_PROXY_URL;
+    if (
+      proxyUrl !== undefined &&
+      (typeof proxyUrl !== "string" ||
+        !URL.canParse(proxyUrl) ||
+        !/^wss?:$/.test(new URL(proxyUrl).protocol))
+    ) {
+      return "WS_PROXY_URL must be a ws:// or wss:// URL";
+    }
+  }
+  return null;
+}
+
+/**
+ * Check that every endpoint has what it needs in the Worker env: its
+ * Hyperdrive binding, or its WebSocket secret and a valid `WS_PROXY_URL`
+ * @param env The Worker env from `platform.env`
+ * @returns One message per endpoint that cannot be served (empty when valid)
+ */
+export function validateEndpointBindings(env: object): string[] {
+  const problems: string[] = [];
+  for (const config of Object.values(ENDPOINT_CONFIG)) {
+    const problem = bindingProblem(config, env as Record<string, unknown>);
+    if (problem) problems.push(`${config.key}: ${problem}`);
+  }
+  return problems;
+}
+
+/**
+ * Whether the Worker env can serve an endpoint, so jobs such as the
+ * monitor can leave out the ones that are not deployed
+ */
+export function isEndpointConfigured(key: string, env: object): boolean {
+  return (
+    Object.hasOwn(ENDPOINT_CONFIG, key) &&
+    bindingProblem(ENDPOINT_CONFIG[key], env as Record<string, unknown>) ===
+      null
+  );
+}
+
+/**
+ * Find the region whose Bun REST API is served from the given hostname
+ */
+export function regionForHost(hostname: string): Region | null {
+  for (const region of Object.keys(REGIONS) as Region[]) {
+    if (new URL(REGIONS[region].restUrl).hostname === hostname) {
+      return region;
+    }
+  }
+  return null;
+}
+
+/**
+ * Endpoint as listed on the benchmark page
+ */
+export interface PageEndpoint {
+  id: string;
+  url: string;
+  label: string;
+  region: Region;
+  type: "hyperdrive" | "bun-rest" | "pg-websocket";
+  cached: boolean;
+  description: string;
+}
+
+export const PAGE_TYPE_LABELS = Object.fromEntries(
+  Object.values(ACCESS_TYPE_DEFINITIONS).map((access) => [
+    access.pageType,
+    access.label,
+  ])
+) as Record<PageEndpoint["type"], string>;
+
+// Cache lifetime the page and CLI ask CDN-cached endpoints for
+export const CDN_CACHE_TTL_SECONDS = 30;
+
+export const PAGE_ENDPOINTS: PageEndpoint[] = Object.values(
+  ENDPOINT_CONFIG
+).map((config) => {
+  const def = REGIONS[config.region];
+  const where = `${def.label} ${def.flag}`;
+  const access = ACCESS_TYPE_DEFINITIONS[config.type];
+
+  return {
+    id: config.key,
+    url: `/api/${config.key}?${
+      config.cached ? `cdnCache=${CDN_CACHE_TTL_SECONDS}` : "_nc=true"
+    }`,
+    label: `${access.label} ${where} ${
+      config.cached ? "CDN-Cached" : "Non-Cached"
+    }`,
+    region: config.region,
+    type: access.pageType,
+    cached: config.cached,
+    description: access.describe(def.label, config.cached),
+  };
+});
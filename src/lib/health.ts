@@ -0,0 +1,62 @@
+// src/lib/health.ts - Readiness checks shared by the Worker and the Bun server
+import type postgres from "postgres";
+
+// Long enough for a cold Hyperdrive connection, short enough for a preflight
+export const READY_TIMEOUT_MS = 5000;
+
+export interface HealthCheck {
+  ok: boolean;
+  timeMs: number;
+  error: string | null;
+}
+
+/**
+ * Body of `/api/health`: one check per `ENDPOINT_CONFIG` key
+ */
+export interface HealthReport {
+  ok: boolean; // Every endpoint passed
+  endpoints: Record<string, HealthCheck>;
+}
+
+/**
+ * Run `check`, failing it after `timeoutMs`
+ */
+export async function timedCheck(
+  timeoutMs: number,
+  check: () => Promise<void>
+): Promise<HealthCheck> {
+  const startTime = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${timeoutMs} ms`)),
+          timeoutMs
+        );
+      }),
+    ]);
+    return { ok: true, timeMs: performance.now() - startTime, error: null };
+  } catch (e: any) {
+    return {
+      ok: false,
+      timeMs: performance.now() - startTime,
+      error: e?.message || "Unknown error",
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Round-trip `SELECT 1` through `sql`, failing after `timeoutMs`
+ */
+export function checkDatabase(
+  sql: postgres.Sql,
+  timeoutMs: number = READY_TIMEOUT_MS
+): Promise<HealthCheck> {
+  return timedCheck(timeoutMs, async () => {
+    await sql`SELECT 1`;
+  });
+}
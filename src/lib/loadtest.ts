@@ -0,0 +1,376 @@
+// src/lib/loadtest.ts - Drives an endpoint at a target RPS or concurrency
+import { ENDPOINT_CONFIG } from "./endpoints";
+import { percentile } from "./stats";
+
+export type LoadMode = "rps" | "concurrency";
+
+export type LoadPhase = "ramp-up" | "steady" | "ramp-down";
+
+export interface LoadTestPlan {
+  mode: LoadMode;
+  level: number; // Requests per second or requests in flight at steady state
+  rampUpSeconds: number; // Linear ramp from zero to `level`
+  steadySeconds: number;
+  rampDownSeconds: number; // Linear ramp from `level` back to zero
+  intervalSeconds: number; // Width of each reported window
+  maxInFlight: number; // RPS mode drops requests beyond this instead of queueing
+}
+
+export const DEFAULT_LOAD_TEST_PLAN: LoadTestPlan = {
+  mode: "concurrency",
+  level: 4,
+  rampUpSeconds: 10,
+  steadySeconds: 30,
+  rampDownSeconds: 10,
+  intervalSeconds: 1,
+  maxInFlight: 256,
+};
+
+export const MAX_LOAD_LEVEL = 1000;
+export const MAX_PHASE_SECONDS = 3600;
+
+// Upper bounds of the latency histogram, in milliseconds
+export const LATENCY_BUCKETS_MS = [
+  5,
+  10,
+  25,
+  50,
+  100,
+  250,
+  500,
+  1000,
+  2500,
+  5000,
+  10000,
+  Infinity,
+];
+
+export interface LatencyPercentiles {
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+export interface LoadWindow {
+  startSeconds: number;
+  phase: LoadPhase;
+  targetLevel: number; // At the start of the window
+  started: number;
+  completed: number; // Finished in this window, failed or not
+  errors: number;
+  dropped: number; // RPS mode only: not sent because maxInFlight was reached
+  inFlight: number; // At the end of the window
+  achievedRps: number; // Completed per second
+  latency: LatencyPercentiles; // Of the requests completed in this window
+  histogram: number[]; // Counts per LATENCY_BUCKETS_MS bucket
+}
+
+export interface LoadTestReport {
+  plan: LoadTestPlan;
+  durationSeconds: number; // Including the wait for the last responses
+  windows: LoadWindow[];
+  total: {
+    started: number;
+    completed: number;
+    errors: number;
+    dropped: number;
+    errorRate: number;
+    achievedRps: number;
+    latency: LatencyPercentiles;
+    histogram: number[];
+  };
+  errors: Record<string, number>; // Count per error message
+}
+
+/**
+ * Check a plan before running it
+ * @returns A message describing the first problem, or null when valid
+ */
+export function validateLoadTestPlan(plan: LoadTestPlan): string | null {
+  if (plan.mode !== "rps" && plan.mode !== "concurrency") {
+    return "mode must be rps or concurrency";
+  }
+  if (!(plan.level > 0 && plan.level <= MAX_LOAD_LEVEL)) {
+    return `level must be above 0 and at most ${MAX_LOAD_LEVEL}`;
+  }
+  if (plan.mode === "concurrency" && !Number.isInteger(plan.level)) {
+    return "concurrency must be a whole number";
+  }
+  for (const [name, seconds] of [
+    ["rampUpSeconds", plan.rampUpSeconds],
+    ["steadySeconds", plan.steadySeconds],
+    ["rampDownSeconds", plan.rampDownSeconds],
+  ] as const) {
+    if (!(seconds >= 0 && seconds <= MAX_PHASE_SECONDS)) {
+      return `${name} must be between 0 and ${MAX_PHASE_SECONDS}`;
+    }
+  }
+  if (plan.rampUpSeconds + plan.steadySeconds + plan.rampDownSeconds <= 0) {
+    return "The test must last longer than 0 seconds";
+  }
+  if (!(plan.intervalSeconds > 0)) {
+    return "intervalSeconds must be above 0";
+  }
+  if (!(Number.isInteger(plan.maxInFlight) && plan.maxInFlight >= 1)) {
+    return "maxInFlight must be a positive integer";
+  }
+  return null;
+}
+
+export function planDurationSeconds(plan: LoadTestPlan): number {
+  return plan.rampUpSeconds + plan.steadySeconds + plan.rampDownSeconds;
+}
+
+/**
+ * The phase and target level `elapsedSeconds` into a test
+ */
+export function targetAt(
+  plan: LoadTestPlan,
+  elapsedSeconds: number
+): { phase: LoadPhase; level: number } {
+  const { rampUpSeconds, steadySeconds, rampDownSeconds, level } = plan;
+  if (elapsedSeconds < rampUpSeconds) {
+    return {
+      phase: "ramp-up",
+      level: (level * elapsedSeconds) / rampUpSeconds,
+    };
+  }
+  if (elapsedSeconds < rampUpSeconds + steadySeconds) {
+    return { phase: "steady", level };
+  }
+  const intoRampDown = elapsedSeconds - rampUpSeconds - steadySeconds;
+  return {
+    phase: "ramp-down",
+    level:
+      rampDownSeconds > 0
+        ? Math.max(level * (1 - intoRampDown / rampDownSeconds), 0)
+        : 0,
+  };
+}
+
+function latencyPercentiles(latencies: number[]): LatencyPercentiles {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+  };
+}
+
+function histogramOf(latencies: number[]): number[] {
+  const counts = LATENCY_BUCKETS_MS.map(() => 0);
+  for (const latency of latencies) {
+    counts[LATENCY_BUCKETS_MS.findIndex((bound) => latency <= bound)]++;
+  }
+  return counts;
+}
+
+interface WindowTally {
+  started: number;
+  completed: number;
+  errors: number;
+  dropped: number;
+  inFlight: number;
+  latencies: number[];
+}
+
+export interface LoadTestOptions {
+  onWindow?: (window: LoadWindow) => void; // Called as each window closes
+  signal?: AbortSignal; // Stops sending; responses in flight are awaited
+  tickMs?: number; // How often the scheduler wakes up
+}
+
+/**
+ * Run `send` according to `plan`. RPS mode starts requests on a schedule
+ * whatever the latency (open loop); concurrency mode keeps `level`
+ * requests in flight (closed loop). `send` rejects to report an error.
+ */
+export async function runLoadTest(
+  plan: LoadTestPlan,
+  send: () => Promise<void>,
+  { onWindow, signal, tickMs = 10 }: LoadTestOptions = {}
+): Promise<LoadTestReport> {
+  const problem = validateLoadTestPlan(plan);
+  if (problem) throw new Error(problem);
+
+  const durationSeconds = planDurationSeconds(plan);
+  const windowCount = Math.ceil(durationSeconds / plan.intervalSeconds);
+  const tallies: WindowTally[] = Array.from({ length: windowCount }, () => ({
+    started: 0,
+    completed: 0,
+    errors: 0,
+    dropped: 0,
+    inFlight: 0,
+    latencies: [],
+  }));
+  const errors: Record<string, number> = {};
+  const pending = new Set<Promise<void>>();
+  const startTime = performance.now();
+  let inFlight = 0;
+  let closedWindows = 0;
+
+  const elapsedSeconds = () => (performance.now() - startTime) / 1000;
+  // Late responses are counted in the last window
+  const windowIndex = (seconds: number) =>
+    Math.min(Math.floor(seconds / plan.intervalSeconds), windowCount - 1);
+
+  function finishWindow(index: number): LoadWindow {
+    const tally = tallies[index];
+    const startSeconds = index * plan.intervalSeconds;
+    const width = Math.min(
+      plan.intervalSeconds,
+      durationSeconds - startSeconds
+    );
+    const { phase, level } = targetAt(plan, startSeconds);
+    return {
+      startSeconds,
+      phase,
+      targetLevel: level,
+      started: tally.started,
+      completed: tally.completed,
+      errors: tally.errors,
+      dropped: tally.dropped,
+      inFlight: tally.inFlight,
+      achievedRps: tally.completed / width,
+      latency: latencyPercentiles(tally.latencies),
+      histogram: histogramOf(tally.latencies),
+    };
+  }
+
+  function closeWindowsBefore(index: number) {
+    while (closedWindows < index) {
+      tallies[closedWindows].inFlight = inFlight;
+      onWindow?.(finishWindow(closedWindows));
+      closedWindows++;
+    }
+  }
+
+  function launch() {
+    const requestStart = performance.now();
+    tallies[windowIndex(elapsedSeconds())].started++;
+    inFlight++;
+    const request = send()
+      .then(
+        () => null,
+        (e: any) => (e?.message as string) || "Unknown error"
+      )
+      .then((error) => {
+        const tally = tallies[windowIndex(elapsedSeconds())];
+        tally.completed++;
+        tally.latencies.push(performance.now() - requestStart);
+        if (error !== null) {
+          tally.errors++;
+          errors[error] = (errors[error] ?? 0) + 1;
+        }
+        inFlight--;
+        pending.delete(request);
+      });
+    pending.add(request);
+  }
+
+  let credit = 0; // RPS mode: requests owed since the last tick
+  let lastTick = 0;
+  while (!signal?.aborted) {
+    const now = elapsedSeconds();
+    if (now >= durationSeconds) break;
+    closeWindowsBefore(windowIndex(now));
+
+    const { level } = targetAt(plan, now);
+    if (plan.mode === "rps") {
+      credit += level * (now - lastTick);
+      while (credit >= 1) {
+        credit--;
+        if (inFlight >= plan.maxInFlight) {
+          tallies[windowIndex(now)].dropped++;
+        } else {
+          launch();
+        }
+      }
+    } else {
+      while (inFlight < Math.round(level)) launch();
+    }
+    lastTick = now;
+
+    await new Promise((resolve) => setTimeout(resolve, tickMs));
+  }
+
+  while (pending.size > 0) await Promise.all([...pending]);
+  closeWindowsBefore(windowCount);
+
+  const windows = tallies.map((_, index) => finishWindow(index));
+  const allLatencies = tallies.flatMap((tally) => tally.latencies);
+  const total = {
+    started: windows.reduce((sum, w) => sum + w.started, 0),
+    completed: windows.reduce((sum, w) => sum + w.completed, 0),
+    errors: windows.reduce((sum, w) => sum + w.errors, 0),
+    dropped: windows.reduce((sum, w) => sum + w.dropped, 0),
+    errorRate: 0,
+    achievedRps: 0,
+    latency: latencyPercentiles(allLatencies),
+    histogram: histogramOf(allLatencies),
+  };
+  total.errorRate = total.completed > 0 ? total.errors / total.completed : 0;
+  total.achievedRps = total.completed / durationSeconds;
+
+  return {
+    plan,
+    durationSeconds: elapsedSeconds(),
+    windows,
+    total,
+    errors,
+  };
+}
+
+/**
+ * URL of `/api/[endpoint]` for a load test. Non-cached endpoints get a
+ * unique path per request, like the page's measureFetch, so no CDN or
+ * Hyperdrive query cache answers for them.
+ */
+export function loadTestUrl(
+  origin: string,
+  endpoint: string,
+  sequence: number,
+  search: string = ""
+): string {
+  if (!Object.hasOwn(ENDPOINT_CONFIG, endpoint)) {
+    throw new Error(`Unknown endpoint: ${endpoint}`);
+  }
+  const config = ENDPOINT_CONFIG[endpoint];
+  const params = new URLSearchParams(search);
+  if (config.cached) {
+    if (!params.has("cdnCache")) params.set("cdnCache", "30");
+    return `${origin}/api/${endpoint}?${params}`;
+  }
+  return `${origin}/api/${endpoint}-${Date.now()}-${sequence}?${params}`;
+}
+
+/**
+ * A `send` for `runLoadTest` that GETs `nextUrl()`. Failed statuses,
+ * timeouts and an `error` in a JSON body all count as errors.
+ */
+export function httpSender(
+  nextUrl: () => string,
+  fetchImpl: typeof fetch,
+  timeoutMs: number
+): () => Promise<void> {
+  return async () => {
+    const response = await fetchImpl(nextUrl(), {
+      cache: "no-store",
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const text = await response.text();
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    if (response.headers.get("Content-Type")?.includes("application/json")) {
+      let body: { error?: unknown } | null = null;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        throw new Error("Invalid JSON response");
+      }
+      if (body?.error) throw new Error(String(body.error));
+    }
+  };
+}
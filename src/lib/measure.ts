@@ -0,0 +1,160 @@
+// src/lib/measure.ts - One timed request to `/api/[endpoint]`, shared by the page and the CLI
+import {
+  cacheLayerOf,
+  type CacheLayer,
+  type CacheObservation,
+  type Generation,
+} from "./cachecheck";
+import type { PayloadStats } from "./payload";
+import type { Timings } from "./timings";
+import {
+  formatTraceparent,
+  newTraceContext,
+  TRACEPARENT_HEADER,
+} from "./tracing";
+
+/**
+ * Body of `/api/[endpoint]` as far as a benchmark reads it
+ */
+export interface QueryResponse {
+  data: any | any[] | null;
+  timeMs: number;
+  binding: string;
+  error?: string | null;
+  colo?: string;
+  payload?: PayloadStats;
+  timings?: Timings;
+  generation?: Generation;
+  upstream?: CacheLayer | null;
+  traceId?: string; // The trace the Worker recorded the request in
+  traceUrl?: string | null; // Where that trace can be viewed
+}
+
+export interface BenchmarkResult {
+  clientTime: number | null;
+  serverTime: number | null;
+  binding: string | null;
+  error: string | null;
+  colo?: string | null;
+  payload?: PayloadStats | null;
+  timings?: Timings | null;
+  cache?: CacheObservation | null; // Kept apart from the timings
+  traceId?: string; // Sent as `traceparent`, so the request can be found
+  traceUrl?: string | null; // Only when the Worker recorded this trace
+}
+
+/**
+ * Resolve `url` against `origin`. Non-cached (`_nc`) `/api/[endpoint]` URLs
+ * get a unique `[endpoint]` path segment instead, so neither the browser,
+ * the CDN nor Hyperdrive can answer from a cache.
+ */
+export function cacheBustedUrl(url: string, origin: string): string {
+  const urlObj = new URL(url, origin);
+  if (!url.includes("_nc") || !url.startsWith("/api/")) {
+    return urlObj.toString();
+  }
+
+  const pathParts = urlObj.pathname.split("/");
+  const baseEndpoint = pathParts[2]; // The [endpoint] part in /api/[endpoint]
+  const timestamp = Date.now();
+  const randomSuffix = Math.floor(Math.random() * 1000);
+  pathParts[2] = `${baseEndpoint}-${timestamp}-${randomSuffix}`;
+  urlObj.pathname = pathParts.join("/");
+
+  // _r predates path-based differentiation and is no longer needed
+  urlObj.searchParams.delete("_r");
+  return urlObj.toString();
+}
+
+/**
+ * Time one GET of `url` (relative to `origin`), as the root of a new trace.
+ * Failures are returned as a result with `error` set rather than thrown.
+ */
+export async function measureFetch(
+  url: string,
+  origin: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<BenchmarkResult> {
+  const fetchUrl = cacheBustedUrl(url, origin);
+  const trace = newTraceContext();
+
+  const startTime = performance.now();
+  try {
+    const response = await fetchImpl(fetchUrl, {
+      cache: "no-cache",
+      headers: {
+        Accept: "application/json",
+        [TRACEPARENT_HEADER]: formatTraceparent(trace),
+      },
+    });
+
+    const clientTime = performance.now() - startTime;
+    const receivedAt = Date.now();
+
+    if (!response.ok) {
+      const errorText = await response
+        .text()
+        .catch(() => "Could not read error body");
+      throw new Error(
+        `HTTP ${response.status} ${response.statusText}: ${errorText.substring(
+          0,
+          200
+        )}`
+      );
+    }
+
+    let jsonResult: Partial<QueryResponse>;
+    try {
+      jsonResult = (await response.json()) as Partial<QueryResponse>;
+    } catch (parseError: any) {
+      console.error(`Error parsing JSON from ${fetchUrl}:`, parseError);
+      throw new Error(`Invalid JSON response received.`);
+    }
+
+    if (
+      !jsonResult.error &&
+      (typeof jsonResult?.timeMs !== "number" ||
+        typeof jsonResult?.binding !== "string")
+    ) {
+      console.warn(
+        `Received unexpected structure from ${fetchUrl}:`,
+        jsonResult
+      );
+      throw new Error(
+        "Invalid response structure (missing timeMs or binding)."
+      );
+    }
+
+    return {
+      clientTime: clientTime,
+      serverTime: jsonResult.timeMs ?? null,
+      binding: jsonResult.binding ?? "Unknown",
+      error: jsonResult.error ?? null,
+      colo: jsonResult.colo ?? null,
+      payload: jsonResult.payload ?? null,
+      timings: jsonResult.timings ?? null,
+      cache: {
+        ...cacheLayerOf(response.headers, jsonResult.generation),
+        receivedAt,
+        upstream: jsonResult.upstream ?? null,
+      },
+      traceId: trace.traceId,
+      // A copy from the CDN belongs to the trace of the request it cached
+      traceUrl:
+        jsonResult.traceId === trace.traceId
+          ? jsonResult.traceUrl ?? null
+          : null,
+    };
+  } catch (error: any) {
+    const clientTimeSoFar = performance.now() - startTime;
+    console.error(`Error fetching ${fetchUrl}:`, error);
+    return {
+      clientTime: clientTimeSoFar,
+      serverTime: null,
+      binding: "Fetch Error",
+      error: error.message || "Unknown fetch error",
+      colo: null,
+      traceId: trace.traceId,
+    };
+  }
+}
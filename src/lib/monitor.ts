@@ -0,0 +1,392 @@
+// src/lib/monitor.ts - Scheduled checks of every endpoint, with webhook alerts
+import type postgres from "postgres";
+import { isEndpointConfigured, PAGE_ENDPOINTS } from "./endpoints";
+import { measureFetch } from "./measure";
+import type { BenchmarkSample } from "./report";
+import { connectResultsDb, insertResultSession } from "./results";
+import { percentile } from "./stats";
+import { MAX_PLAN_RUNS, runBenchmarkPlan } from "./stream";
+
+/**
+ * Stored as the `version` of monitor samples, so history can tell them
+ * apart from page and CLI sessions
+ */
+export const MONITOR_VERSION = "monitor";
+
+export interface MonitorSettings {
+  webhookUrl: string | null; // No alerts are sent without one
+  p90Ms: number; // Client-time p90 above this is a breach
+  maxErrorRate: number; // Share of failed samples above this is a breach
+  consecutiveChecks: number; // Breaches in a row before an alert fires
+  samples: number; // Requests per endpoint per check
+}
+
+export const DEFAULT_MONITOR_SETTINGS: MonitorSettings = {
+  webhookUrl: null,
+  p90Ms: 1000,
+  maxErrorRate: 0.1,
+  consecutiveChecks: 3,
+  samples: 3,
+};
+
+/**
+ * Worker variables read by `parseMonitorSettings`, all optional
+ */
+export interface MonitorEnv {
+  MONITOR_WEBHOOK_URL?: string;
+  MONITOR_P90_MS?: string;
+  MONITOR_MAX_ERROR_RATE?: string;
+  MONITOR_CONSECUTIVE_CHECKS?: string;
+  MONITOR_SAMPLES?: string;
+}
+
+function parseNumber(
+  value: string | undefined,
+  fallback: number,
+  { min, max, integer }: { min: number; max: number; integer: boolean },
+  name: string
+): { value: number | null; error: string | null } {
+  if (value === undefined || value === "") {
+    return { value: fallback, error: null };
+  }
+  const parsed = Number(value);
+  if (
+    !(parsed >= min && parsed <= max) ||
+    (integer && !Number.isInteger(parsed))
+  ) {
+    return {
+      value: null,
+      error: `${name} must be a ${
+        integer ? "whole number" : "number"
+      } between ${min} and ${max}`,
+    };
+  }
+  return { value: parsed, error: null };
+}
+
+/**
+ * Read the monitor settings from the Worker's variables
+ * @returns The settings, or an error message naming the bad variable
+ */
+export function parseMonitorSettings(env: MonitorEnv): {
+  settings: MonitorSettings | null;
+  error: string | null;
+} {
+  const webhookUrl = env.MONITOR_WEBHOOK_URL || null;
+  if (webhookUrl !== null && !URL.canParse(webhookUrl)) {
+    return { settings: null, error: "MONITOR_WEBHOOK_URL must be a URL" };
+  }
+
+  const p90Ms = parseNumber(
+    env.MONITOR_P90_MS,
+    DEFAULT_MONITOR_SETTINGS.p90Ms,
+    { min: 1, max: 600_000, integer: false },
+    "MONITOR_P90_MS"
+  );
+  const maxErrorRate = parseNumber(
+    env.MONITOR_MAX_ERROR_RATE,
+    DEFAULT_MONITOR_SETTINGS.maxErrorRate,
+    { min: 0, max: 1, integer: false },
+    "MONITOR_MAX_ERROR_RATE"
+  );
+  const consecutiveChecks = parseNumber(
+    env.MONITOR_CONSECUTIVE_CHECKS,
+    DEFAULT_MONITOR_SETTINGS.consecutiveChecks,
+    { min: 1, max: 100, integer: true },
+    "MONITOR_CONSECUTIVE_CHECKS"
+  );
+  const samples = parseNumber(
+    env.MONITOR_SAMPLES,
+    DEFAULT_MONITOR_SETTINGS.samples,
+    { min: 1, max: MAX_PLAN_RUNS, integer: true },
+    "MONITOR_SAMPLES"
+  );
+  const error =
+    p90Ms.error ??
+    maxErrorRate.error ??
+    consecutiveChecks.error ??
+    samples.error;
+  if (error) return { settings: null, error };
+
+  return {
+    settings: {
+      webhookUrl,
+      p90Ms: p90Ms.value!,
+      maxErrorRate: maxErrorRate.value!,
+      consecutiveChecks: consecutiveChecks.value!,
+      samples: samples.value!,
+    },
+    error: null,
+  };
+}
+
+/**
+ * One endpoint's result in one check
+ */
+export interface EndpointCheck {
+  endpoint: string;
+  samples: number;
+  errors: number;
+  errorRate: number;
+  p90Ms: number | null; // Of the successful client times
+  breached: boolean;
+  reasons: string[]; // Why it breached, empty when it did not
+}
+
+/**
+ * Compare each endpoint's samples from one check with the thresholds
+ */
+export function evaluateCheck(
+  samples: BenchmarkSample[],
+  settings: MonitorSettings
+): EndpointCheck[] {
+  const endpoints = [...new Set(samples.map((sample) => sample.endpoint))];
+  return endpoints.map((endpoint) => {
+    const own = samples.filter((sample) => sample.endpoint === endpoint);
+    const errors = own.filter((sample) => sample.error !== null).length;
+    const times = own
+      .filter((sample) => sample.error === null && sample.clientTime !== null)
+      .map((sample) => sample.clientTime!)
+      .sort((a, b) => a - b);
+    const p90Ms = percentile(times, 90);
+    const errorRate = errors / own.length;
+
+    const reasons: string[] = [];
+    if (errorRate > settings.maxErrorRate) {
+      reasons.push(
+        `error rate ${Math.round(errorRate * 100)}% above ${Math.round(
+          settings.maxErrorRate * 100
+        )}%`
+      );
+    }
+    if (p90Ms !== null && p90Ms > settings.p90Ms) {
+      reasons.push(`p90 ${Math.round(p90Ms)} ms above ${settings.p90Ms} ms`);
+    }
+
+    return {
+      endpoint,
+      samples: own.length,
+      errors,
+      errorRate,
+      p90Ms,
+      breached: reasons.length > 0,
+      reasons,
+    };
+  });
+}
+
+export interface MonitorState {
+  endpoint: string;
+  consecutiveBreaches: number;
+  alerting: boolean; // A firing alert has not been resolved yet
+}
+
+export interface MonitorAlert {
+  status: "firing" | "resolved";
+  endpoint: string;
+  consecutiveBreaches: number;
+  errorRate: number;
+  p90Ms: number | null;
+  reasons: string[];
+}
+
+/**
+ * Advance one endpoint's state by a check. An alert fires once, on the
+ * `consecutiveChecks`-th breach in a row, and resolves on the first check
+ * after it that does not breach.
+ */
+export function nextMonitorState(
+  previous: MonitorState | undefined,
+  check: EndpointCheck,
+  settings: MonitorSettings
+): { state: MonitorState; alert: MonitorAlert | null } {
+  const consecutiveBreaches = check.breached
+    ? (previous?.consecutiveBreaches ?? 0) + 1
+    : 0;
+  const wasAlerting = previous?.alerting ?? false;
+  const alerting = wasAlerting
+    ? check.breached
+    : consecutiveBreaches >= settings.consecutiveChecks;
+
+  const alert: MonitorAlert | null =
+    alerting === wasAlerting
+      ? null
+      : {
+          status: alerting ? "firing" : "resolved",
+          endpoint: check.endpoint,
+          consecutiveBreaches,
+          errorRate: check.errorRate,
+          p90Ms: check.p90Ms,
+          reasons: check.reasons,
+        };
+
+  return {
+    state: { endpoint: check.endpoint, consecutiveBreaches, alerting },
+    alert,
+  };
+}
+
+/**
+ * Apply a check to the stored `monitor_state` rows. The alerts go to
+ * `deliver` before the rows are saved: when it fails, the alerting
+ * endpoints keep their previous `alerting`, so the next check sends the
+ * alerts again.
+ * @param deliver Sends the alerts, resolving to whether they arrived
+ * @returns The alerts that fired or resolved with this check
+ */
+export async function updateMonitorState(
+  sql: postgres.Sql,
+  checks: EndpointCheck[],
+  settings: MonitorSettings,
+  deliver: (alerts: MonitorAlert[]) => Promise<boolean> = async () => true
+): Promise<MonitorAlert[]> {
+  if (checks.length === 0) return [];
+  const rows = await sql<MonitorState[]>`
+    SELECT endpoint, consecutive_breaches AS "consecutiveBreaches", alerting
+    FROM monitor_state
+    WHERE endpoint IN ${sql(checks.map((check) => check.endpoint))}
+  `;
+  const previous = new Map(rows.map((row) => [row.endpoint, row]));
+
+  const alerts: MonitorAlert[] = [];
+  const states = checks.map((check) => {
+    const { state, alert } = nextMonitorState(
+      previous.get(check.endpoint),
+      check,
+      settings
+    );
+    if (alert) alerts.push(alert);
+    return state;
+  });
+
+  const delivered = alerts.length === 0 || (await deliver(alerts));
+  const saved = states.map((state) => ({
+    endpoint: state.endpoint,
+    consecutive_breaches: state.consecutiveBreaches,
+    alerting: delivered
+      ? state.alerting
+      : previous.get(state.endpoint)?.alerting ?? false,
+  }));
+
+  await sql`
+    INSERT INTO monitor_state ${sql(saved)}
+    ON CONFLICT (endpoint) DO UPDATE SET
+      consecutive_breaches = EXCLUDED.consecutive_breaches,
+      alerting = EXCLUDED.alerting,
+      checked_at = now()
+  `;
+  return alerts;
+}
+
+/**
+ * POST the alerts to the webhook as `{ text, alerts }`; `text` is a
+ * one-line summary per alert, which chat webhooks show as the message
+ */
+export async function sendAlerts(
+  webhookUrl: string,
+  alerts: MonitorAlert[],
+  fetchImpl: typeof fetch = fetch
+): Promise<void> {
+  const text = alerts
+    .map((alert) =>
+      alert.status === "firing"
+        ? `[FIRING] ${alert.endpoint}: ${alert.reasons.join(", ")} (${
+            alert.consecutiveBreaches
+          } checks in a row)`
+        : `[RESOLVED] ${alert.endpoint} is back within its thresholds`
+    )
+    .join("\n");
+
+  const response = await fetchImpl(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text, alerts }),
+  });
+  if (!response.ok) {
+    throw new Error(`Alert webhook returned HTTP ${response.status}`);
+  }
+}
+
+export interface MonitorOutcome {
+  sessionId: string;
+  checks: EndpointCheck[];
+  alerts: MonitorAlert[];
+}
+
+export interface MonitorCheckOptions {
+  platform: Pick<App.Platform, "env" | "ctx">;
+  fetch: typeof fetch; // Reaches the app's own routes
+  origin: string; // Endpoint URLs are resolved against it
+  webhookFetch?: typeof fetch; // Sends the alerts
+}
+
+/**
+ * Run one check: measure every endpoint through the app, store the
+ * samples as a session, update the alert state and send any alerts
+ */
+export async function runMonitorCheck({
+  platform,
+  fetch: appFetch,
+  origin,
+  webhookFetch = fetch,
+}: MonitorCheckOptions): Promise<MonitorOutcome> {
+  const { settings, error } = parseMonitorSettings(platform.env);
+  if (!settings) throw new Error(error!);
+
+  const samples = (await runBenchmarkPlan(
+    {
+      // Undeployed endpoints would only ever breach
+      endpoints: PAGE_ENDPOINTS.filter((endpoint) =>
+        isEndpointConfigured(endpoint.id, platform.env)
+      ),
+      runs: settings.samples,
+      warmupRuns: 0,
+      delayMs: 0,
+      params: {},
+      seed: Math.floor(Math.random() * 2 ** 32),
+    },
+    (endpoint) => measureFetch(endpoint.url, origin, appFetch),
+    { emit: () => {} }
+  ))!; // Only null when aborted
+
+  const sessionId = crypto.randomUUID();
+  const checks = evaluateCheck(samples, settings);
+  const { sql, close } = connectResultsDb(platform);
+  let alerts: MonitorAlert[];
+  try {
+    // A results store that cannot take the samples must not silence alerts
+    try {
+      await insertResultSession(
+        sql,
+        { sessionId, workload: "random", samples },
+        MONITOR_VERSION
+      );
+    } catch (e: any) {
+      console.error(`Monitor samples not stored: ${e?.message ?? e}`);
+    }
+    alerts = await updateMonitorState(sql, checks, settings, async (due) => {
+      if (!settings.webhookUrl) {
+        console.warn("Monitor alerts not sent: MONITOR_WEBHOOK_URL is not set");
+        return true;
+      }
+      try {
+        await sendAlerts(settings.webhookUrl, due, webhookFetch);
+        return true;
+      } catch (e: any) {
+        // Logged rather than thrown, so the scheduled handler still succeeds
+        console.error(
+          `Monitor alerts not sent, retrying next check: ${e?.message ?? e}`
+        );
+        return false;
+      }
+    });
+  } finally {
+    close();
+  }
+
+  const breached = checks.filter((check) => check.breached).length;
+  console.log(
+    `Monitor check ${sessionId}: ${checks.length} endpoints, ${breached} breached, ${alerts.length} alerts`
+  );
+  return { sessionId, checks, alerts };
+}
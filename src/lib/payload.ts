@@ -0,0 +1,74 @@
+// src/lib/payload.ts - Response size control and serialization measurement
+
+export const MAX_PADDING_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Size and timing details reported with every response, so DB time
+ * (`timeMs`) can be compared against the cost of producing the payload
+ */
+export interface PayloadStats {
+  rows: number;
+  bytes: number; // UTF-8 size of the serialized body, excluding this object
+  serializeTimeMs: number;
+  paddingBytes: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Read the optional `bytes` query parameter (target response size)
+ * @returns The target in bytes (null when absent), or an error message for a 400 response
+ */
+export function parsePaddingBytes(searchParams: URLSearchParams): {
+  bytes: number | null;
+  error: string | null;
+} {
+  const value = searchParams.get("bytes");
+  if (value === null || value === "") return { bytes: null, error: null };
+  if (!/^\d+$/.test(value)) {
+    return { bytes: null, error: "bytes must be a non-negative integer" };
+  }
+  const bytes = parseInt(value, 10);
+  if (bytes > MAX_PADDING_BYTES) {
+    return { bytes: null, error: `bytes must be at most ${MAX_PADDING_BYTES}` };
+  }
+  return { bytes, error: null };
+}
+
+/**
+ * Serialize a response body, padding it up to `targetBytes` with a
+ * `padding` string when requested, and append a `payload` object with the
+ * resulting size and how long serialization took.
+ * @param trailer Builds extra fields appended after `payload` (e.g. timings that depend on serialization)
+ */
+export function serializeWithPayloadStats(
+  body: Record<string, unknown>,
+  rows: number,
+  targetBytes: number | null,
+  trailer?: (stats: PayloadStats) => Record<string, unknown>
+): string {
+  const startTime = performance.now();
+  let text = JSON.stringify(body);
+  let paddingBytes = 0;
+
+  if (targetBytes !== null) {
+    // `,"padding":""` adds 13 bytes on top of the padding itself
+    const missing = targetBytes - encoder.encode(text).length - 13;
+    if (missing > 0) {
+      paddingBytes = missing;
+      text = JSON.stringify({ ...body, padding: "x".repeat(missing) });
+    }
+  }
+
+  const stats: PayloadStats = {
+    rows,
+    bytes: encoder.encode(text).length,
+    serializeTimeMs: performance.now() - startTime,
+    paddingBytes,
+  };
+
+  const extra = trailer ? JSON.stringify(trailer(stats)).slice(1, -1) : "";
+  return `${text.slice(0, -1)},"payload":${JSON.stringify(stats)}${
+    extra ? `,${extra}` : ""
+  }}`;
+}
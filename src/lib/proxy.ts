@@ -0,0 +1,219 @@
+// src/lib/proxy.ts - Timeouts, retries and circuit breaking for the Worker's Bun REST proxy
+
+export interface ProxyPolicy {
+  timeoutMs: number; // Per attempt, including reading the body
+  retries: number; // Attempts after the first one
+}
+
+export const DEFAULT_PROXY_POLICY: ProxyPolicy = {
+  timeoutMs: 5000,
+  retries: 2,
+};
+
+// Caps on the public `?timeoutMs=` and `?retries=`, so one request costs at
+// most 3 attempts of 10 s upstream
+export const MAX_PROXY_TIMEOUT_MS = 10_000;
+export const MAX_PROXY_RETRIES = 2;
+
+// The first retry waits up to this long, doubling with each further one
+const RETRY_BASE_MS = 100;
+
+// Worth another attempt: the Bun server or the network in front of it failed
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * Read `timeoutMs` and `retries` from a request's query string, falling
+ * back to the endpoint's policy
+ * @returns The policy, or an error message for a 400 response
+ */
+export function parseProxyPolicy(
+  searchParams: URLSearchParams,
+  defaults: ProxyPolicy = DEFAULT_PROXY_POLICY
+): { policy: ProxyPolicy | null; error: string | null } {
+  const timeoutMs = searchParams.get("timeoutMs");
+  if (
+    timeoutMs !== null &&
+    (!/^\d+$/.test(timeoutMs) ||
+      parseInt(timeoutMs, 10) < 1 ||
+      parseInt(timeoutMs, 10) > MAX_PROXY_TIMEOUT_MS)
+  ) {
+    return {
+      policy: null,
+      error: `timeoutMs must be between 1 and ${MAX_PROXY_TIMEOUT_MS}`,
+    };
+  }
+
+  const retries = searchParams.get("retries");
+  if (
+    retries !== null &&
+    (!/^\d+$/.test(retries) || parseInt(retries, 10) > MAX_PROXY_RETRIES)
+  ) {
+    return {
+      policy: null,
+      error: `retries must be between 0 and ${MAX_PROXY_RETRIES}`,
+    };
+  }
+
+  return {
+    policy: {
+      timeoutMs:
+        timeoutMs !== null ? parseInt(timeoutMs, 10) : defaults.timeoutMs,
+      retries: retries !== null ? parseInt(retries, 10) : defaults.retries,
+    },
+    error: null,
+  };
+}
+
+export interface RetryOptions {
+  random?: () => number; // For the jitter
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Fetch `url` under `policy`: each attempt is cut off after `timeoutMs`,
+ * and network errors, timeouts and 502/503/504 responses are retried after
+ * a random wait of up to 100 ms, 200 ms, 400 ms, ... The body is read
+ * within the attempt, so the response returned is already complete.
+ * @returns The last response, or why the last attempt failed, and how many
+ * attempts were made
+ */
+export async function fetchWithRetries(
+  fetchImpl: typeof fetch,
+  url: string,
+  init: RequestInit,
+  policy: ProxyPolicy,
+  {
+    random = Math.random,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  }: RetryOptions = {}
+): Promise<{
+  response: Response | null;
+  error: string | null;
+  attempts: number;
+}> {
+  let attempts = 0;
+  while (true) {
+    attempts++;
+    const isLastAttempt = attempts > policy.retries;
+    const signal = AbortSignal.timeout(policy.timeoutMs);
+    try {
+      const upstream = await fetchImpl(url, { ...init, signal });
+      const body = await upstream.arrayBuffer();
+      const response = new Response(body, {
+        status: upstream.status,
+        statusText: upstream.statusText,
+        headers: upstream.headers,
+      });
+      if (isLastAttempt || !RETRYABLE_STATUSES.has(response.status)) {
+        return { response, error: null, attempts };
+      }
+    } catch (e: any) {
+      if (isLastAttempt) {
+        const error = signal.aborted
+          ? `Timed out after ${policy.timeoutMs} ms`
+          : e?.message || "Unknown error";
+        return {
+          response: null,
+          error: attempts > 1 ? `${error} (after ${attempts} attempts)` : error,
+          attempts,
+        };
+      }
+    }
+    await sleep(random() * RETRY_BASE_MS * 2 ** (attempts - 1));
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  failures: number; // In a row
+  retryInMs: number | null; // Until an open circuit lets a trial through
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Failures in a row that open the circuit
+  cooldownMs: number; // How long it stays open before a trial request
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+export interface CircuitBreaker {
+  /**
+   * Whether a request may go upstream now. Once the cooldown is over, one
+   * trial request at a time is let through; it must be `record`ed or
+   * `release`d.
+   */
+  allow(now?: number): boolean;
+  record(ok: boolean, now?: number): void;
+  /** End a request whose outcome says nothing about the upstream */
+  release(): void;
+  snapshot(now?: number): CircuitSnapshot;
+}
+
+/**
+ * Fails requests to an upstream that keeps failing instead of waiting on
+ * it: open after `failureThreshold` failures in a row, half-open after
+ * `cooldownMs`, and closed again by a successful trial
+ */
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER
+): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  function state(now: number): CircuitState {
+    if (openedAt === null) return "closed";
+    return now - openedAt >= options.cooldownMs ? "half-open" : "open";
+  }
+
+  return {
+    allow(now = Date.now()) {
+      const current = state(now);
+      if (current === "closed") return true;
+      if (current === "open" || trialInFlight) return false;
+      trialInFlight = true;
+      return true;
+    },
+
+    record(ok, now = Date.now()) {
+      trialInFlight = false;
+      if (ok) {
+        failures = 0;
+        openedAt = null;
+        return;
+      }
+      failures++;
+      if (openedAt !== null || failures >= options.failureThreshold) {
+        openedAt = now;
+      }
+    },
+
+    release() {
+      trialInFlight = false;
+    },
+
+    snapshot(now = Date.now()) {
+      const current = state(now);
+      return {
+        state: current,
+        failures,
+        retryInMs:
+          current === "open" ? openedAt! + options.cooldownMs - now : null,
+      };
+    },
+  };
+}
+
+/**
+ * How the proxy fared, reported in `/api/[endpoint]` responses
+ */
+export interface ProxyReport {
+  attempts: number; // 0 when the open circuit refused the request
+  timeoutMs: number;
+  circuit: CircuitSnapshot;
+}
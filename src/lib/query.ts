@@ -0,0 +1,52 @@
+// src/lib/query.ts - Runs one benchmark query for an endpoint
+import type { ExecutionContext } from "@cloudflare/workers-types";
+import { BACKENDS } from "./backends";
+import type { CacheLayer } from "./cachecheck";
+import type { ConnMode, ConnStrategy } from "./connmodes";
+import type { EndpointConfig } from "./endpoints";
+import type { ProxyPolicy, ProxyReport } from "./proxy";
+import type { TimingPhases } from "./timings";
+import type { Span } from "./tracing";
+import type { WorkloadRequest, WorkloadRow } from "./workloads";
+
+// Interface for environment bindings (removed Cache API)
+interface EnvBindings {
+  [key: string]: any;
+}
+
+export interface QueryOptions {
+  config: EndpointConfig;
+  env: EnvBindings;
+  ctx?: ExecutionContext;
+  fetch: typeof fetch;
+  dynamicEndpoint: string; // The full route parameter, including any suffix
+  dynamicSuffix?: string; // Cache-busting suffix such as `-1715000000000-42`
+  cacheTtl: number;
+  forwardedFor: string; // The client's IP, from Cloudflare
+  workload: WorkloadRequest;
+  paddingBytes?: number | null; // Forwarded to the Bun REST API as `bytes`
+  connStrategy?: ConnStrategy; // Worker-connecting backends only; defaults to one query
+  proxyPolicy?: ProxyPolicy; // Bun REST proxy only; defaults to the endpoint's
+  fault?: string | null; // Forwarded to the Bun REST API as `fault`
+  span?: Span; // The request's span, parent of the query's spans
+}
+
+export interface QueryOutcome {
+  results: WorkloadRow[] | null;
+  errorMsg: string | null;
+  serverTimeMs: number;
+  binding: string;
+  connMode: ConnMode | null; // null when the Bun REST API did the connecting
+  phases: TimingPhases; // Finalized by the caller once the body is serialized
+  upstream: CacheLayer | null; // The Bun REST API response's cache details
+  proxy: ProxyReport | null; // Attempts and circuit state of the Bun REST proxy
+}
+
+/**
+ * Execute a workload's query for an endpoint through its access type's
+ * backend, e.g. its Hyperdrive binding or the regional Bun REST API.
+ * Query failures are reported in `errorMsg`; configuration problems throw.
+ */
+export function runEndpointQuery(options: QueryOptions): Promise<QueryOutcome> {
+  return BACKENDS[options.config.type].query(options);
+}
@@ -0,0 +1,114 @@
+// src/lib/ratelimit.ts - Token-bucket rate limiting, keyed by client IP or API key
+
+export interface RateLimit {
+  burst: number; // Bucket size: requests allowed at once
+  perSecond: number; // Tokens added back every second
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number; // Whole tokens left after this request
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  /** Take `cost` tokens (default 1) from `key`'s bucket, or none if short */
+  take(key: string, now?: number, cost?: number): RateLimitDecision;
+}
+
+// Buckets kept before the least recently used are dropped
+const DEFAULT_MAX_KEYS = 10_000;
+
+/**
+ * In-memory token buckets, one per key. They only see the requests of this
+ * process (or Worker isolate), so the limit applies per instance.
+ */
+export function createRateLimiter(
+  limit: RateLimit,
+  maxKeys: number = DEFAULT_MAX_KEYS
+): RateLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    take(key, now = Date.now(), cost = 1) {
+      const bucket = buckets.get(key) ?? {
+        tokens: limit.burst,
+        updatedAt: now,
+      };
+      bucket.tokens = Math.min(
+        limit.burst,
+        bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond
+      );
+      bucket.updatedAt = now;
+
+      // Re-inserted so the map stays in least recently used order
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+
+      if (bucket.tokens < cost) {
+        return {
+          allowed: false,
+          remaining: Math.floor(bucket.tokens),
+          retryAfterSeconds: Math.ceil(
+            (cost - bucket.tokens) / limit.perSecond
+          ),
+        };
+      }
+      bucket.tokens -= cost;
+      return {
+        allowed: true,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterSeconds: 0,
+      };
+    },
+  };
+}
+
+/**
+ * `RateLimit-*` headers describing a decision, plus `Retry-After` when the
+ * request was refused
+ */
+export function rateLimitHeaders(
+  limit: RateLimit,
+  decision: RateLimitDecision
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": limit.burst.toString(),
+    "RateLimit-Remaining": decision.remaining.toString(),
+  };
+  if (!decision.allowed) {
+    headers["Retry-After"] = decision.retryAfterSeconds.toString();
+  }
+  return headers;
+}
+
+/**
+ * Read a limit from its two settings. A burst of 0 turns limiting off.
+ * @returns The limit (null when off), or an error message
+ */
+export function parseRateLimit(
+  burst: string | undefined,
+  perSecond: string | undefined,
+  defaults: RateLimit
+): { limit: RateLimit | null; error: string | null } {
+  const parsedBurst = burst === undefined ? defaults.burst : Number(burst);
+  if (!Number.isInteger(parsedBurst) || parsedBurst < 0) {
+    return { limit: null, error: "RATE_LIMIT_BURST must be a whole number" };
+  }
+  const parsedPerSecond =
+    perSecond === undefined ? defaults.perSecond : Number(perSecond);
+  if (!(parsedPerSecond > 0) || !isFinite(parsedPerSecond)) {
+    return {
+      limit: null,
+      error: "RATE_LIMIT_PER_SECOND must be a positive number",
+    };
+  }
+  if (parsedBurst === 0) return { limit: null, error: null };
+  return {
+    limit: { burst: parsedBurst, perSecond: parsedPerSecond },
+    error: null,
+  };
+}
@@ -0,0 +1,292 @@
+// src/lib/report.ts - Benchmark reports as JSON, CSV and Markdown, and latency budgets
+import {
+  endpointCacheReport,
+  type CacheObservation,
+  type CacheSummary,
+  type EndpointCacheReport,
+} from "./cachecheck";
+import { CDN_CACHE_TTL_SECONDS, type PageEndpoint } from "./endpoints";
+import type { BenchmarkResult } from "./measure";
+import { summarize, type TimingSummary } from "./stats";
+
+export interface BenchmarkSample {
+  endpoint: string;
+  runId: number; // From 1
+  warmup: boolean; // Left out of the summaries
+  clientTime: number | null;
+  serverTime: number | null;
+  binding: string | null;
+  colo: string | null;
+  error: string | null;
+  cache: CacheObservation | null;
+}
+
+export interface EndpointReport {
+  id: string;
+  label: string;
+  region: PageEndpoint["region"];
+  type: PageEndpoint["type"];
+  cached: boolean;
+  errors: number; // Failed samples after the warm-ups
+  client: TimingSummary;
+  server: TimingSummary;
+}
+
+export interface BenchmarkReport {
+  origin: string;
+  startedAt: string;
+  params: Record<string, string>; // Query parameters added to every URL
+  runs: number;
+  warmupRuns: number;
+  endpoints: EndpointReport[];
+  cache: EndpointCacheReport[]; // CDN-cached endpoints only
+  samples: BenchmarkSample[];
+}
+
+/**
+ * Summarize each endpoint over its non-warm-up samples, the way the page's
+ * results table does: failed samples are counted, not timed.
+ */
+export function summarizeEndpoints(
+  endpoints: PageEndpoint[],
+  samples: BenchmarkSample[]
+): EndpointReport[] {
+  return endpoints.map((endpoint) => {
+    const measured = samples.filter(
+      (sample) => sample.endpoint === endpoint.id && !sample.warmup
+    );
+    const succeeded = measured.filter((sample) => sample.error === null);
+    return {
+      id: endpoint.id,
+      label: endpoint.label,
+      region: endpoint.region,
+      type: endpoint.type,
+      cached: endpoint.cached,
+      errors: measured.length - succeeded.length,
+      client: summarize(
+        succeeded
+          .map((sample) => sample.clientTime)
+          .filter((time): time is number => time !== null)
+      ),
+      server: summarize(
+        succeeded
+          .map((sample) => sample.serverTime)
+          .filter((time): time is number => time !== null)
+      ),
+    };
+  });
+}
+
+/**
+ * Hit ratios and staleness of each CDN-cached endpoint. Every successful
+ * sample is classified, in run order, but warm-ups are not counted.
+ */
+export function summarizeCaching(
+  endpoints: PageEndpoint[],
+  samples: BenchmarkSample[]
+): EndpointCacheReport[] {
+  return endpoints
+    .filter((endpoint) => endpoint.cached)
+    .map((endpoint) =>
+      endpointCacheReport(
+        endpoint.id,
+        CDN_CACHE_TTL_SECONDS,
+        samples
+          .filter(
+            (sample) =>
+              sample.endpoint === endpoint.id &&
+              sample.error === null &&
+              sample.cache !== null
+          )
+          .sort((a, b) => a.runId - b.runId)
+          .map((sample) => ({ cache: sample.cache!, measured: !sample.warmup }))
+      )
+    );
+}
+
+export function toSample(
+  endpoint: string,
+  runId: number,
+  warmup: boolean,
+  result: BenchmarkResult
+): BenchmarkSample {
+  return {
+    endpoint,
+    runId,
+    warmup,
+    clientTime: result.clientTime,
+    serverTime: result.serverTime,
+    binding: result.binding,
+    colo: result.colo ?? null,
+    error: result.error,
+    cache: result.cache ?? null,
+  };
+}
+
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Every sample as one CSV row, warm-ups included and flagged
+ */
+export function reportToCsv(report: BenchmarkReport): string {
+  const header = [
+    "endpoint",
+    "run",
+    "warmup",
+    "client_ms",
+    "server_ms",
+    "binding",
+    "colo",
+    "error",
+    "cf_cache_status",
+    "age_s",
+    "generation_id",
+  ];
+  const rows = report.samples.map((sample) =>
+    [
+      sample.endpoint,
+      sample.runId,
+      sample.warmup,
+      sample.clientTime,
+      sample.serverTime,
+      sample.binding,
+      sample.colo,
+      sample.error,
+      sample.cache?.cacheStatus ?? null,
+      sample.cache?.ageSeconds ?? null,
+      sample.cache?.generation?.id ?? null,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return `${[header.join(","), ...rows].join("\n")}\n`;
+}
+
+function formatMs(timeMs: number | null): string {
+  return timeMs === null ? "-" : timeMs.toFixed(1);
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? "-" : `${(ratio * 100).toFixed(0)}%`;
+}
+
+function cacheRow(label: string, summary: CacheSummary): string {
+  return `| ${label} | ${formatRatio(summary.hitRatio)} | ${summary.hits} | ${
+    summary.misses
+  } | ${summary.revalidated} | ${summary.generations} | ${formatMs(
+    summary.staleness.p50
+  )} | ${formatMs(summary.staleness.max)} | ${summary.overTtl} |`;
+}
+
+/**
+ * Summary tables with one row per endpoint, timings in ms, then the
+ * caching of CDN-cached endpoints
+ */
+export function reportToMarkdown(report: BenchmarkReport): string {
+  const params = new URLSearchParams(report.params).toString();
+  const lines = [
+    `Benchmark of ${report.origin} at ${report.startedAt}: ${
+      report.runs - report.warmupRuns
+    } measured runs after ${report.warmupRuns} warm-up${
+      report.warmupRuns === 1 ? "" : "s"
+    }${params ? `, with \`${params}\`` : ""}.`,
+    "",
+    "| Endpoint | Client p50 | Client p90 | Client p99 | Server p50 | Server p90 | Errors |",
+    "| --- | ---: | ---: | ---: | ---: | ---: | ---: |",
+  ];
+  for (const endpoint of report.endpoints) {
+    lines.push(
+      `| ${endpoint.label} | ${[
+        endpoint.client.p50,
+        endpoint.client.p90,
+        endpoint.client.p99,
+        endpoint.server.p50,
+        endpoint.server.p90,
+      ]
+        .map(formatMs)
+        .join(" | ")} | ${endpoint.errors} |`
+    );
+  }
+
+  if (report.cache.length > 0) {
+    lines.push(
+      "",
+      "| Cached endpoint | Hit ratio | Hits | Misses | Revalidated | Generations | Staleness p50 | Staleness max | Over TTL |",
+      "| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |"
+    );
+    for (const cache of report.cache) {
+      const label =
+        report.endpoints.find((endpoint) => endpoint.id === cache.endpoint)
+          ?.label ?? cache.endpoint;
+      lines.push(cacheRow(label, cache.edge));
+      if (cache.upstream) {
+        lines.push(cacheRow(`${label} (Bun upstream)`, cache.upstream));
+      }
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Upper limit for one statistic of every endpoint, e.g. `client.p90=300`
+ */
+export interface LatencyBudget {
+  metric: "client" | "server";
+  percentile: "p50" | "p90" | "p99";
+  maxMs: number;
+}
+
+const BUDGET_PATTERN = /^(?:(client|server)\.)?(p50|p90|p99)=(\d+(?:\.\d+)?)$/;
+
+/**
+ * Parse `[client.|server.]p50|p90|p99=MS`; the metric defaults to client
+ */
+export function parseLatencyBudget(spec: string): {
+  value: LatencyBudget | null;
+  error: string | null;
+} {
+  const match = spec.trim().match(BUDGET_PATTERN);
+  if (!match) {
+    return {
+      value: null,
+      error: `Invalid budget "${spec}": expected e.g. p50=200 or server.p90=50`,
+    };
+  }
+  return {
+    value: {
+      metric: (match[1] as LatencyBudget["metric"]) ?? "client",
+      percentile: match[2] as LatencyBudget["percentile"],
+      maxMs: Number(match[3]),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Describe every endpoint over budget. An endpoint with no successful
+ * sample breaks every budget, since nothing shows it is within them.
+ */
+export function budgetViolations(
+  report: BenchmarkReport,
+  budgets: LatencyBudget[]
+): string[] {
+  const violations: string[] = [];
+  for (const endpoint of report.endpoints) {
+    for (const { metric, percentile, maxMs } of budgets) {
+      const value = endpoint[metric][percentile];
+      const name = `${metric}.${percentile}`;
+      if (value === null) {
+        violations.push(`${endpoint.id}: no successful samples for ${name}`);
+      } else if (value > maxMs) {
+        violations.push(
+          `${endpoint.id}: ${name} ${value.toFixed(1)} ms > ${maxMs} ms`
+        );
+      }
+    }
+  }
+  return violations;
+}
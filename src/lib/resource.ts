@@ -0,0 +1,70 @@
+// src/lib/resource.ts - Serves the cities resource through a benchmark endpoint
+import { error as svelteError } from "@sveltejs/kit";
+import type { ExecutionContext } from "@cloudflare/workers-types";
+import { API_KEY_HEADER, timingSafeEqual } from "./auth";
+import { BACKENDS } from "./backends";
+import { ENDPOINT_CONFIG } from "./endpoints";
+import type { Span } from "./tracing";
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export interface ResourceOptions {
+  endpoint: string; // The `[endpoint]` route parameter, without suffixes
+  id: string | null; // The `[id]` route parameter, null for the collection
+  request: Request;
+  env: Record<string, any> | undefined;
+  ctx?: ExecutionContext;
+  fetch: typeof fetch;
+  span?: Span; // The request's span, for the logs
+}
+
+/**
+ * Serve `/api/[endpoint]/cities[/id]` with the same contract as the Bun
+ * server's `/cities`, through the endpoint's backend: e.g. Hyperdrive
+ * endpoints run the query through their binding, Bun REST endpoints
+ * forward the request to their region.
+ */
+export async function serveCitiesResource({
+  endpoint,
+  id,
+  request,
+  env,
+  ctx,
+  fetch,
+  span,
+}: ResourceOptions): Promise<Response> {
+  if (!Object.hasOwn(ENDPOINT_CONFIG, endpoint)) {
+    throw svelteError(404, `Unknown endpoint: ${endpoint}`);
+  }
+  const config = ENDPOINT_CONFIG[endpoint];
+
+  if (!env) {
+    throw svelteError(500, "Server environment not available");
+  }
+
+  // The Bun servers trust whatever the Worker signs, so writes are checked
+  // here: they need one of CITIES_WRITE_KEYS, and are off without any
+  if (!READ_METHODS.includes(request.method)) {
+    const keys = String(env.CITIES_WRITE_KEYS ?? "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter((key) => key !== "");
+    if (keys.length === 0) {
+      throw svelteError(403, "Writes to cities are off on this Worker");
+    }
+    const apiKey = request.headers.get(API_KEY_HEADER);
+    if (apiKey === null || !keys.some((key) => timingSafeEqual(apiKey, key))) {
+      throw svelteError(401, `Writes need a valid ${API_KEY_HEADER}`);
+    }
+  }
+
+  return BACKENDS[config.type].serveCities(config, {
+    endpoint,
+    id,
+    request,
+    env,
+    ctx,
+    fetch,
+    span,
+  });
+}
@@ -0,0 +1,309 @@
+// src/lib/results.ts - Validation and queries for stored benchmark results
+import { error as svelteError } from "@sveltejs/kit";
+import type postgres from "postgres";
+import { getDbConnection } from "./db";
+import {
+  ACCESS_TYPES,
+  ENDPOINT_CONFIG,
+  REGIONS,
+  type AccessType,
+  type HyperdriveBindingKey,
+  type Region,
+} from "./endpoints";
+import { WORKLOAD_NAMES, type WorkloadName } from "./workloads";
+
+/**
+ * Results are written through the non-cached Helsinki binding, so reading
+ * history back never returns a stale Hyperdrive query-cache entry
+ */
+export const RESULTS_BINDING_KEY: HyperdriveBindingKey = "NO-CACHED-DB-BUNVHD";
+
+/**
+ * Open a connection to the results database, closed through
+ * `ctx.waitUntil` once the response has been sent
+ */
+export function connectResultsDb(
+  platform: Pick<App.Platform, "env" | "ctx"> | undefined
+) {
+  const binding = platform?.env?.[RESULTS_BINDING_KEY];
+  if (!binding) {
+    throw svelteError(
+      500,
+      `Configuration Error: ${RESULTS_BINDING_KEY} binding not found.`
+    );
+  }
+
+  const sql = getDbConnection(binding, false, "results");
+  const close = () => {
+    const closePromise = sql
+      .end({ timeout: 5 })
+      .catch((err) =>
+        console.error("Error closing results SQL connection:", err)
+      );
+    platform?.ctx?.waitUntil(closePromise);
+  };
+  return { sql, close };
+}
+
+export const MAX_SAMPLES_PER_SESSION = 5000;
+// Rows per INSERT: at 14 columns each, well under Postgres's limit of
+// 65,535 parameters per statement
+const INSERT_BATCH_ROWS = 1000;
+const DEFAULT_QUERY_LIMIT = 500;
+const MAX_QUERY_LIMIT = 5000;
+
+/**
+ * One sample as posted by the page (a `BenchmarkResult` plus its context)
+ */
+export interface ResultSample {
+  endpoint: string;
+  runId: number;
+  warmup: boolean; // Left out of baseline comparisons
+  clientTime: number | null;
+  serverTime: number | null;
+  binding: string | null;
+  error: string | null;
+  colo: string | null;
+}
+
+export interface ResultSession {
+  sessionId: string;
+  workload: WorkloadName;
+  samples: ResultSample[];
+}
+
+export type StoredResult = {
+  sample_id: string; // BIGSERIAL, which postgres.js returns as a string
+  session_id: string;
+  run_id: number;
+  warmup: boolean;
+  endpoint: string;
+  region: Region;
+  access_type: AccessType;
+  cached: boolean;
+  workload: WorkloadName;
+  colo: string | null;
+  binding: string | null;
+  client_time_ms: number | null;
+  server_time_ms: number | null;
+  error: string | null;
+  version: string;
+  recorded_at: Date;
+};
+
+export interface ResultsFilter {
+  from: Date | null;
+  to: Date | null;
+  region: Region | null;
+  type: AccessType | null;
+  colo: string | null;
+  endpoint: string | null;
+  sessionId: string | null;
+  limit: number;
+}
+
+export const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isTiming(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && isFinite(value));
+}
+
+function isOptionalString(value: unknown): value is string | null {
+  return value === null || value === undefined || typeof value === "string";
+}
+
+/**
+ * Validate a `POST /api/results` body
+ * @returns The session (with a generated id when none was given), or an error message for a 400 response
+ */
+export function parseResultSession(body: any): {
+  session: ResultSession | null;
+  error: string | null;
+} {
+  if (typeof body !== "object" || body === null) {
+    return { session: null, error: "Body must be a JSON object" };
+  }
+
+  const sessionId = body.sessionId ?? crypto.randomUUID();
+  if (typeof sessionId !== "string" || !UUID_PATTERN.test(sessionId)) {
+    return { session: null, error: "sessionId must be a UUID" };
+  }
+
+  const workload = body.workload ?? "random";
+  if (!(WORKLOAD_NAMES as readonly string[]).includes(workload)) {
+    return { session: null, error: `Unknown workload: ${workload}` };
+  }
+
+  if (!Array.isArray(body.samples) || body.samples.length === 0) {
+    return { session: null, error: "samples must be a non-empty array" };
+  }
+  if (body.samples.length > MAX_SAMPLES_PER_SESSION) {
+    return {
+      session: null,
+      error: `At most ${MAX_SAMPLES_PER_SESSION} samples per request`,
+    };
+  }
+
+  const samples: ResultSample[] = [];
+  for (const [index, sample] of body.samples.entries()) {
+    if (
+      typeof sample !== "object" ||
+      sample === null ||
+      typeof sample.endpoint !== "string" ||
+      !Object.hasOwn(ENDPOINT_CONFIG, sample.endpoint) ||
+      !Number.isInteger(sample.runId) ||
+      !["boolean", "undefined"].includes(typeof sample.warmup) ||
+      !isTiming(sample.clientTime ?? null) ||
+      !isTiming(sample.serverTime ?? null) ||
+      !isOptionalString(sample.binding) ||
+      !isOptionalString(sample.error) ||
+      !isOptionalString(sample.colo)
+    ) {
+      return { session: null, error: `samples[${index}] is invalid` };
+    }
+    samples.push({
+      endpoint: sample.endpoint,
+      runId: sample.runId,
+      warmup: sample.warmup ?? false,
+      clientTime: sample.clientTime ?? null,
+      serverTime: sample.serverTime ?? null,
+      binding: sample.binding ?? null,
+      error: sample.error ?? null,
+      colo: sample.colo || null,
+    });
+  }
+
+  return { session: { sessionId, workload, samples }, error: null };
+}
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Read the `GET /api/results` filters from the query string
+ * @returns The filter, or an error message for a 400 response
+ */
+export function parseResultsFilter(searchParams: URLSearchParams): {
+  filter: ResultsFilter | null;
+  error: string | null;
+} {
+  const from = parseDate(searchParams.get("from"));
+  const to = parseDate(searchParams.get("to"));
+  if (from === undefined || to === undefined) {
+    return { filter: null, error: "from and to must be ISO dates" };
+  }
+
+  const region = searchParams.get("region");
+  if (region && !Object.hasOwn(REGIONS, region)) {
+    return { filter: null, error: `Unknown region: ${region}` };
+  }
+
+  const type = searchParams.get("type");
+  if (type && !(ACCESS_TYPES as readonly string[]).includes(type)) {
+    return { filter: null, error: `Unknown access type: ${type}` };
+  }
+
+  const sessionId = searchParams.get("sessionId");
+  if (sessionId && !UUID_PATTERN.test(sessionId)) {
+    return { filter: null, error: "sessionId must be a UUID" };
+  }
+
+  const limitParam = searchParams.get("limit");
+  let limit = DEFAULT_QUERY_LIMIT;
+  if (limitParam) {
+    if (!/^\d+$/.test(limitParam) || parseInt(limitParam, 10) < 1) {
+      return { filter: null, error: "limit must be a positive integer" };
+    }
+    limit = Math.min(parseInt(limitParam, 10), MAX_QUERY_LIMIT);
+  }
+
+  return {
+    filter: {
+      from,
+      to,
+      region: (region as Region) || null,
+      type: (type as AccessType) || null,
+      colo: searchParams.get("colo") || null,
+      endpoint: searchParams.get("endpoint") || null,
+      sessionId: sessionId || null,
+      limit,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Store every sample of a session, tagged with the app version, in batches
+ * within one transaction, so a session is stored whole or not at all
+ * @returns Number of rows inserted
+ */
+export async function insertResultSession(
+  sql: postgres.Sql,
+  session: ResultSession,
+  version: string
+): Promise<number> {
+  const rows = session.samples.map((sample) => {
+    const config = ENDPOINT_CONFIG[sample.endpoint];
+    return {
+      session_id: session.sessionId,
+      run_id: sample.runId,
+      warmup: sample.warmup,
+      endpoint: sample.endpoint,
+      region: config.region,
+      access_type: config.type,
+      cached: config.cached,
+      workload: session.workload,
+      colo: sample.colo,
+      binding: sample.binding,
+      client_time_ms: sample.clientTime,
+      server_time_ms: sample.serverTime,
+      error: sample.error,
+      version,
+    };
+  });
+
+  return sql.begin(async (tx) => {
+    let count = 0;
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_ROWS) {
+      const batch = rows.slice(start, start + INSERT_BATCH_ROWS);
+      const inserted = await tx`INSERT INTO benchmark_runs ${tx(batch)}`;
+      count += inserted.count;
+    }
+    return count;
+  });
+}
+
+/**
+ * Stored samples matching the filter, newest first
+ */
+export async function queryResults(
+  sql: postgres.Sql,
+  filter: ResultsFilter
+): Promise<StoredResult[]> {
+  const conditions = [
+    filter.from && sql`recorded_at >= ${filter.from}`,
+    filter.to && sql`recorded_at <= ${filter.to}`,
+    filter.region && sql`region = ${filter.region}`,
+    filter.type && sql`access_type = ${filter.type}`,
+    filter.colo && sql`colo = ${filter.colo}`,
+    filter.endpoint && sql`endpoint = ${filter.endpoint}`,
+    filter.sessionId && sql`session_id = ${filter.sessionId}`,
+  ].filter((condition) => !!condition);
+
+  const where = conditions.reduce(
+    (clause, condition, index) =>
+      index === 0 ? sql`WHERE ${condition}` : sql`${clause} AND ${condition}`,
+    sql``
+  );
+
+  return sql<StoredResult[]>`
+    SELECT * FROM benchmark_runs
+    ${where}
+    ORDER BY recorded_at DESC, sample_id DESC
+    LIMIT ${filter.limit}
+  `;
+}
@@ -0,0 +1,160 @@
+// src/lib/stats.ts - Summary statistics for benchmark timings
+
+export interface TimingSummary {
+  count: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  trimmedMean: number | null; // Mean of the middle 80%
+  stddev: number | null;
+  p50: number | null; // The median
+  p90: number | null;
+  p99: number | null;
+  ci95: [number, number] | null; // Bootstrap 95% interval for the median
+}
+
+export interface Comparison {
+  medianDiff: number; // Median of `b` minus median of `a`
+  pValue: number;
+  significant: boolean;
+  winner: "a" | "b" | null; // Only set when the difference is significant
+}
+
+const TRIM_PROPORTION = 0.1;
+const BOOTSTRAP_RESAMPLES = 1000;
+const PERMUTATIONS = 2000;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Percentile of an ascending-sorted list using linear interpolation
+ * @param sorted Values sorted from smallest to largest
+ * @param p Percentile between 0 and 100
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number | null {
+  return percentile([...values].sort((a, b) => a - b), 50);
+}
+
+/**
+ * Mean after dropping `proportion` of the values from each end, so a
+ * single slow request cannot drag the result
+ */
+export function trimmedMean(
+  values: number[],
+  proportion: number = TRIM_PROPORTION
+): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const cut = Math.floor(sorted.length * proportion);
+  const kept = sorted.slice(cut, sorted.length - cut);
+  return kept.reduce((sum, v) => sum + v, 0) / kept.length;
+}
+
+/**
+ * Percentile bootstrap confidence interval for the median
+ * @param random Source of randomness in [0, 1), injectable for reproducibility
+ */
+export function bootstrapMedianCI(
+  values: number[],
+  confidence: number = 0.95,
+  random: () => number = Math.random
+): [number, number] | null {
+  if (values.length < 2) return null;
+  const medians: number[] = [];
+  const resample = new Array<number>(values.length);
+  for (let i = 0; i < BOOTSTRAP_RESAMPLES; i++) {
+    for (let j = 0; j < values.length; j++) {
+      resample[j] = values[Math.floor(random() * values.length)];
+    }
+    medians.push(median(resample)!);
+  }
+  medians.sort((a, b) => a - b);
+  const tail = ((1 - confidence) / 2) * 100;
+  return [percentile(medians, tail)!, percentile(medians, 100 - tail)!];
+}
+
+/**
+ * Two-sided permutation test on the difference in medians. Works for the
+ * small sample counts a browser benchmark produces, where it simply
+ * reports that nothing is significant.
+ */
+export function compareSamples(
+  a: number[],
+  b: number[],
+  alpha: number = SIGNIFICANCE_LEVEL,
+  random: () => number = Math.random
+): Comparison | null {
+  if (a.length === 0 || b.length === 0) return null;
+
+  const observed = median(b)! - median(a)!;
+  const pooled = [...a, ...b];
+  let atLeastAsExtreme = 0;
+  for (let i = 0; i < PERMUTATIONS; i++) {
+    // Partial Fisher-Yates: only the first a.length slots need shuffling
+    for (let j = 0; j < a.length; j++) {
+      const k = j + Math.floor(random() * (pooled.length - j));
+      [pooled[j], pooled[k]] = [pooled[k], pooled[j]];
+    }
+    const diff =
+      median(pooled.slice(a.length))! - median(pooled.slice(0, a.length))!;
+    if (Math.abs(diff) >= Math.abs(observed)) atLeastAsExtreme++;
+  }
+
+  // +1 so a p-value is never exactly zero
+  const pValue = (atLeastAsExtreme + 1) / (PERMUTATIONS + 1);
+  const significant = pValue < alpha && observed !== 0;
+  return {
+    medianDiff: observed,
+    pValue,
+    significant,
+    winner: significant ? (observed > 0 ? "a" : "b") : null,
+  };
+}
+
+/**
+ * Summarise a list of timings (in ms). Uses the sample standard deviation.
+ */
+export function summarize(values: number[]): TimingSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = sorted.length;
+  if (count === 0) {
+    return {
+      count,
+      min: null,
+      max: null,
+      mean: null,
+      trimmedMean: null,
+      stddev: null,
+      p50: null,
+      p90: null,
+      p99: null,
+      ci95: null,
+    };
+  }
+
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / count;
+  const variance =
+    count > 1
+      ? sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (count - 1)
+      : 0;
+
+  return {
+    count,
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean,
+    trimmedMean: trimmedMean(sorted),
+    stddev: Math.sqrt(variance),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    ci95: bootstrapMedianCI(sorted),
+  };
+}
@@ -0,0 +1,308 @@
+// src/lib/stream.ts - Runs a benchmark plan and reports each step as a typed event
+import type { EndpointCacheReport } from "./cachecheck";
+import { parseConnStrategy } from "./connmodes";
+import { createRandom } from "./dataset";
+import { PAGE_ENDPOINTS, type PageEndpoint } from "./endpoints";
+import type { BenchmarkResult } from "./measure";
+import {
+  summarizeCaching,
+  summarizeEndpoints,
+  toSample,
+  type BenchmarkSample,
+  type EndpointReport,
+} from "./report";
+import { WORKLOAD_NAMES } from "./workloads";
+
+export interface BenchmarkPlan {
+  endpoints: PageEndpoint[];
+  runs: number;
+  warmupRuns: number; // The first runs, left out of the summary
+  delayMs: number; // Pause between runs
+  params: Record<string, string>; // Added to every endpoint URL
+  seed: number; // Shuffles each run's order the same way on every resume
+}
+
+// Same limits as the page's benchmark
+export const MAX_PLAN_RUNS = 20;
+export const MAX_PLAN_DELAY_MS = 60_000;
+export const DEFAULT_PLAN_DELAY_MS = 3000;
+
+/**
+ * One step of a running plan. `id` numbers the steps of a plan in order,
+ * the same on every run of it, so a stream can resume after any of them.
+ */
+export type BenchmarkEvent =
+  | {
+      type: "run-started";
+      id: number;
+      runId: number; // From 1
+      runs: number;
+      warmup: boolean;
+      order: string[]; // Endpoint ids, in the order they will be measured
+    }
+  | {
+      // "endpoint-error" carries a failed sample, "sample" a successful one
+      type: "sample" | "endpoint-error";
+      id: number;
+      runId: number;
+      warmup: boolean;
+      endpoint: string;
+      result: BenchmarkResult;
+    }
+  | { type: "run-finished"; id: number; runId: number; errors: number }
+  | {
+      type: "summary";
+      id: number;
+      resumedAfter: number; // 0 unless the stream resumed; only its samples count
+      endpoints: EndpointReport[];
+      cache: EndpointCacheReport[];
+    };
+
+export type BenchmarkEventType = BenchmarkEvent["type"];
+
+export const BENCHMARK_EVENT_TYPES: readonly BenchmarkEventType[] = [
+  "run-started",
+  "sample",
+  "endpoint-error",
+  "run-finished",
+  "summary",
+];
+
+function parseBounded(
+  value: string | null,
+  fallback: number,
+  min: number,
+  max: number,
+  name: string
+): { value: number | null; error: string | null } {
+  if (value === null) return { value: fallback, error: null };
+  const parsed = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (!(parsed >= min && parsed <= max)) {
+    return {
+      value: null,
+      error: `${name} must be a whole number between ${min} and ${max}`,
+    };
+  }
+  return { value: parsed, error: null };
+}
+
+/**
+ * Read a plan from a query string: `endpoints` (comma-separated ids,
+ * default all), `runs`, `warmup`, `delay` (ms), `seed`, and `workload`,
+ * `connMode` and `queries` to forward to every endpoint
+ * @returns The plan, or an error message for a 400 response
+ */
+export function parseBenchmarkPlan(searchParams: URLSearchParams): {
+  plan: BenchmarkPlan | null;
+  error: string | null;
+} {
+  const ids = searchParams.get("endpoints")?.split(",").filter(Boolean);
+  const endpoints = ids
+    ? PAGE_ENDPOINTS.filter((endpoint) => ids.includes(endpoint.id))
+    : PAGE_ENDPOINTS;
+  const unknown = ids?.filter(
+    (id) => !PAGE_ENDPOINTS.some((endpoint) => endpoint.id === id)
+  );
+  if (unknown?.length) {
+    return { plan: null, error: `Unknown endpoints: ${unknown.join(", ")}` };
+  }
+  if (endpoints.length === 0) {
+    return { plan: null, error: "endpoints must name at least one endpoint" };
+  }
+
+  const runs = parseBounded(
+    searchParams.get("runs"),
+    5,
+    1,
+    MAX_PLAN_RUNS,
+    "runs"
+  );
+  if (runs.error) return { plan: null, error: runs.error };
+  const warmup = parseBounded(
+    searchParams.get("warmup"),
+    Math.min(1, runs.value! - 1),
+    0,
+    runs.value! - 1,
+    "warmup"
+  );
+  const delay = parseBounded(
+    searchParams.get("delay"),
+    DEFAULT_PLAN_DELAY_MS,
+    0,
+    MAX_PLAN_DELAY_MS,
+    "delay"
+  );
+  const seed = parseBounded(
+    searchParams.get("seed"),
+    Math.floor(Math.random() * 2 ** 32),
+    0,
+    2 ** 32 - 1,
+    "seed"
+  );
+  const error = warmup.error ?? delay.error ?? seed.error;
+  if (error) return { plan: null, error };
+
+  const params: Record<string, string> = {};
+  const workload = searchParams.get("workload");
+  if (workload !== null) {
+    if (!(WORKLOAD_NAMES as readonly string[]).includes(workload)) {
+      return {
+        plan: null,
+        error: `Unknown workload. Use one of: ${WORKLOAD_NAMES.join(", ")}`,
+      };
+    }
+    params.workload = workload;
+  }
+  const { strategy, error: connModeError } = parseConnStrategy(searchParams);
+  if (!strategy) return { plan: null, error: connModeError };
+  if (searchParams.has("connMode")) params.connMode = strategy.mode;
+  if (searchParams.has("queries")) params.queries = String(strategy.queries);
+
+  return {
+    plan: {
+      endpoints,
+      runs: runs.value!,
+      warmupRuns: warmup.value!,
+      delayMs: delay.value!,
+      params,
+      seed: seed.value!,
+    },
+    error: null,
+  };
+}
+
+/**
+ * The URL a plan measures for `endpoint`, relative to the origin
+ */
+export function planUrl(
+  endpoint: PageEndpoint,
+  params: Record<string, string>
+): string {
+  const query = new URLSearchParams(params).toString();
+  return query ? `${endpoint.url}&${query}` : endpoint.url;
+}
+
+/**
+ * Where a resumed stream continues: the `resume` parameter, or the
+ * `Last-Event-ID` an `EventSource` sends when it reconnects, whichever is
+ * later (a reconnect keeps the `resume` of the URL it first opened)
+ * @returns The last event id already received, 0 to start from scratch
+ */
+export function resumePoint(
+  searchParams: URLSearchParams,
+  headers: Headers
+): number {
+  return Math.max(
+    ...[searchParams.get("resume"), headers.get("Last-Event-ID")].map((value) =>
+      value !== null && /^\d+$/.test(value) ? parseInt(value, 10) : 0
+    )
+  );
+}
+
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const array = [...items];
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+  return array;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+export interface PlanRunOptions {
+  emit: (event: BenchmarkEvent) => void;
+  signal?: AbortSignal; // Stops before the next step; no summary is sent
+  resumeAfter?: number; // Skip every step up to this event id
+}
+
+/**
+ * Run `plan`, measuring each endpoint once per run in a shuffled order,
+ * and emit every step as it completes
+ * @returns The samples measured, or null when `signal` stopped the plan
+ */
+export async function runBenchmarkPlan(
+  plan: BenchmarkPlan,
+  measure: (endpoint: PageEndpoint) => Promise<BenchmarkResult>,
+  { emit, signal, resumeAfter = 0 }: PlanRunOptions
+): Promise<BenchmarkSample[] | null> {
+  const random = createRandom(plan.seed);
+  const samples: BenchmarkSample[] = [];
+  let lastId = 0;
+
+  for (let runId = 1; runId <= plan.runs; runId++) {
+    // Shuffled for every run, skipped or not, so the order stays the same
+    const order = shuffled(plan.endpoints, random);
+    const warmup = runId <= plan.warmupRuns;
+
+    const startId = ++lastId;
+    if (startId > resumeAfter) {
+      // No pause when resuming, the client has already waited
+      if (runId > 1 && startId > resumeAfter + 1) {
+        await sleep(plan.delayMs, signal);
+      }
+      if (signal?.aborted) return null;
+      emit({
+        type: "run-started",
+        id: startId,
+        runId,
+        runs: plan.runs,
+        warmup,
+        order: order.map((endpoint) => endpoint.id),
+      });
+    }
+
+    let errors = 0;
+    for (const endpoint of order) {
+      const id = ++lastId;
+      if (id <= resumeAfter) continue;
+      if (signal?.aborted) return null;
+      const result = await measure(endpoint);
+      samples.push(toSample(endpoint.id, runId, warmup, result));
+      if (result.error !== null) errors++;
+      emit({
+        type: result.error === null ? "sample" : "endpoint-error",
+        id,
+        runId,
+        warmup,
+        endpoint: endpoint.id,
+        result,
+      });
+    }
+
+    const finishId = ++lastId;
+    if (finishId > resumeAfter) {
+      emit({ type: "run-finished", id: finishId, runId, errors });
+    }
+  }
+
+  if (signal?.aborted) return null;
+  emit({
+    type: "summary",
+    id: ++lastId,
+    resumedAfter: resumeAfter,
+    endpoints: summarizeEndpoints(plan.endpoints, samples),
+    cache: summarizeCaching(plan.endpoints, samples),
+  });
+  return samples;
+}
+
+/**
+ * Frame an event for a `text/event-stream` response
+ */
+export function toServerSentEvent(event: BenchmarkEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(
+    event
+  )}\n\n`;
+}
@@ -0,0 +1,69 @@
+// src/lib/timings.ts - Per-phase timing breakdown and the Server-Timing header
+
+/**
+ * Where the time of one request went, in ms. Phases that do not apply to
+ * an endpoint type are null (e.g. `upstreamMs` for Hyperdrive).
+ */
+export interface Timings {
+  connectMs: number | null; // Connection acquire (TCP/TLS + startup)
+  firstQueryMs: number | null; // Time until the first result, connect included
+  queryMs: number | null; // Workload execution (reported by Bun for proxies)
+  upstreamMs: number | null; // Worker -> Bun REST API fetch, body included
+  serializeMs: number | null; // JSON serialization of the response
+  overheadMs: number | null; // Everything else spent in the handler
+  totalMs: number; // Handler start to response body ready
+}
+
+export type TimingPhases = Omit<
+  Timings,
+  "serializeMs" | "overheadMs" | "totalMs"
+>;
+
+export const EMPTY_PHASES: TimingPhases = {
+  connectMs: null,
+  firstQueryMs: null,
+  queryMs: null,
+  upstreamMs: null,
+};
+
+/**
+ * Complete the measured phases once the response has been serialized.
+ * Overhead excludes `queryMs` when it ran upstream, since the upstream
+ * fetch already contains it.
+ */
+export function finalizeTimings(
+  phases: TimingPhases,
+  serializeMs: number,
+  totalMs: number
+): Timings {
+  const measured =
+    (phases.connectMs ?? 0) +
+    (phases.upstreamMs === null ? phases.queryMs ?? 0 : phases.upstreamMs) +
+    serializeMs;
+  return {
+    ...phases,
+    serializeMs,
+    overheadMs: Math.max(totalMs - measured, 0),
+    totalMs,
+  };
+}
+
+const SERVER_TIMING_NAMES: Record<keyof Timings, string> = {
+  connectMs: "connect",
+  firstQueryMs: "first-query",
+  queryMs: "query",
+  upstreamMs: "upstream",
+  serializeMs: "serialize",
+  overheadMs: "overhead",
+  totalMs: "total",
+};
+
+/**
+ * Format timings as a `Server-Timing` header value, skipping null phases
+ */
+export function serverTimingHeader(timings: Partial<Timings>): string {
+  return (Object.keys(SERVER_TIMING_NAMES) as (keyof Timings)[])
+    .filter((key) => typeof timings[key] === "number")
+    .map((key) => `${SERVER_TIMING_NAMES[key]};dur=${timings[key]!.toFixed(2)}`)
+    .join(", ");
+}
@@ -0,0 +1,344 @@
+// src/lib/tracing.ts - W3C trace context, spans exported over OTLP/HTTP, and JSON logs
+//
+// Shared by the page, the Worker and the Bun server, so it only uses Web
+// APIs. The page starts a trace for every sample and sends `traceparent`;
+// the Worker and the Bun server continue it and export their spans to
+// `OTEL_EXPORTER_OTLP_ENDPOINT` when it is set.
+
+export const TRACEPARENT_HEADER = "traceparent";
+
+export interface TraceContext {
+  traceId: string; // 32 hex digits
+  spanId: string; // 16 hex digits
+  sampled: boolean; // Whether spans of this trace are exported
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+function randomHex(bytes: number): string {
+  return [...crypto.getRandomValues(new Uint8Array(bytes))]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * A new sampled trace, for a request that starts one
+ */
+export function newTraceContext(): TraceContext {
+  return { traceId: randomHex(16), spanId: randomHex(8), sampled: true };
+}
+
+/**
+ * Read a `traceparent` header
+ * @returns null when the header is missing or malformed, so the request
+ * starts a new trace
+ */
+export function parseTraceparent(header: string | null): TraceContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    sampled: (parseInt(match[3], 16) & 1) === 1,
+  };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${
+    context.sampled ? "01" : "00"
+  }`;
+}
+
+export type SpanKind = "internal" | "server" | "client";
+export type AttributeValue = string | number | boolean;
+
+export interface SpanOptions {
+  kind?: SpanKind; // internal by default
+  attributes?: Record<string, AttributeValue>;
+  startTime?: number; // A `performance.now()` time, for spans measured before
+}
+
+export interface Span {
+  readonly context: TraceContext; // This span's ids, for propagation
+  readonly name: string;
+  setAttribute(key: string, value: AttributeValue): void;
+  setError(message: string): void;
+  /**
+   * Finish the span; later calls are ignored
+   * @param endTime A `performance.now()` time, now by default
+   */
+  end(endTime?: number): void;
+  child(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * A finished span, as handed to the exporter
+ */
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: SpanKind;
+  startTime: number; // `performance.now()` times
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  error: string | null;
+}
+
+export interface OtlpOptions {
+  serviceName: string;
+  endpoint: string | null; // e.g. http://localhost:4318; null keeps spans local
+  headers?: Record<string, string>; // e.g. a collector API key
+  fetch?: typeof fetch;
+}
+
+export interface Tracer {
+  /**
+   * Start a span continuing `parent`, or a new trace without one
+   */
+  startSpan(
+    name: string,
+    parent: TraceContext | null,
+    options?: SpanOptions
+  ): Span;
+  /**
+   * Send the finished, sampled spans to the collector. Failures are logged
+   * and the spans dropped, so tracing never fails a request.
+   */
+  flush(): Promise<void>;
+}
+
+// Spans kept while the collector is unreachable, before the oldest are dropped
+const MAX_BUFFERED_SPANS = 2048;
+
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+// `performance.now()` time as Unix epoch nanoseconds, which OTLP JSON
+// expects as a decimal string
+function unixNanos(time: number): string {
+  const micros = BigInt(Math.round((performance.timeOrigin + time) * 1000));
+  return (micros * 1000n).toString();
+}
+
+function otlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+        ? { boolValue: value }
+        : Number.isInteger(value)
+        ? { intValue: value.toString() }
+        : { doubleValue: value },
+  }));
+}
+
+/**
+ * The OTLP/HTTP JSON body (`POST /v1/traces`) for `spans`
+ */
+export function toOtlpJson(serviceName: string, spans: SpanRecord[]) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: otlpAttributes({ "service.name": serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: "bunvhd" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId ?? "",
+              name: span.name,
+              kind: OTLP_SPAN_KINDS[span.kind],
+              startTimeUnixNano: unixNanos(span.startTime),
+              endTimeUnixNano: unixNanos(span.endTime),
+              attributes: otlpAttributes(span.attributes),
+              status:
+                span.error !== null
+                  ? { code: 2, message: span.error }
+                  : { code: 0 },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Spans for one Worker request or one Bun process
+ */
+export function createTracer({
+  serviceName,
+  endpoint,
+  headers = {},
+  fetch: fetchImpl = fetch,
+}: OtlpOptions): Tracer {
+  let finished: SpanRecord[] = [];
+
+  function startSpan(
+    name: string,
+    parent: TraceContext | null,
+    { kind = "internal", attributes = {}, startTime }: SpanOptions = {}
+  ): Span {
+    const context: TraceContext = {
+      traceId: parent?.traceId ?? newTraceContext().traceId,
+      spanId: randomHex(8),
+      sampled: parent?.sampled ?? true,
+    };
+    const record: SpanRecord = {
+      traceId: context.traceId,
+      spanId: context.spanId,
+      parentSpanId: parent?.spanId ?? null,
+      name,
+      kind,
+      startTime: startTime ?? performance.now(),
+      endTime: 0,
+      attributes: { ...attributes },
+      error: null,
+    };
+    let ended = false;
+
+    return {
+      context,
+      name,
+      setAttribute(key, value) {
+        record.attributes[key] = value;
+      },
+      setError(message) {
+        record.error = message;
+      },
+      end(endTime = performance.now()) {
+        if (ended) return;
+        ended = true;
+        record.endTime = endTime;
+        if (!context.sampled || !endpoint) return;
+        finished.push(record);
+        if (finished.length > MAX_BUFFERED_SPANS) {
+          finished = finished.slice(-MAX_BUFFERED_SPANS);
+        }
+      },
+      child(childName, options) {
+        return startSpan(childName, context, options);
+      },
+    };
+  }
+
+  return {
+    startSpan,
+
+    async flush() {
+      if (!endpoint || finished.length === 0) return;
+      const spans = finished;
+      finished = [];
+      try {
+        const response = await fetchImpl(
+          `${endpoint.replace(/\/$/, "")}/v1/traces`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(toOtlpJson(serviceName, spans)),
+          }
+        );
+        if (!response.ok) {
+          throw new Error(`collector returned ${response.status}`);
+        }
+        await response.body?.cancel();
+      } catch (e: any) {
+        logJson("warn", `Dropped ${spans.length} spans: ${e?.message}`, {
+          service: serviceName,
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Read `OTEL_EXPORTER_OTLP_HEADERS`, e.g. `api-key=secret,x-team=db`
+ */
+export function parseOtlpHeaders(value: string | undefined) {
+  const headers: Record<string, string> = {};
+  for (const pair of (value ?? "").split(",")) {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      headers[pair.slice(0, index).trim()] = decodeURIComponent(
+        pair.slice(index + 1).trim()
+      );
+    }
+  }
+  return headers;
+}
+
+/**
+ * Exporter settings from the standard OpenTelemetry variables
+ */
+export function otlpOptionsFromEnv(
+  env: Record<string, any>,
+  defaultServiceName: string
+): OtlpOptions {
+  return {
+    serviceName: env.OTEL_SERVICE_NAME || defaultServiceName,
+    endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT || null,
+    headers: parseOtlpHeaders(env.OTEL_EXPORTER_OTLP_HEADERS),
+  };
+}
+
+/**
+ * Where a trace can be viewed, from a template such as
+ * `http://localhost:16686/trace/{traceId}`
+ */
+export function traceUrl(
+  template: string | undefined,
+  traceId: string
+): string | null {
+  return template ? template.replaceAll("{traceId}", traceId) : null;
+}
+
+export type LogRecordLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * The trace and span ids a log record is linked to its trace by
+ */
+export function traceFields(span: Span | null | undefined) {
+  return span
+    ? { traceId: span.context.traceId, spanId: span.context.spanId }
+    : {};
+}
+
+/**
+ * One JSON log line: time, level, message and `fields`
+ */
+export function logRecord(
+  level: LogRecordLevel,
+  message: string,
+  fields: Record<string, unknown> = {}
+): string {
+  return JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...fields,
+  });
+}
+
+/**
+ * Write a JSON log line to the console method for `level`
+ */
+export function logJson(
+  level: LogRecordLevel,
+  message: string,
+  fields: Record<string, unknown> = {}
+): void {
+  const line = logRecord(level, message, fields);
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
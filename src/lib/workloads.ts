@@ -0,0 +1,243 @@
+// src/lib/workloads.ts - Named query workloads shared by the Worker and the Bun server
+import type postgres from "postgres";
+import type { City } from "./db";
+
+export const WORKLOAD_NAMES = [
+  "random",
+  "point-lookup",
+  "filtered-scan",
+  "aggregate",
+  "paginated",
+  "write",
+  "transaction",
+  "bulk",
+] as const;
+
+export type WorkloadName = (typeof WORKLOAD_NAMES)[number];
+
+export const DEFAULT_WORKLOAD: WorkloadName = "random";
+
+/**
+ * Parameters a workload may read. Anything not given falls back to the
+ * defaults below, so a bare `?workload=point-lookup` is always valid.
+ */
+export interface WorkloadParams {
+  id: number;
+  continent: string;
+  country: string | null;
+  page: number;
+  pageSize: number;
+  rows: number;
+}
+
+export interface WorkloadRequest {
+  name: WorkloadName;
+  params: WorkloadParams;
+}
+
+export type ContinentSummary = {
+  continent: string;
+  city_count: number;
+  total_population: number | null;
+};
+
+export type WorkloadRow = City | ContinentSummary;
+
+interface Workload {
+  description: string;
+  readOnly: boolean; // Writes must never be served from a CDN cache
+  run(
+    sql: postgres.Sql,
+    params: WorkloadParams,
+    comment: string
+  ): Promise<WorkloadRow[]>;
+}
+
+const MAX_PAGE_SIZE = 100;
+export const MAX_ROWS = 10_000;
+
+/**
+ * The workload catalogue. `comment` is either empty or a unique SQL comment
+ * used on dynamic paths to force a new query plan.
+ */
+export const WORKLOADS: Record<WorkloadName, Workload> = {
+  random: {
+    description: "Random city via ORDER BY RANDOM() (full table scan)",
+    readOnly: true,
+    run: (sql, _params, comment) => sql<City[]>`
+      ${sql.unsafe(comment)}
+      SELECT * FROM public.cities ORDER BY RANDOM() LIMIT 1;
+    `,
+  },
+  "point-lookup": {
+    description: "Single city by primary key",
+    readOnly: true,
+    run: (sql, { id }, comment) => sql<City[]>`
+      ${sql.unsafe(comment)}
+      SELECT * FROM public.cities WHERE city_id = ${id};
+    `,
+  },
+  "filtered-scan": {
+    description: "Cities filtered by continent and optionally country",
+    readOnly: true,
+    run: (sql, { continent, country }, comment) => sql<City[]>`
+      ${sql.unsafe(comment)}
+      SELECT * FROM public.cities
+      WHERE continent = ${continent}
+      ${country ? sql`AND country = ${country}` : sql``}
+      ORDER BY city_id;
+    `,
+  },
+  aggregate: {
+    description: "City count and population per continent",
+    readOnly: true,
+    run: (sql, _params, comment) => sql<ContinentSummary[]>`
+      ${sql.unsafe(comment)}
+      SELECT continent,
+             COUNT(*)::int AS city_count,
+             SUM(population)::float8 AS total_population
+      FROM public.cities
+      GROUP BY continent
+      ORDER BY continent;
+    `,
+  },
+  paginated: {
+    description: "One page of cities ordered by id",
+    readOnly: true,
+    run: (sql, { page, pageSize }, comment) => sql<City[]>`
+      ${sql.unsafe(comment)}
+      SELECT * FROM public.cities
+      ORDER BY city_id
+      LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize};
+    `,
+  },
+  write: {
+    description: "Single-row UPDATE by primary key (rewrites the row in place)",
+    readOnly: false,
+    run: (sql, { id }, comment) => sql<City[]>`
+      ${sql.unsafe(comment)}
+      UPDATE public.cities SET population = population
+      WHERE city_id = ${id}
+      RETURNING *;
+    `,
+  },
+  transaction: {
+    description: "Lock, update and re-read a city inside one transaction",
+    readOnly: false,
+    run: async (sql, { id }, comment) => {
+      const rows = await sql.begin(async (tx) => {
+        await tx`
+          ${tx.unsafe(comment)}
+          SELECT city_id FROM public.cities WHERE city_id = ${id} FOR UPDATE;
+        `;
+        await tx`
+          UPDATE public.cities SET population = population
+          WHERE city_id = ${id};
+        `;
+        return tx<City[]>`
+          SELECT * FROM public.cities WHERE city_id = ${id};
+        `;
+      });
+      return rows;
+    },
+  },
+  bulk: {
+    description: "Exactly `rows` city rows, repeating the table if it is smaller",
+    readOnly: true,
+    run: (sql, { rows }, comment) => sql<City[]>`
+      ${sql.unsafe(comment)}
+      SELECT c.* FROM generate_series(
+        1,
+        CEIL(
+          ${rows}::float8 / GREATEST((SELECT COUNT(*) FROM public.cities), 1)
+        )::int
+      ) AS repeat_index
+      CROSS JOIN public.cities AS c
+      ORDER BY repeat_index, c.city_id
+      LIMIT ${rows};
+    `,
+  },
+};
+
+function parsePositiveInt(
+  value: string | null,
+  fallback: number,
+  name: string
+): { value: number; error: string | null } {
+  if (value === null || value === "") return { value: fallback, error: null };
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    return { value: fallback, error: `${name} must be a positive integer` };
+  }
+  return { value: parseInt(value, 10), error: null };
+}
+
+/**
+ * Read `workload` and its parameters from a request's query string
+ * @returns The workload request, or an error message for a 400 response
+ */
+export function parseWorkload(searchParams: URLSearchParams): {
+  workload: WorkloadRequest | null;
+  error: string | null;
+} {
+  // A bare `rows` parameter selects the bulk workload
+  const name =
+    searchParams.get("workload") ||
+    (searchParams.has("rows") ? "bulk" : DEFAULT_WORKLOAD);
+  if (!(WORKLOAD_NAMES as readonly string[]).includes(name)) {
+    return {
+      workload: null,
+      error: `Unknown workload: ${name}. Expected one of ${WORKLOAD_NAMES.join(
+        ", "
+      )}`,
+    };
+  }
+
+  const id = parsePositiveInt(searchParams.get("id"), 1, "id");
+  const page = parsePositiveInt(searchParams.get("page"), 1, "page");
+  const pageSize = parsePositiveInt(
+    searchParams.get("pageSize"),
+    20,
+    "pageSize"
+  );
+  const rows = parsePositiveInt(searchParams.get("rows"), 1, "rows");
+  if (!rows.error && rows.value > MAX_ROWS) {
+    rows.error = `rows must be at most ${MAX_ROWS}`;
+  }
+  const error = id.error || page.error || pageSize.error || rows.error;
+  if (error) {
+    return { workload: null, error };
+  }
+
+  return {
+    workload: {
+      name: name as WorkloadName,
+      params: {
+        id: id.value,
+        continent: searchParams.get("continent") || "Europe",
+        country: searchParams.get("country") || null,
+        page: page.value,
+        pageSize: Math.min(pageSize.value, MAX_PAGE_SIZE),
+        rows: rows.value,
+      },
+    },
+    error: null,
+  };
+}
+
+/**
+ * Serialise a workload request back into query parameters, so the Worker
+ * can forward exactly the same workload to a Bun REST API.
+ */
+export function workloadSearchParams({
+  name,
+  params,
+}: WorkloadRequest): URLSearchParams {
+  const searchParams = new URLSearchParams({ workload: name });
+  searchParams.set("id", String(params.id));
+  searchParams.set("continent", params.continent);
+  if (params.country) searchParams.set("country", params.country);
+  searchParams.set("page", String(params.page));
+  searchParams.set("pageSize", String(params.pageSize));
+  searchParams.set("rows", String(params.rows));
+  return searchParams;
+}
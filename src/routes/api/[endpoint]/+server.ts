@@ -1,158 +1,33 @@
 // src/routes/api/[endpoint]/+server.ts
-import { json, error as svelteError } from "@sveltejs/kit";
-import postgres from "postgres";
+import { error as svelteError } from "@sveltejs/kit";
+import { clientIpOf } from "$lib/auth";
+import { createGenerationCounter } from "$lib/cachecheck";
+import { parseConnStrategy } from "$lib/connmodes";
+import { ENDPOINT_CONFIG, ENDPOINT_PATTERN } from "$lib/endpoints";
+import { parsePaddingBytes, serializeWithPayloadStats } from "$lib/payload";
+import { parseProxyPolicy } from "$lib/proxy";
+import { runEndpointQuery } from "$lib/query";
+import {
+  finalizeTimings,
+  serverTimingHeader,
+  type Timings,
+} from "$lib/timings";
+import { traceUrl } from "$lib/tracing";
+import { parseWorkload, WORKLOADS } from "$lib/workloads";
 import type { RequestHandler } from "./$types";
 
-// Define the configuration interface with a new type field
-interface EndpointConfig {
-  bindingKey: string;
-  displayName: string;
-  cached: boolean;
-  region: string;
-  type: "hyperdrive" | "bun-rest-proxy"; // Added type to distinguish between direct DB and REST proxy
-  restUrl?: string; // URL for the REST API (only needed for bun-rest-proxy type)
-}
-
-// Define common city type
-interface City {
-  city_id: number;
-  city_name: string;
-  local_name: string | null;
-  country: string;
-  continent: string;
-  population: number | null;
-  language_spoken: string | null;
-}
-
-// Updated bindings to include both Hyperdrive and Bun REST API proxy endpoints
-const ENDPOINT_CONFIG: Record<string, EndpointConfig> = {
-  // Helsinki region - Hyperdrive
-  "cached-query": {
-    bindingKey: "CACHED-DB-BUNVHD",
-    displayName: "CACHED_DB_HELSINKI",
-    cached: true,
-    region: "helsinki",
-    type: "hyperdrive",
-  },
-  "non-cached-query": {
-    bindingKey: "NO-CACHED-DB-BUNVHD",
-    displayName: "NON_CACHED_DB_HELSINKI",
-    cached: false,
-    region: "helsinki",
-    type: "hyperdrive",
-  },
-
-  // Helsinki region - Bun REST API Proxy
-  "bun-cached-hel": {
-    bindingKey: "CACHED-DB-BUNVHD", // Still need a binding for auth context, even if not used directly
-    displayName: "BUN_REST_CACHED_HELSINKI",
-    cached: true,
-    region: "helsinki",
-    type: "bun-rest-proxy",
-    restUrl: "https://bunvhd-db-eu-east.tripcafe.org",
-  },
-  "bun-non-cached-hel": {
-    bindingKey: "NO-CACHED-DB-BUNVHD",
-    displayName: "BUN_REST_NON_CACHED_HELSINKI",
-    cached: false,
-    region: "helsinki",
-    type: "bun-rest-proxy",
-    restUrl: "https://bunvhd-db-eu-east.tripcafe.org",
-  },
-
-  // US East Region - Hyperdrive
-  "cached-query-us-east": {
-    bindingKey: "CACHED-DB-BUNVHD-US-EAST",
-    displayName: "CACHED_DB_US_EAST",
-    cached: true,
-    region: "us-east",
-    type: "hyperdrive",
-  },
-  "non-cached-query-us-east": {
-    bindingKey: "NO-CACHED-DB-BUNVHD-US-EAST",
-    displayName: "NON_CACHED_DB_US_EAST",
-    cached: false,
-    region: "us-east",
-    type: "hyperdrive",
-  },
-
-  // US East Region - Bun REST API Proxy
-  "bun-cached-us-east": {
-    bindingKey: "CACHED-DB-BUNVHD-US-EAST",
-    displayName: "BUN_REST_CACHED_US_EAST",
-    cached: true,
-    region: "us-east",
-    type: "bun-rest-proxy",
-    restUrl: "https://bunvhd-db-us-east.tripcafe.org",
-  },
-  "bun-non-cached-us-east": {
-    bindingKey: "NO-CACHED-DB-BUNVHD-US-EAST",
-    displayName: "BUN_REST_NON_CACHED_US_EAST",
-    cached: false,
-    region: "us-east",
-    type: "bun-rest-proxy",
-    restUrl: "https://bunvhd-db-us-east.tripcafe.org",
-  },
-
-  // US West Region - Hyperdrive
-  "cached-query-us-west": {
-    bindingKey: "CACHED-DB-BUNVHD-US-WEST",
-    displayName: "CACHED_DB_US_WEST",
-    cached: true,
-    region: "us-west",
-    type: "hyperdrive",
-  },
-  "non-cached-query-us-west": {
-    bindingKey: "NO-CACHED-DB-BUNVHD-US-WEST",
-    displayName: "NON_CACHED_DB_US_WEST",
-    cached: false,
-    region: "us-west",
-    type: "hyperdrive",
-  },
-
-  // US West Region - Bun REST API Proxy
-  "bun-cached-us-west": {
-    bindingKey: "CACHED-DB-BUNVHD-US-WEST",
-    displayName: "BUN_REST_CACHED_US_WEST",
-    cached: true,
-    region: "us-west",
-    type: "bun-rest-proxy",
-    restUrl: "https://bunvhd-db-us-west.tripcafe.org",
-  },
-  "bun-non-cached-us-west": {
-    bindingKey: "NO-CACHED-DB-BUNVHD-US-WEST",
-    displayName: "BUN_REST_NON_CACHED_US_WEST",
-    cached: false,
-    region: "us-west",
-    type: "bun-rest-proxy",
-    restUrl: "https://bunvhd-db-us-west.tripcafe.org",
-  },
-};
-
-// Pattern to extract base endpoint from dynamic endpoint
-const ENDPOINT_PATTERN =
-  /^(cached-query|non-cached-query|cached-query-us-east|non-cached-query-us-east|cached-query-us-west|non-cached-query-us-west|bun-cached-hel|bun-non-cached-hel|bun-cached-us-east|bun-non-cached-us-east|bun-cached-us-west|bun-non-cached-us-west)(-\d+-\d+|-\d+)?$/;
-
-// Interface for environment bindings (removed Cache API)
-interface EnvBindings {
-  [key: string]: any;
-}
-
-// Interface for the response from Bun REST API
-interface RestApiResponse {
-  data: City | null;
-  timeMs: number;
-  binding: string;
-  error: string | null;
-}
+// Counts the requests this isolate renders, i.e. that the CDN did not answer
+const nextGeneration = createGenerationCounter();
 
 export const GET: RequestHandler = async ({
   fetch,
+  locals,
   params,
   platform,
   url,
   request,
 }) => {
+  const handlerStart = performance.now();
   const dynamicEndpoint = params.endpoint;
   const colo = request.cf?.colo || "";
 
@@ -168,9 +43,34 @@ export const GET: RequestHandler = async ({
   // Check if this is a dynamic endpoint (has timestamp suffix)
   const isDynamicPath = !!match[2];
 
-  // Check if CDN caching is requested via query parameter
+  // Select the query workload (defaults to a random city)
+  const { workload, error: workloadError } = parseWorkload(url.searchParams);
+  if (!workload) {
+    throw svelteError(400, workloadError!);
+  }
+
+  // Optional target response size, reached by padding the body
+  const { bytes: paddingBytes, error: paddingError } = parsePaddingBytes(
+    url.searchParams
+  );
+  if (paddingError) {
+    throw svelteError(400, paddingError);
+  }
+
+  // How the Worker opens connections and how many queries it runs
+  const { strategy: connStrategy, error: connModeError } = parseConnStrategy(
+    url.searchParams
+  );
+  if (!connStrategy) {
+    throw svelteError(400, connModeError!);
+  }
+
+  // Check if CDN caching is requested via query parameter (never for writes)
   const cdnCache = url.searchParams.get("cdnCache");
-  const cacheTtl = cdnCache ? parseInt(cdnCache, 10) || 30 : 0; // Default to 30 seconds if unspecified
+  const cacheTtl =
+    cdnCache && WORKLOADS[workload.name].readOnly
+      ? parseInt(cdnCache, 10) || 30
+      : 0; // Default to 30 seconds if unspecified
 
   // Check if the requested endpoint exists in our configuration
   if (!baseEndpoint || !(baseEndpoint in ENDPOINT_CONFIG)) {
@@ -179,188 +79,52 @@ export const GET: RequestHandler = async ({
 
   const config = ENDPOINT_CONFIG[baseEndpoint];
 
+  // Overrides of the endpoint's proxy timeout and retries
+  const { policy: proxyPolicy, error: proxyPolicyError } = parseProxyPolicy(
+    url.searchParams,
+    config.proxyPolicy
+  );
+  if (!proxyPolicy) {
+    throw svelteError(400, proxyPolicyError!);
+  }
+
   // Ensure platform and env exist
   if (!platform?.env) {
     throw svelteError(500, "Server environment not available");
   }
 
-  // Type-safe access to environment variables
-  const env = platform.env as EnvBindings;
-
-  // Now handle the request based on endpoint type
-  let results: City[] | null = null;
-  let errorMsg: string | null = null;
-  let serverTimeMs: number = 0;
-  let binding = config.displayName;
-
-  if (config.type === "hyperdrive") {
-    // Original Hyperdrive flow
-    if (!env[config.bindingKey]) {
-      console.error(`API Error: ${config.bindingKey} binding not found`);
-      throw svelteError(
-        500,
-        `Configuration Error: ${config.displayName} binding not found.`
-      );
-    }
-
-    const dbBinding = env[config.bindingKey];
-    let sql: postgres.Sql | null = null;
-
-    try {
-      // Get the connection string
-      const connectionString =
-        typeof dbBinding === "object" &&
-        dbBinding !== null &&
-        "connectionString" in dbBinding
-          ? (dbBinding as { connectionString: string }).connectionString
-          : typeof dbBinding === "string"
-          ? dbBinding
-          : null;
-
-      if (!connectionString) {
-        throw new Error("Invalid or missing connection string in binding.");
-      }
-
-      // Create a new database connection for this request
-      sql = postgres(connectionString, {
-        max: 1, // Single connection
-        idle_timeout: 5, // Short timeout
-        connect_timeout: 10, // 10 second connection timeout
-        // For dynamic paths, set additional parameters to prevent connection pooling
-        ...(isDynamicPath
-          ? {
-              connection: {
-                application_name: `benchmark_${dynamicEndpoint}`,
-              },
-            }
-          : {}),
-      });
-
-      const startTime = performance.now();
-
-      // Execute the query to get a random city
-      if (isDynamicPath) {
-        // For dynamic paths, add a unique comment to force a new query plan
-        const uniqueComment = `/* ${dynamicEndpoint} */`;
-        results = await sql<City[]>`
-          ${sql.unsafe(uniqueComment)}
-          SELECT * FROM public.cities ORDER BY RANDOM() LIMIT 1;
-        `;
-      } else {
-        results = await sql<City[]>`
-          SELECT * FROM public.cities ORDER BY RANDOM() LIMIT 1;
-        `;
-      }
-
-      serverTimeMs = performance.now() - startTime;
-    } catch (e: any) {
-      console.error(`Error querying ${config.displayName}:`, e);
-      errorMsg = e.message || "An unknown database error occurred";
-    } finally {
-      // Always properly close the connection
-      if (sql) {
-        const closePromise = sql
-          .end({ timeout: 5 })
-          .catch((err) =>
-            console.error(
-              `Error closing SQL connection for ${config.displayName}:`,
-              err
-            )
-          );
-
-        // Use waitUntil to allow the connection to close after the response is sent
-        if (platform?.ctx?.waitUntil) {
-          platform.ctx.waitUntil(closePromise);
-        } else {
-          // For environments without waitUntil, don't block the response
-          try {
-            // Wait briefly but don't block the response too long
-            await Promise.race([
-              closePromise,
-              new Promise((resolve) => setTimeout(resolve, 100)),
-            ]);
-          } catch (err) {
-            console.error(
-              `Timeout closing SQL connection for ${config.displayName}`
-            );
-          }
-        }
-      }
-    }
-  } else if (config.type === "bun-rest-proxy") {
-    // Handle Bun REST API proxy
-    if (!config.restUrl) {
-      throw svelteError(
-        500,
-        `REST API URL not configured for ${config.displayName}`
-      );
-    }
-
-    try {
-      // Build the REST API URL with appropriate caching parameters
-      const restParams = new URLSearchParams();
-      if (config.cached && cacheTtl > 0) {
-        restParams.set("cdnCache", cacheTtl.toString());
-      }
-      if (!config.cached || isDynamicPath) {
-        // For non-cached endpoints or dynamic paths, add a cache-busting parameter
-        restParams.set("_nc", "true");
-        if (isDynamicPath) {
-          // Add the dynamic identifier to ensure uniqueness
-          restParams.set("dynamicId", match[2].substring(1));
-        }
-      }
-
-      const restUrl = `${config.restUrl}/?${restParams.toString()}`;
-
-      // Time just the REST API call itself
-      const startTime = performance.now();
-      const response = await fetch(restUrl, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          "User-Agent": "SvelteKit-Benchmark-Proxy",
-          "X-Forwarded-For":
-            request.headers.get("x-forwarded-for") ||
-            request.headers.get("cf-connecting-ip") ||
-            "unknown",
-        },
-      });
-      const clientTimeMs = performance.now() - startTime;
-
-      if (!response.ok) {
-        throw new Error(
-          `REST API returned ${response.status}: ${await response.text()}`
-        );
-      }
-
-      const data: RestApiResponse = await response.json();
-
-      // Use the server-side timing from the REST API
-      serverTimeMs = data.timeMs;
-
-      // Get the result data
-      if (data.data) {
-        results = [data.data];
-      }
-
-      // If there was an error in the REST API, capture it
-      if (data.error) {
-        errorMsg = data.error;
-      }
-
-      console.log(
-        `REST proxy to ${restUrl} completed in ${clientTimeMs.toFixed(
-          2
-        )}ms (server: ${serverTimeMs.toFixed(2)}ms)`
-      );
-    } catch (e: any) {
-      console.error(`Error in REST proxy for ${config.displayName}:`, e);
-      errorMsg =
-        e.message || "An unknown error occurred while calling the REST API";
-    }
+  // Forwarded to the Bun server only where the Worker allows it
+  const fault = url.searchParams.get("fault");
+  if (fault !== null && platform.env.FAULT_INJECTION !== "on") {
+    throw svelteError(403, "Fault injection is off on this Worker");
   }
 
+  const {
+    results,
+    errorMsg,
+    serverTimeMs,
+    binding,
+    connMode,
+    phases,
+    upstream,
+    proxy,
+  } = await runEndpointQuery({
+    config,
+    env: platform.env,
+    ctx: platform.ctx,
+    fetch,
+    dynamicEndpoint,
+    dynamicSuffix: match[2],
+    cacheTtl,
+    forwardedFor: clientIpOf(request),
+    workload,
+    paddingBytes,
+    connStrategy,
+    proxyPolicy,
+    fault,
+    span: locals.span,
+  });
+
   // Create response with the benchmark results
   const responseData = {
     data: results && results.length > 0 ? results : null,
@@ -369,10 +133,41 @@ export const GET: RequestHandler = async ({
     error: errorMsg,
     dynamicPath: isDynamicPath,
     originalEndpoint: baseEndpoint,
+    workload: workload.name,
+    connMode, // null when proxied to the Bun REST API
+    queries: connMode ? connStrategy.queries : 1,
     colo: colo,
+    generation: nextGeneration(),
+    upstream, // null for Hyperdrive endpoints
+    proxy, // Attempts and circuit state, null unless proxied
+    traceId: locals.span?.context.traceId ?? null,
+    traceUrl: locals.span
+      ? traceUrl(platform.env.TRACE_URL_TEMPLATE, locals.span.context.traceId)
+      : null,
   };
 
-  const response = json(responseData);
+  // Timings are completed once serialization has been measured
+  let timings: Timings | null = null;
+  const body = serializeWithPayloadStats(
+    responseData,
+    results?.length ?? 0,
+    paddingBytes,
+    (stats) => {
+      timings = finalizeTimings(
+        phases,
+        stats.serializeTimeMs,
+        performance.now() - handlerStart
+      );
+      return { timings };
+    }
+  );
+
+  const response = new Response(body, {
+    headers: {
+      "Content-Type": "application/json",
+      "Server-Timing": serverTimingHeader(timings!),
+    },
+  });
 
   // Add CDN cache headers if requested AND this is not a dynamic path
   if (cacheTtl > 0 && !isDynamicPath) {
@@ -0,0 +1,27 @@
+// src/routes/api/[endpoint]/cities/+server.ts
+import { serveCitiesResource } from "$lib/resource";
+import type { RequestHandler } from "./$types";
+
+/**
+ * The cities collection through one endpoint: `GET` lists (filters,
+ * `sort`, `limit`, `cursor`) and `POST` creates, as on the Bun server
+ */
+const handler: RequestHandler = ({
+  fetch,
+  params,
+  platform,
+  request,
+  locals,
+}) =>
+  serveCitiesResource({
+    endpoint: params.endpoint,
+    id: null,
+    request,
+    env: platform?.env,
+    ctx: platform?.ctx,
+    fetch,
+    span: locals.span,
+  });
+
+export const GET = handler;
+export const POST = handler;
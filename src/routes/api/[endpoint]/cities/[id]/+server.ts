@@ -0,0 +1,28 @@
+// src/routes/api/[endpoint]/cities/[id]/+server.ts
+import { serveCitiesResource } from "$lib/resource";
+import type { RequestHandler } from "./$types";
+
+/**
+ * One city through one endpoint: `GET` (with `If-None-Match`), `PATCH`
+ * and `DELETE` (with `If-Match`), as on the Bun server
+ */
+const handler: RequestHandler = ({
+  fetch,
+  params,
+  platform,
+  request,
+  locals,
+}) =>
+  serveCitiesResource({
+    endpoint: params.endpoint,
+    id: params.id,
+    request,
+    env: platform?.env,
+    ctx: platform?.ctx,
+    fetch,
+    span: locals.span,
+  });
+
+export const GET = handler;
+export const PATCH = handler;
+export const DELETE = handler;
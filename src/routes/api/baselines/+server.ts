@@ -0,0 +1,59 @@
+// src/routes/api/baselines/+server.ts
+import { json, error as svelteError } from "@sveltejs/kit";
+import { listBaselines, parseBaseline, saveBaseline } from "$lib/baselines";
+import { connectResultsDb } from "$lib/results";
+import type { RequestHandler } from "./$types";
+
+/**
+ * Name a stored session as a baseline. Body: `{ name, sessionId, description? }`.
+ * Saving an existing name points it at the new session.
+ */
+export const POST: RequestHandler = async ({ platform, request }) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw svelteError(400, "Body must be valid JSON");
+  }
+
+  const { baseline, error } = parseBaseline(body);
+  if (!baseline) {
+    throw svelteError(400, error!);
+  }
+
+  const { sql, close } = connectResultsDb(platform);
+  let saved;
+  try {
+    saved = await saveBaseline(sql, baseline);
+  } catch (e: any) {
+    console.error("Error saving baseline:", e);
+    throw svelteError(500, e.message || "Could not save baseline");
+  } finally {
+    close();
+  }
+  if (!saved) {
+    throw svelteError(
+      404,
+      `No stored samples for session ${baseline.sessionId}`
+    );
+  }
+  return json(saved, { status: 201 });
+};
+
+/**
+ * List every baseline, newest first
+ */
+export const GET: RequestHandler = async ({ platform }) => {
+  const { sql, close } = connectResultsDb(platform);
+  try {
+    const baselines = await listBaselines(sql);
+    const response = json({ baselines });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (e: any) {
+    console.error("Error listing baselines:", e);
+    throw svelteError(500, e.message || "Could not list baselines");
+  } finally {
+    close();
+  }
+};
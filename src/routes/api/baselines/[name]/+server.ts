@@ -0,0 +1,52 @@
+// src/routes/api/baselines/[name]/+server.ts
+import { json, error as svelteError } from "@sveltejs/kit";
+import { deleteBaseline, getBaseline, isBaselineName } from "$lib/baselines";
+import { connectResultsDb } from "$lib/results";
+import type { RequestHandler } from "./$types";
+
+export const GET: RequestHandler = async ({ params, platform }) => {
+  if (!isBaselineName(params.name)) {
+    throw svelteError(404, `Baseline ${params.name} not found`);
+  }
+
+  const { sql, close } = connectResultsDb(platform);
+  let baseline;
+  try {
+    baseline = await getBaseline(sql, params.name);
+  } catch (e: any) {
+    console.error("Error reading baseline:", e);
+    throw svelteError(500, e.message || "Could not read baseline");
+  } finally {
+    close();
+  }
+  if (!baseline) {
+    throw svelteError(404, `Baseline ${params.name} not found`);
+  }
+  const response = json(baseline);
+  response.headers.set("Cache-Control", "no-store");
+  return response;
+};
+
+/**
+ * Remove the name only; the session's samples stay in `benchmark_runs`
+ */
+export const DELETE: RequestHandler = async ({ params, platform }) => {
+  if (!isBaselineName(params.name)) {
+    throw svelteError(404, `Baseline ${params.name} not found`);
+  }
+
+  const { sql, close } = connectResultsDb(platform);
+  let deleted;
+  try {
+    deleted = await deleteBaseline(sql, params.name);
+  } catch (e: any) {
+    console.error("Error deleting baseline:", e);
+    throw svelteError(500, e.message || "Could not delete baseline");
+  } finally {
+    close();
+  }
+  if (!deleted) {
+    throw svelteError(404, `Baseline ${params.name} not found`);
+  }
+  return new Response(null, { status: 204 });
+};
@@ -0,0 +1,204 @@
+// src/routes/api/bench/[endpoint]/+server.ts
+import { json, error as svelteError } from "@sveltejs/kit";
+import { clientIpOf } from "$lib/auth";
+import { BACKENDS } from "$lib/backends";
+import { parseConnStrategy } from "$lib/connmodes";
+import { ENDPOINT_CONFIG } from "$lib/endpoints";
+import { runEndpointQuery } from "$lib/query";
+import { summarize } from "$lib/stats";
+import { finalizeTimings, type Timings } from "$lib/timings";
+import { parseWorkload, WORKLOADS } from "$lib/workloads";
+import type { RequestHandler } from "./$types";
+
+const DEFAULT_ITERATIONS = 20;
+const MAX_ITERATIONS = 200;
+const DEFAULT_CONCURRENCY = 1;
+// Workers allow six simultaneous outgoing connections per request
+const MAX_CONCURRENCY = 6;
+const RATE_LIMITED = "Too many requests";
+
+interface BenchSample {
+  iteration: number;
+  wallTimeMs: number; // Measured in the Worker around the whole query
+  serverTimeMs: number | null; // As reported by Hyperdrive query / Bun API
+  timings: Timings | null; // Nothing is serialized per iteration
+  error: string | null;
+}
+
+function parseBoundedInt(
+  value: string | null,
+  fallback: number,
+  max: number,
+  name: string
+): number {
+  if (value === null) return fallback;
+  if (!/^\d+$/.test(value)) {
+    throw svelteError(400, `${name} must be a positive integer`);
+  }
+  const parsed = parseInt(value, 10);
+  if (parsed < 1 || parsed > max) {
+    throw svelteError(400, `${name} must be between 1 and ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Run an endpoint's query many times from inside the Worker, so the
+ * timings are taken in the same colo as Hyperdrive without browser jitter.
+ * Query params: `iterations`, `concurrency`, plus `cdnCache`, `connMode`,
+ * `queries` and `workload` (with its parameters) as for /api/[endpoint].
+ */
+export const GET: RequestHandler = async ({
+  fetch,
+  params,
+  platform,
+  url,
+  request,
+  locals,
+}) => {
+  if (!Object.hasOwn(ENDPOINT_CONFIG, params.endpoint)) {
+    throw svelteError(404, `Unknown endpoint: ${params.endpoint}`);
+  }
+  const config = ENDPOINT_CONFIG[params.endpoint];
+
+  if (!platform?.env) {
+    throw svelteError(500, "Server environment not available");
+  }
+
+  const { workload, error: workloadError } = parseWorkload(url.searchParams);
+  if (!workload) {
+    throw svelteError(400, workloadError!);
+  }
+
+  const { strategy: connStrategy, error: connModeError } = parseConnStrategy(
+    url.searchParams
+  );
+  if (!connStrategy) {
+    throw svelteError(400, connModeError!);
+  }
+
+  const iterations = parseBoundedInt(
+    url.searchParams.get("iterations"),
+    DEFAULT_ITERATIONS,
+    MAX_ITERATIONS,
+    "iterations"
+  );
+  const concurrency = Math.min(
+    parseBoundedInt(
+      url.searchParams.get("concurrency"),
+      DEFAULT_CONCURRENCY,
+      MAX_CONCURRENCY,
+      "concurrency"
+    ),
+    iterations
+  );
+  const cdnCache = url.searchParams.get("cdnCache");
+  const cacheTtl =
+    cdnCache && WORKLOADS[workload.name].readOnly
+      ? parseInt(cdnCache, 10) || 30
+      : 0;
+  const forwardedFor = clientIpOf(request);
+  const { workerConnects } = BACKENDS[config.type];
+  const queries = workerConnects ? connStrategy.queries : 1;
+
+  const samples: BenchSample[] = [];
+  let nextIteration = 0;
+
+  async function runOne(iteration: number): Promise<BenchSample> {
+    // Non-cached endpoints get a unique suffix per iteration, just like
+    // the page's measureFetch does with unique paths
+    const dynamicSuffix = config.cached
+      ? undefined
+      : `-${Date.now()}-${iteration}`;
+    // Every query is charged to the caller, as if it were its own request
+    if (locals.chargeRateLimit && !locals.chargeRateLimit(queries).allowed) {
+      return {
+        iteration,
+        wallTimeMs: 0,
+        serverTimeMs: null,
+        timings: null,
+        error: RATE_LIMITED,
+      };
+    }
+    const startTime = performance.now();
+    try {
+      const outcome = await runEndpointQuery({
+        config,
+        env: platform!.env,
+        ctx: platform!.ctx,
+        fetch,
+        dynamicEndpoint: `${config.key}${dynamicSuffix ?? ""}`,
+        dynamicSuffix,
+        cacheTtl,
+        forwardedFor,
+        workload: workload!,
+        connStrategy: connStrategy!,
+        span: locals.span,
+      });
+      const wallTimeMs = performance.now() - startTime;
+      return {
+        iteration,
+        wallTimeMs,
+        serverTimeMs: outcome.errorMsg ? null : outcome.serverTimeMs,
+        timings: finalizeTimings(outcome.phases, 0, wallTimeMs),
+        error: outcome.errorMsg,
+      };
+    } catch (e: any) {
+      return {
+        iteration,
+        wallTimeMs: performance.now() - startTime,
+        serverTimeMs: null,
+        timings: null,
+        error: e?.body?.message || e?.message || "Unknown error",
+      };
+    }
+  }
+
+  // Each worker pulls the next iteration until all have been run
+  async function worker() {
+    while (nextIteration < iterations) {
+      const iteration = nextIteration++;
+      samples.push(await runOne(iteration));
+    }
+  }
+
+  const totalStart = performance.now();
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+  const totalTimeMs = performance.now() - totalStart;
+
+  samples.sort((a, b) => a.iteration - b.iteration);
+
+  const successful = samples.filter((s) => s.error === null);
+  const errors: Record<string, number> = {};
+  for (const sample of samples) {
+    if (sample.error !== null) {
+      errors[sample.error] = (errors[sample.error] ?? 0) + 1;
+    }
+  }
+
+  const response = json({
+    endpoint: config.key,
+    binding: config.displayName,
+    region: config.region,
+    type: config.type,
+    cached: config.cached,
+    workload: workload.name,
+    connMode: workerConnects ? connStrategy.mode : null,
+    queries,
+    colo: request.cf?.colo || "",
+    iterations,
+    concurrency,
+    totalTimeMs,
+    errorCount: samples.length - successful.length,
+    errors,
+    stats: {
+      wallTime: summarize(successful.map((s) => s.wallTimeMs)),
+      serverTime: summarize(successful.map((s) => s.serverTimeMs!)),
+    },
+    samples,
+  });
+
+  // Benchmark runs must never be served from a cache
+  response.headers.set("Cache-Control", "no-store");
+  return response;
+};
@@ -0,0 +1,81 @@
+// src/routes/api/compare/+server.ts
+import { json, error as svelteError } from "@sveltejs/kit";
+import {
+  compareSessions,
+  getBaseline,
+  isBaselineName,
+  parseThresholds,
+  sessionSamples,
+} from "$lib/baselines";
+import { connectResultsDb, UUID_PATTERN } from "$lib/results";
+import type { RequestHandler } from "./$types";
+
+/**
+ * Compare the session `sessionId` against a named `baseline` (or a
+ * `baselineSessionId`). Thresholds: `metric`, `maxRegressionPercent`,
+ * `maxRegressionMs` and `alpha`. Answers 200 whether or not it passed.
+ */
+export const GET: RequestHandler = async ({ platform, url }) => {
+  const sessionId = url.searchParams.get("sessionId");
+  if (!sessionId || !UUID_PATTERN.test(sessionId)) {
+    throw svelteError(400, "sessionId must be a UUID");
+  }
+  const baselineName = url.searchParams.get("baseline");
+  const baselineSessionParam = url.searchParams.get("baselineSessionId");
+  if (!baselineName === !baselineSessionParam) {
+    throw svelteError(400, "Give either baseline or baselineSessionId");
+  }
+  if (baselineSessionParam && !UUID_PATTERN.test(baselineSessionParam)) {
+    throw svelteError(400, "baselineSessionId must be a UUID");
+  }
+  if (baselineName && !isBaselineName(baselineName)) {
+    throw svelteError(404, `Baseline ${baselineName} not found`);
+  }
+
+  const { thresholds, error } = parseThresholds(url.searchParams);
+  if (!thresholds) {
+    throw svelteError(400, error!);
+  }
+
+  const { sql, close } = connectResultsDb(platform);
+  let baselineSessionId = baselineSessionParam;
+  let baselineSamples, candidateSamples;
+  try {
+    if (baselineName) {
+      baselineSessionId =
+        (await getBaseline(sql, baselineName))?.sessionId ?? null;
+    }
+    [baselineSamples, candidateSamples] = await Promise.all([
+      baselineSessionId ? sessionSamples(sql, baselineSessionId) : [],
+      sessionSamples(sql, sessionId),
+    ]);
+  } catch (e: any) {
+    console.error("Error reading sessions to compare:", e);
+    throw svelteError(500, e.message || "Could not read sessions");
+  } finally {
+    close();
+  }
+
+  if (!baselineSessionId) {
+    throw svelteError(404, `Baseline ${baselineName} not found`);
+  }
+  for (const [id, samples] of [
+    [baselineSessionId, baselineSamples],
+    [sessionId, candidateSamples],
+  ] as const) {
+    if (samples.length === 0) {
+      throw svelteError(404, `No stored samples for session ${id}`);
+    }
+  }
+
+  const comparison = compareSessions(
+    baselineSessionId,
+    baselineSamples,
+    sessionId,
+    candidateSamples,
+    thresholds
+  );
+  const response = json({ baseline: baselineName, ...comparison });
+  response.headers.set("Cache-Control", "no-store");
+  return response;
+};
@@ -0,0 +1,35 @@
+// src/routes/api/health/+server.ts
+import { json, error as svelteError } from "@sveltejs/kit";
+import { ENDPOINT_CONFIG } from "$lib/endpoints";
+import { checkEndpoint } from "$lib/backends";
+import type { HealthReport } from "$lib/health";
+import type { RequestHandler } from "./$types";
+
+/**
+ * Preflight for the benchmark page: checks every endpoint in parallel and
+ * answers 503 when any of them could not serve a query right now
+ */
+export const GET: RequestHandler = async ({ fetch, platform }) => {
+  if (!platform?.env) {
+    throw svelteError(500, "Server environment not available");
+  }
+
+  const configs = Object.values(ENDPOINT_CONFIG);
+  const checks = await Promise.all(
+    configs.map((config) =>
+      checkEndpoint(config, platform.env, fetch, platform.ctx)
+    )
+  );
+
+  const report: HealthReport = {
+    ok: checks.every((check) => check.ok),
+    endpoints: Object.fromEntries(
+      configs.map((config, i) => [config.key, checks[i]])
+    ),
+  };
+
+  return json(report, {
+    status: report.ok ? 200 : 503,
+    headers: { "Cache-Control": "no-store" },
+  });
+};
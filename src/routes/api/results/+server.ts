@@ -0,0 +1,66 @@
+// src/routes/api/results/+server.ts
+import { json, error as svelteError } from "@sveltejs/kit";
+import { version } from "$app/environment";
+import {
+  connectResultsDb,
+  insertResultSession,
+  parseResultSession,
+  parseResultsFilter,
+  queryResults,
+} from "$lib/results";
+import type { RequestHandler } from "./$types";
+
+/**
+ * Store a benchmark session. Body: `{ sessionId?, workload?, samples: [...] }`
+ */
+export const POST: RequestHandler = async ({ platform, request }) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw svelteError(400, "Body must be valid JSON");
+  }
+
+  const { session, error } = parseResultSession(body);
+  if (!session) {
+    throw svelteError(400, error!);
+  }
+
+  const { sql, close } = connectResultsDb(platform);
+  try {
+    const inserted = await insertResultSession(sql, session, version);
+    return json(
+      { sessionId: session.sessionId, inserted, version },
+      { status: 201 }
+    );
+  } catch (e: any) {
+    console.error("Error storing benchmark results:", e);
+    throw svelteError(500, e.message || "Could not store benchmark results");
+  } finally {
+    close();
+  }
+};
+
+/**
+ * List stored samples. Filters: `from`, `to`, `region`, `type`, `colo`,
+ * `endpoint`, `sessionId` and `limit`.
+ */
+export const GET: RequestHandler = async ({ platform, url }) => {
+  const { filter, error } = parseResultsFilter(url.searchParams);
+  if (!filter) {
+    throw svelteError(400, error!);
+  }
+
+  const { sql, close } = connectResultsDb(platform);
+  try {
+    const results = await queryResults(sql, filter);
+    const response = json({ results, count: results.length });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (e: any) {
+    console.error("Error reading benchmark results:", e);
+    throw svelteError(500, e.message || "Could not read benchmark results");
+  } finally {
+    close();
+  }
+};
@@ -0,0 +1,121 @@
+// src/routes/api/stream/+server.ts
+import { error as svelteError } from "@sveltejs/kit";
+import type { WebSocket as WorkerWebSocket } from "@cloudflare/workers-types";
+import { measureFetch } from "$lib/measure";
+import {
+  parseBenchmarkPlan,
+  planUrl,
+  resumePoint,
+  runBenchmarkPlan,
+  toServerSentEvent,
+  type BenchmarkEvent,
+} from "$lib/stream";
+import type { RequestHandler } from "./$types";
+
+// Only the Workers runtime has WebSocketPair
+type WebSocketPairConstructor = new () => Record<0 | 1, WorkerWebSocket>;
+
+/**
+ * Run a benchmark plan inside the Worker and stream its events: as
+ * Server-Sent Events by default, or over a WebSocket when the request asks
+ * to upgrade. Query params as for `parseBenchmarkPlan`, plus `resume` (or
+ * `Last-Event-ID`) to continue a plan after an event id. Closing the
+ * stream, or sending `{"type":"cancel"}` over the WebSocket, stops it.
+ */
+export const GET: RequestHandler = async ({
+  fetch,
+  platform,
+  request,
+  url,
+}) => {
+  const { plan, error } = parseBenchmarkPlan(url.searchParams);
+  if (!plan) {
+    throw svelteError(400, error!);
+  }
+  const resumeAfter = resumePoint(url.searchParams, request.headers);
+
+  // Same-origin fetches reach the routes directly, so the client time is
+  // measured inside the Worker, without the browser's network
+  const measure = (endpoint: (typeof plan.endpoints)[number]) =>
+    measureFetch(planUrl(endpoint, plan.params), url.origin, fetch);
+
+  if (request.headers.get("Upgrade")?.toLowerCase() === "websocket") {
+    const WebSocketPair = (
+      globalThis as { WebSocketPair?: WebSocketPairConstructor }
+    ).WebSocketPair;
+    if (!WebSocketPair) {
+      throw svelteError(426, "WebSockets are not supported here");
+    }
+    const { 0: client, 1: server } = new WebSocketPair();
+    server.accept();
+
+    const controller = new AbortController();
+    server.addEventListener("message", (message) => {
+      try {
+        if (JSON.parse(String(message.data)).type === "cancel") {
+          controller.abort();
+        }
+      } catch {
+        // Anything else is ignored
+      }
+    });
+    server.addEventListener("close", () => controller.abort());
+
+    const done = runBenchmarkPlan(plan, measure, {
+      emit: (event) => server.send(JSON.stringify(event)),
+      signal: controller.signal,
+      resumeAfter,
+    })
+      .then((samples) => server.close(1000, samples ? "Finished" : "Cancelled"))
+      .catch((e: any) => {
+        console.error("Benchmark stream failed:", e);
+        server.close(1011, "Benchmark failed");
+      });
+    platform?.ctx?.waitUntil(done);
+
+    return new Response(null, {
+      status: 101,
+      webSocket: client,
+    } as ResponseInit);
+  }
+
+  const controller = new AbortController();
+  request.signal.addEventListener("abort", () => controller.abort());
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    // Not awaited, so the response starts before the plan finishes
+    start(stream) {
+      // A cancelled stream can no longer be written to
+      const send = (text: string) => {
+        if (!controller.signal.aborted) stream.enqueue(encoder.encode(text));
+      };
+      const emit = (event: BenchmarkEvent) => send(toServerSentEvent(event));
+      runBenchmarkPlan(plan, measure, {
+        emit,
+        signal: controller.signal,
+        resumeAfter,
+      })
+        .catch((e: any) => {
+          console.error("Benchmark stream failed:", e);
+          send(
+            `event: error\ndata: ${JSON.stringify({
+              error: e?.message || "Benchmark failed",
+            })}\n\n`
+          );
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) stream.close();
+        });
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+    },
+  });
+};
@@ -1,5 +1,15 @@
 import adapter from "@sveltejs/adapter-cloudflare";
 import { vitePreprocess } from "@sveltejs/vite-plugin-svelte";
+import { execSync } from "child_process";
+
+// Stored with every benchmark result, so sessions can be tied to a commit
+function gitCommitHash() {
+  try {
+    return execSync("git rev-parse --short HEAD").toString().trim();
+  } catch {
+    return undefined; // Falls back to SvelteKit's build timestamp
+  }
+}
 
 /** @type {import('@sveltejs/kit').Config} */
 const config = {
@@ -12,6 +22,9 @@ const config = {
     // If your environment is not supported, or you settled on a specific environment, switch out the adapter.
     // See https://svelte.dev/docs/kit/adapters for more information about adapters.
     adapter: adapter(),
+    version: {
+      name: gitCommitHash(),
+    },
   },
 };
 
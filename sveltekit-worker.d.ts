@@ -0,0 +1,13 @@
+// sveltekit-worker.d.ts - Types of the app adapter-cloudflare builds, which worker.ts wraps
+declare module "*/.svelte-kit/cloudflare/_worker.js" {
+  import type { ExecutionContext } from "@cloudflare/workers-types";
+
+  const app: {
+    fetch(
+      request: Request,
+      env: App.Env,
+      ctx: ExecutionContext
+    ): Promise<Response>;
+  };
+  export default app;
+}
@@ -0,0 +1,370 @@
+// tests/api-baselines.test.ts - Named baselines and session comparisons
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  test,
+} from "bun:test";
+import pg from "postgres";
+import {
+  compareSessions,
+  parseThresholds,
+  type ComparedSample,
+} from "../src/lib/baselines";
+import {
+  insertResultSession,
+  MAX_SAMPLES_PER_SESSION,
+  type ResultSample,
+} from "../src/lib/results";
+import * as baselinesRoute from "../src/routes/api/baselines/+server";
+import * as baselineRoute from "../src/routes/api/baselines/[name]/+server";
+import { GET as compareGET } from "../src/routes/api/compare/+server";
+import {
+  createPlatform,
+  readJson,
+  startPostgres,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+
+setDefaultTimeout(60_000);
+
+const BASELINE_SESSION = "00000000-0000-4000-8000-000000000001";
+const SLOWER_SESSION = "00000000-0000-4000-8000-000000000002";
+const UNKNOWN_SESSION = "00000000-0000-4000-8000-0000000000ff";
+const LARGEST_SESSION = "00000000-0000-4000-8000-000000000003";
+
+// Deterministic, so the permutation tests give the same p-values every run
+function seededRandom(seed = 1): () => number {
+  return () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+  };
+}
+
+function samples(
+  endpoint: string,
+  clientTimes: number[],
+  overrides: Partial<ComparedSample> = {}
+): ComparedSample[] {
+  return clientTimes.map((clientTime) => ({
+    endpoint,
+    clientTime,
+    serverTime: clientTime / 4,
+    error: null,
+    warmup: false,
+    ...overrides,
+  }));
+}
+
+function stored(endpoint: string, clientTimes: number[]): ResultSample[] {
+  return clientTimes.map((clientTime, i) => ({
+    endpoint,
+    runId: i + 1,
+    warmup: i === 0,
+    clientTime,
+    serverTime: clientTime / 4,
+    binding: "NON_CACHED_DB_HELSINKI",
+    error: null,
+    colo: "HEL",
+  }));
+}
+
+const STEADY = [100, 102, 98, 101, 99, 100, 103, 97, 100, 101];
+const SLOWER = STEADY.map((time) => time * 1.5);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+  const sql = pg(postgres.url, { max: 1 });
+  try {
+    await insertResultSession(
+      sql,
+      {
+        sessionId: BASELINE_SESSION,
+        workload: "random",
+        samples: stored("non-cached-query", [900, ...STEADY]),
+      },
+      "test"
+    );
+    await insertResultSession(
+      sql,
+      {
+        sessionId: SLOWER_SESSION,
+        workload: "random",
+        samples: stored("non-cached-query", [900, ...SLOWER]),
+      },
+      "test"
+    );
+  } finally {
+    await sql.end();
+  }
+});
+
+afterAll(async () => {
+  await postgres?.stop();
+});
+
+async function call(
+  handler: (event: any) => Response | Promise<Response>,
+  path: string,
+  init: RequestInit & { params?: Record<string, string> } = {}
+): Promise<Response> {
+  const platform = createPlatform(postgres.url);
+  const url = new URL(`http://localhost${path}`);
+  try {
+    return await handler({
+      params: init.params ?? {},
+      platform,
+      url,
+      request: new Request(url, init),
+    });
+  } finally {
+    await Promise.all(platform.pending);
+  }
+}
+
+function post(name: string, sessionId: string) {
+  return call(baselinesRoute.POST, "/api/baselines", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, sessionId, description: "before" }),
+  });
+}
+
+describe("insertResultSession", () => {
+  test("stores the largest session a request may post", async () => {
+    const times = Array.from({ length: MAX_SAMPLES_PER_SESSION }, () => 100);
+    const sql = pg(postgres.url, { max: 1 });
+    try {
+      const count = await insertResultSession(
+        sql,
+        {
+          sessionId: LARGEST_SESSION,
+          workload: "random",
+          samples: stored("non-cached-query", times),
+        },
+        "test"
+      );
+      expect(count).toBe(MAX_SAMPLES_PER_SESSION);
+      const [{ stored: rows }] = await sql`
+        SELECT count(*)::int AS stored FROM benchmark_runs
+        WHERE session_id = ${LARGEST_SESSION}
+      `;
+      expect(rows).toBe(MAX_SAMPLES_PER_SESSION);
+    } finally {
+      await sql.end();
+    }
+  });
+});
+
+describe("compareSessions", () => {
+  test("flags a significant slowdown above both limits as a regression", () => {
+    const comparison = compareSessions(
+      "a",
+      samples("non-cached-query", STEADY),
+      "b",
+      samples("non-cached-query", SLOWER),
+      undefined,
+      seededRandom()
+    );
+    expect(comparison.passed).toBe(false);
+    expect(comparison.endpoints).toHaveLength(1);
+    expect(comparison.endpoints[0]).toMatchObject({
+      endpoint: "non-cached-query",
+      baselineMedian: 100,
+      candidateMedian: 150,
+      deltaMs: 50,
+      percentChange: 50,
+      significant: true,
+      verdict: "regression",
+    });
+  });
+
+  test("a significant slowdown within the limits still passes", () => {
+    const { thresholds } = parseThresholds(
+      new URLSearchParams({ maxRegressionPercent: "60" })
+    );
+    const comparison = compareSessions(
+      "a",
+      samples("non-cached-query", STEADY),
+      "b",
+      samples("non-cached-query", SLOWER),
+      thresholds!,
+      seededRandom()
+    );
+    expect(comparison.passed).toBe(true);
+    expect(comparison.endpoints[0].verdict).toBe("unchanged");
+  });
+
+  test("reports improvements and endpoints missing from the baseline", () => {
+    const comparison = compareSessions(
+      "a",
+      [
+        ...samples("non-cached-query", SLOWER),
+        ...samples("bun-non-cached-hel", [1], { error: "HTTP 502" }),
+      ],
+      "b",
+      [
+        ...samples("non-cached-query", STEADY),
+        ...samples("non-cached-query", [5000], { warmup: true }),
+        ...samples("bun-non-cached-hel", STEADY),
+      ],
+      undefined,
+      seededRandom()
+    );
+    expect(comparison.passed).toBe(true);
+    expect(
+      comparison.endpoints.map(({ endpoint, verdict }) => [endpoint, verdict])
+    ).toEqual([
+      ["non-cached-query", "improvement"],
+      ["bun-non-cached-hel", "missing"],
+    ]);
+    expect(comparison.endpoints[0].candidateCount).toBe(STEADY.length);
+  });
+
+  test("an endpoint that stopped answering is a regression", () => {
+    const comparison = compareSessions(
+      "a",
+      samples("bun-non-cached-hel", STEADY),
+      "b",
+      samples("bun-non-cached-hel", STEADY, { error: "HTTP 502" }),
+      undefined,
+      seededRandom()
+    );
+    expect(comparison.passed).toBe(false);
+    expect(comparison.endpoints[0]).toMatchObject({
+      baselineCount: STEADY.length,
+      candidateCount: 0,
+      deltaMs: null,
+      verdict: "regression",
+    });
+  });
+
+  test("compares server time when asked", () => {
+    const { thresholds } = parseThresholds(
+      new URLSearchParams({ metric: "server", maxRegressionMs: "20" })
+    );
+    const comparison = compareSessions(
+      "a",
+      samples("non-cached-query", STEADY),
+      "b",
+      samples("non-cached-query", SLOWER),
+      thresholds!,
+      seededRandom()
+    );
+    // Server times are a quarter: +12.5 ms is under the 20 ms limit
+    expect(comparison.endpoints[0].deltaMs).toBe(12.5);
+    expect(comparison.passed).toBe(true);
+  });
+
+  test.each([
+    [{ metric: "total" }, "metric"],
+    [{ maxRegressionPercent: "-1" }, "maxRegressionPercent"],
+    [{ maxRegressionMs: "abc" }, "maxRegressionMs"],
+    [{ alpha: "1" }, "alpha"],
+  ])("rejects thresholds %o", (params, message) => {
+    expect(parseThresholds(new URLSearchParams(params)).error).toContain(
+      message
+    );
+  });
+});
+
+describe("/api/baselines", () => {
+  test("saves, lists, reads and deletes a baseline", async () => {
+    const saved = await post("release-1.0", BASELINE_SESSION);
+    expect(saved.status).toBe(201);
+    expect(await readJson(saved)).toMatchObject({
+      name: "release-1.0",
+      sessionId: BASELINE_SESSION,
+      description: "before",
+    });
+
+    const list = await readJson(
+      await call(baselinesRoute.GET, "/api/baselines")
+    );
+    expect(list.baselines.map((b: any) => b.name)).toContain("release-1.0");
+
+    const params = { name: "release-1.0" };
+    const read = await call(baselineRoute.GET, "/api/baselines/release-1.0", {
+      params,
+    });
+    expect((await readJson(read)).sessionId).toBe(BASELINE_SESSION);
+
+    const deleted = await call(
+      baselineRoute.DELETE,
+      "/api/baselines/release-1.0",
+      { method: "DELETE", params }
+    );
+    expect(deleted.status).toBe(204);
+    await expect(
+      call(baselineRoute.GET, "/api/baselines/release-1.0", { params })
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  test("saving an existing name moves it to the new session", async () => {
+    await post("moving", BASELINE_SESSION);
+    const moved = await readJson(await post("moving", SLOWER_SESSION));
+    expect(moved.sessionId).toBe(SLOWER_SESSION);
+  });
+
+  test("rejects invalid names and unknown sessions", async () => {
+    await expect(post("no spaces", BASELINE_SESSION)).rejects.toMatchObject({
+      status: 400,
+    });
+    await expect(post("unknown", UNKNOWN_SESSION)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
+
+describe("GET /api/compare", () => {
+  test("compares a session against a named baseline", async () => {
+    await post("main", BASELINE_SESSION);
+    const response = await call(
+      compareGET,
+      `/api/compare?baseline=main&sessionId=${SLOWER_SESSION}`
+    );
+    const comparison = await readJson(response);
+    expect(response.status).toBe(200);
+    expect(comparison).toMatchObject({
+      baseline: "main",
+      baselineSessionId: BASELINE_SESSION,
+      candidateSessionId: SLOWER_SESSION,
+      passed: false,
+    });
+    // The 900 ms warm-up in both sessions is left out
+    expect(comparison.endpoints[0]).toMatchObject({
+      endpoint: "non-cached-query",
+      baselineMedian: 100,
+      candidateMedian: 150,
+      baselineCount: STEADY.length,
+      verdict: "regression",
+    });
+  });
+
+  test("compares two sessions directly", async () => {
+    const comparison = await readJson(
+      await call(
+        compareGET,
+        `/api/compare?baselineSessionId=${SLOWER_SESSION}&sessionId=${BASELINE_SESSION}&maxRegressionMs=1`
+      )
+    );
+    expect(comparison.passed).toBe(true);
+    expect(comparison.endpoints[0].verdict).toBe("improvement");
+  });
+
+  test.each([
+    [`/api/compare?baseline=main`, 400],
+    [`/api/compare?sessionId=${SLOWER_SESSION}`, 400],
+    [`/api/compare?baseline=main&sessionId=${SLOWER_SESSION}&alpha=2`, 400],
+    [`/api/compare?baseline=nope&sessionId=${SLOWER_SESSION}`, 404],
+    [`/api/compare?baseline=main&sessionId=${UNKNOWN_SESSION}`, 404],
+  ])("%s is a %d", async (path, status) => {
+    await post("main", BASELINE_SESSION);
+    await expect(call(compareGET, path)).rejects.toMatchObject({ status });
+  });
+});
@@ -0,0 +1,117 @@
+// tests/api-bench.test.ts - GET /api/bench/[endpoint], repeated queries from inside the Worker
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  test,
+} from "bun:test";
+import { GET } from "../src/routes/api/bench/[endpoint]/+server";
+import {
+  createPlatform,
+  readJson,
+  startBunServer,
+  startPostgres,
+  upstreamFetch,
+  type FakePlatform,
+  type LocalBunServer,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+let bunServer: LocalBunServer;
+
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+  bunServer = await startBunServer(postgres.url);
+});
+
+afterAll(async () => {
+  await bunServer?.stop();
+  await postgres?.stop();
+});
+
+async function bench(
+  endpoint: string,
+  query: string,
+  platform: FakePlatform = createPlatform(postgres.url)
+): Promise<Response> {
+  const url = new URL(`http://localhost/api/bench/${endpoint}${query}`);
+  try {
+    return await GET({
+      fetch: upstreamFetch(bunServer.origin).fetch,
+      params: { endpoint },
+      locals: {},
+      platform,
+      url,
+      request: new Request(url),
+    } as unknown as Parameters<typeof GET>[0]);
+  } finally {
+    await Promise.all(platform.pending);
+  }
+}
+
+describe("GET /api/bench/[endpoint]", () => {
+  test("runs every iteration and summarizes them", async () => {
+    const response = await bench(
+      "non-cached-query",
+      "?iterations=5&concurrency=2"
+    );
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    const body = await readJson(response);
+
+    expect(body).toMatchObject({
+      endpoint: "non-cached-query",
+      type: "hyperdrive",
+      workload: "random",
+      connMode: "per-request",
+      iterations: 5,
+      concurrency: 2,
+      errorCount: 0,
+      errors: {},
+    });
+    expect(body.samples.map((s: any) => s.iteration)).toEqual([0, 1, 2, 3, 4]);
+    expect(body.stats.wallTime.count).toBe(5);
+    expect(body.stats.serverTime.p50).toBeNumber();
+  });
+
+  test("proxied endpoints report no connection mode", async () => {
+    const body = await readJson(
+      await bench("bun-non-cached-hel", "?iterations=2")
+    );
+    expect(body).toMatchObject({ connMode: null, queries: 1, errorCount: 0 });
+  });
+
+  test("failed iterations are counted by error", async () => {
+    const body = await readJson(
+      await bench(
+        "non-cached-query",
+        "?iterations=3",
+        createPlatform(postgres.url, ["NO-CACHED-DB-BUNVHD"])
+      )
+    );
+    expect(body.errorCount).toBe(3);
+    expect(Object.values(body.errors)).toEqual([3]);
+    expect(body.stats.wallTime.count).toBe(0);
+  });
+
+  test.each([
+    ["?iterations=0", 400],
+    ["?iterations=201", 400],
+    ["?concurrency=7", 400],
+  ])("%s is a %d", async (query, status) => {
+    await expect(bench("non-cached-query", query)).rejects.toMatchObject({
+      status,
+    });
+  });
+
+  test("unknown endpoints are a 404", async () => {
+    await expect(bench("cached-query-mars", "")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
@@ -0,0 +1,374 @@
+// tests/api-endpoint.test.ts - GET /api/[endpoint] against local stand-ins
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  test,
+} from "bun:test";
+import { BACKENDS } from "../src/lib/backends";
+import { CONN_MODES } from "../src/lib/connmodes";
+import { ENDPOINT_CONFIG, REGIONS } from "../src/lib/endpoints";
+import { GET } from "../src/routes/api/[endpoint]/+server";
+import {
+  createPlatform,
+  startBunServer,
+  startPostgres,
+  upstreamFetch,
+  type FakePlatform,
+  type LocalBunServer,
+  readJson,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+let bunServer: LocalBunServer;
+
+// Starting PGlite and seeding it takes a few seconds on slow machines
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+  bunServer = await startBunServer(postgres.url);
+});
+
+afterAll(async () => {
+  await bunServer?.stop();
+  await postgres?.stop();
+});
+
+interface CallOptions {
+  query?: string;
+  platform?: FakePlatform | null;
+  fetch?: typeof fetch;
+}
+
+function callEndpoint(
+  endpoint: string,
+  { query = "", platform, fetch: fetchImpl }: CallOptions = {}
+): Promise<Response> {
+  const url = new URL(`http://localhost/api/${endpoint}${query}`);
+  const resolvedPlatform =
+    platform === undefined ? createPlatform(postgres.url) : platform;
+  return Promise.resolve(
+    GET({
+      fetch: fetchImpl ?? upstreamFetch(bunServer.origin).fetch,
+      params: { endpoint },
+      locals: {},
+      platform: resolvedPlatform ?? undefined,
+      url,
+      request: new Request(url),
+    } as unknown as Parameters<typeof GET>[0])
+  );
+}
+
+describe("every endpoint", () => {
+  test.each(Object.keys(ENDPOINT_CONFIG))("%s returns a city", async (key) => {
+    const config = ENDPOINT_CONFIG[key];
+    const platform = createPlatform(postgres.url, [], bunServer.wsProxyUrl);
+    const upstream = upstreamFetch(bunServer.origin);
+
+    const response = await callEndpoint(key, {
+      query: config.cached ? "?cdnCache=30" : "",
+      platform,
+      fetch: upstream.fetch,
+    });
+    const body = await readJson(response);
+
+    expect(response.status).toBe(200);
+    expect(body.error).toBeNull();
+    expect(body.data).toHaveLength(1);
+    expect(body.binding).toBe(config.displayName);
+    expect(body.originalEndpoint).toBe(key);
+    expect(body.dynamicPath).toBe(false);
+    expect(body.timings.totalMs).toBeNumber();
+    expect(response.headers.get("Server-Timing")).toContain("total;dur=");
+
+    if (BACKENDS[config.type].workerConnects) {
+      // The per-request client is closed after the response via waitUntil
+      expect(platform.pending).toHaveLength(1);
+      await Promise.all(platform.pending);
+      expect(upstream.requests).toHaveLength(0);
+      expect(body.timings.connectMs).toBeNumber();
+    } else {
+      expect(upstream.requests).toHaveLength(1);
+      expect(upstream.requests[0].origin).toBe(
+        new URL(REGIONS[config.region].restUrl).origin
+      );
+      expect(body.timings.upstreamMs).toBeNumber();
+    }
+  });
+});
+
+describe("cache headers", () => {
+  test("cached endpoints are CDN-cacheable when cdnCache is set", async () => {
+    const response = await callEndpoint("cached-query", {
+      query: "?cdnCache=45",
+    });
+    expect(response.headers.get("Cache-Control")).toBe(
+      "public, max-age=45, s-maxage=45"
+    );
+    expect(response.headers.get("CDN-Cache-Control")).toBe("max-age=45");
+    expect(response.headers.get("Vary")).toBe("Origin");
+  });
+
+  test("responses without cdnCache are never stored", async () => {
+    const response = await callEndpoint("non-cached-query");
+    expect(response.headers.get("Cache-Control")).toBe(
+      "no-store, no-cache, must-revalidate, proxy-revalidate, max-age=0"
+    );
+    expect(response.headers.get("Pragma")).toBe("no-cache");
+    expect(response.headers.get("Expires")).toBe("0");
+    expect(response.headers.get("Surrogate-Control")).toBe("no-store");
+  });
+
+  test("dynamic paths are never stored, even with cdnCache", async () => {
+    const response = await callEndpoint("cached-query-us-west-1715000000000", {
+      query: "?cdnCache=30",
+    });
+    const body = await readJson(response);
+    expect(body.dynamicPath).toBe(true);
+    expect(body.originalEndpoint).toBe("cached-query-us-west");
+    expect(response.headers.get("Cache-Control")).toStartWith("no-store");
+  });
+
+  test("write workloads ignore cdnCache", async () => {
+    const response = await callEndpoint("cached-query", {
+      query: "?cdnCache=30&workload=write",
+    });
+    const body = await readJson(response);
+    expect(body.error).toBeNull();
+    expect(body.workload).toBe("write");
+    expect(response.headers.get("Cache-Control")).toStartWith("no-store");
+  });
+});
+
+describe("cache generations", () => {
+  test("each render gets a new generation from the isolate counter", async () => {
+    const first = await readJson(await callEndpoint("cached-query"));
+    const second = await readJson(await callEndpoint("cached-query"));
+    expect(first.generation.id).not.toBe(second.generation.id);
+    expect(second.generation.originRequest).toBeGreaterThan(
+      first.generation.originRequest
+    );
+    expect(second.upstream).toBeNull();
+  });
+
+  test("proxies report the Bun REST API's generation", async () => {
+    const body = await readJson(
+      await callEndpoint("bun-cached-hel", { query: "?cdnCache=30" })
+    );
+    expect(body.upstream.generation.id).toBeString();
+    expect(body.upstream.generation.id).not.toBe(body.generation.id);
+    expect(body.upstream.cacheStatus).toBeNull();
+  });
+
+  test("proxies pass on the upstream CF-Cache-Status and Age", async () => {
+    const generation = {
+      id: "cached-render",
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      originRequest: 7,
+    };
+    const upstream = upstreamFetch(() =>
+      Response.json(
+        { data: [], timeMs: 1, binding: "x", error: null, generation },
+        { headers: { "CF-Cache-Status": "hit", Age: "12" } }
+      )
+    );
+    const body = await readJson(
+      await callEndpoint("bun-cached-hel", {
+        query: "?cdnCache=30",
+        fetch: upstream.fetch,
+      })
+    );
+    expect(body.upstream).toEqual({
+      generation,
+      cacheStatus: "HIT",
+      ageSeconds: 12,
+    });
+  });
+});
+
+describe("dynamic-path suffixes", () => {
+  test("Hyperdrive endpoints accept a timestamp-random suffix", async () => {
+    const response = await callEndpoint(
+      "non-cached-query-us-east-1715000000000-42"
+    );
+    const body = await readJson(response);
+    expect(body.error).toBeNull();
+    expect(body.dynamicPath).toBe(true);
+    expect(body.originalEndpoint).toBe("non-cached-query-us-east");
+  });
+
+  test("proxies forward the suffix as a cache-busting dynamicId", async () => {
+    const upstream = upstreamFetch(bunServer.origin);
+    const response = await callEndpoint("bun-cached-hel-1715000000000-7", {
+      query: "?cdnCache=30",
+      fetch: upstream.fetch,
+    });
+    const body = await readJson(response);
+    expect(body.error).toBeNull();
+
+    const params = upstream.requests[0].searchParams;
+    expect(params.get("_nc")).toBe("true");
+    expect(params.get("dynamicId")).toBe("1715000000000-7");
+    expect(params.get("cdnCache")).toBe("30");
+  });
+
+  test("cached proxies without a suffix are not cache-busted", async () => {
+    const upstream = upstreamFetch(bunServer.origin);
+    await callEndpoint("bun-cached-us-east", {
+      query: "?cdnCache=30",
+      fetch: upstream.fetch,
+    });
+    const params = upstream.requests[0].searchParams;
+    expect(params.has("_nc")).toBe(false);
+    expect(params.get("cdnCache")).toBe("30");
+  });
+});
+
+describe("connection modes", () => {
+  test.each([...CONN_MODES])(
+    "%s runs every query and reports itself",
+    async (mode) => {
+      const platform = createPlatform(postgres.url);
+      const response = await callEndpoint("non-cached-query", {
+        query: `?connMode=${mode}&queries=3&workload=point-lookup&id=4`,
+        platform,
+      });
+      const body = await readJson(response);
+      expect(body.error).toBeNull();
+      expect(body.connMode).toBe(mode);
+      expect(body.queries).toBe(3);
+      expect(body.data.map((city: any) => city.city_id)).toEqual([4]);
+      expect(body.timings.firstQueryMs).toBeLessThanOrEqual(body.timeMs);
+      expect(body.timings.connectMs + body.timings.queryMs).toBeLessThanOrEqual(
+        body.timeMs + 0.001
+      );
+      await Promise.all(platform.pending);
+    }
+  );
+
+  test("the default is one query on a per-request client", async () => {
+    const body = await readJson(await callEndpoint("non-cached-query"));
+    expect(body.connMode).toBe("per-request");
+    expect(body.queries).toBe(1);
+  });
+
+  test("the Bun REST proxy reports no connection mode", async () => {
+    const body = await readJson(
+      await callEndpoint("bun-non-cached-hel", { query: "?connMode=reuse" })
+    );
+    expect(body.error).toBeNull();
+    expect(body.connMode).toBeNull();
+    expect(body.queries).toBe(1);
+  });
+
+  test.each(["?connMode=pooled", "?queries=0", "?queries=21", "?queries=x"])(
+    "%s is a 400",
+    async (query) => {
+      await expect(
+        callEndpoint("non-cached-query", { query })
+      ).rejects.toMatchObject({ status: 400 });
+    }
+  );
+});
+
+describe("upstream failures", () => {
+  test("error bodies from the Bun REST API are reported", async () => {
+    const upstream = upstreamFetch(
+      () => new Response("upstream exploded", { status: 502 })
+    );
+    const response = await callEndpoint("bun-non-cached-us-west", {
+      fetch: upstream.fetch,
+    });
+    const body = await readJson(response);
+    expect(response.status).toBe(200);
+    expect(body.data).toBeNull();
+    expect(body.error).toBe("REST API returned 502: upstream exploded");
+  });
+
+  test("malformed JSON is reported instead of thrown", async () => {
+    const upstream = upstreamFetch(
+      () => new Response("{not json", { status: 200 })
+    );
+    const response = await callEndpoint("bun-non-cached-us-west", {
+      fetch: upstream.fetch,
+    });
+    const body = await readJson(response);
+    expect(body.data).toBeNull();
+    expect(body.error).toBeString();
+  });
+
+  test("errors inside a successful response are passed through", async () => {
+    const upstream = upstreamFetch(() =>
+      Response.json({
+        data: null,
+        timeMs: 1.5,
+        binding: "DATABASE_URL",
+        error: "connection reset",
+      })
+    );
+    const response = await callEndpoint("bun-non-cached-hel", {
+      fetch: upstream.fetch,
+    });
+    const body = await readJson(response);
+    expect(body.error).toBe("connection reset");
+    expect(body.timeMs).toBe(1.5);
+  });
+
+  test("a single city from older Bun servers becomes an array", async () => {
+    const city = { city_id: 1, city_name: "Tokyo" };
+    const upstream = upstreamFetch(() =>
+      Response.json({ data: city, timeMs: 2, binding: "x", error: null })
+    );
+    const response = await callEndpoint("bun-non-cached-hel", {
+      fetch: upstream.fetch,
+    });
+    const body = await readJson(response);
+    expect(body.data).toEqual([city]);
+  });
+
+  test("database errors are reported and the client still closed", async () => {
+    // Nothing listens on port 1, so connecting fails straight away
+    const platform = createPlatform("postgres://postgres@127.0.0.1:1/none");
+    const response = await callEndpoint("non-cached-query", { platform });
+    const body = await readJson(response);
+    expect(body.data).toBeNull();
+    expect(body.error).toBeString();
+    expect(platform.pending).toHaveLength(1);
+    await Promise.all(platform.pending);
+  });
+});
+
+describe("request errors", () => {
+  test("a missing Hyperdrive binding is a 500", async () => {
+    const platform = createPlatform(postgres.url, ["CACHED-DB-BUNVHD-US-EAST"]);
+    await expect(
+      callEndpoint("cached-query-us-east", { platform })
+    ).rejects.toMatchObject({ status: 500 });
+    // Other regions are unaffected
+    const response = await callEndpoint("cached-query-us-west", { platform });
+    expect((await readJson(response)).error).toBeNull();
+  });
+
+  test("a missing platform env is a 500", async () => {
+    await expect(
+      callEndpoint("cached-query", { platform: null })
+    ).rejects.toMatchObject({ status: 500 });
+  });
+
+  test("unknown endpoints are a 404", async () => {
+    await expect(callEndpoint("cached-query-mars")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  test("unknown workloads are a 400", async () => {
+    await expect(
+      callEndpoint("cached-query", { query: "?workload=nope" })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,155 @@
+// tests/api-health.test.ts - GET /api/health preflight checks
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  test,
+} from "bun:test";
+import { ENDPOINT_CONFIG } from "../src/lib/endpoints";
+import { GET } from "../src/routes/api/health/+server";
+import {
+  createPlatform,
+  readJson,
+  startBunServer,
+  startPostgres,
+  upstreamFetch,
+  type FakePlatform,
+  type LocalBunServer,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+let bunServer: LocalBunServer;
+
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+  bunServer = await startBunServer(postgres.url);
+});
+
+afterAll(async () => {
+  await bunServer?.stop();
+  await postgres?.stop();
+});
+
+async function callHealth(
+  platform: FakePlatform | null,
+  fetchImpl: typeof fetch = upstreamFetch(bunServer.origin).fetch
+): Promise<Response> {
+  const url = new URL("http://localhost/api/health");
+  const response = await GET({
+    fetch: fetchImpl,
+    params: {},
+    platform: platform ?? undefined,
+    url,
+    request: new Request(url),
+  } as unknown as Parameters<typeof GET>[0]);
+  if (platform) await Promise.all(platform.pending);
+  return response;
+}
+
+const HYPERDRIVE_KEYS = Object.values(ENDPOINT_CONFIG)
+  .filter((config) => config.type === "hyperdrive")
+  .map((config) => config.key);
+const PROXY_KEYS = Object.values(ENDPOINT_CONFIG)
+  .filter((config) => config.type === "bun-rest-proxy")
+  .map((config) => config.key);
+const WEBSOCKET_KEYS = Object.values(ENDPOINT_CONFIG)
+  .filter((config) => config.type === "pg-websocket")
+  .map((config) => config.key);
+
+describe("GET /api/health", () => {
+  test("every endpoint is checked and healthy", async () => {
+    const upstream = upstreamFetch(bunServer.origin);
+    const response = await callHealth(
+      createPlatform(postgres.url, [], bunServer.wsProxyUrl),
+      upstream.fetch
+    );
+    const report = await readJson(response);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(report.ok).toBe(true);
+    expect(Object.keys(report.endpoints).sort()).toEqual(
+      Object.keys(ENDPOINT_CONFIG).sort()
+    );
+    for (const check of Object.values<any>(report.endpoints)) {
+      expect(check).toMatchObject({ ok: true, error: null });
+      expect(check.timeMs).toBeNumber();
+    }
+    expect(upstream.requests.map((url) => url.pathname)).toEqual(
+      PROXY_KEYS.map(() => "/readyz")
+    );
+  });
+
+  test("a missing binding fails only its endpoint", async () => {
+    const response = await callHealth(
+      createPlatform(postgres.url, ["CACHED-DB-BUNVHD-US-WEST"])
+    );
+    const report = await readJson(response);
+    expect(response.status).toBe(503);
+    expect(report.ok).toBe(false);
+    expect(report.endpoints["cached-query-us-west"]).toEqual({
+      ok: false,
+      timeMs: 0,
+      error: "Hyperdrive binding CACHED-DB-BUNVHD-US-WEST not found",
+    });
+    expect(report.endpoints["non-cached-query-us-west"].ok).toBe(true);
+  });
+
+  test("an unreachable database fails every Hyperdrive endpoint", async () => {
+    const report = await readJson(
+      await callHealth(createPlatform("postgres://postgres@127.0.0.1:1/none"))
+    );
+    for (const key of HYPERDRIVE_KEYS) {
+      expect(report.endpoints[key].ok).toBe(false);
+      expect(report.endpoints[key].error).toBeString();
+    }
+    for (const key of PROXY_KEYS) {
+      expect(report.endpoints[key].ok).toBe(true);
+    }
+  });
+
+  test("a Bun server that is not ready fails its proxies", async () => {
+    const upstream = upstreamFetch(() =>
+      Response.json(
+        { status: "unavailable", error: "connection refused" },
+        { status: 503 }
+      )
+    );
+    const report = await readJson(
+      await callHealth(createPlatform(postgres.url), upstream.fetch)
+    );
+    for (const key of PROXY_KEYS) {
+      expect(report.endpoints[key]).toMatchObject({
+        ok: false,
+        error: "Bun REST API not ready (HTTP 503: connection refused)",
+      });
+    }
+  });
+
+  test("WebSocket endpoints need their secret and a reachable proxy", async () => {
+    const missing = await readJson(
+      await callHealth(createPlatform(postgres.url))
+    );
+    expect(missing.endpoints["ws-cached-hel"].error).toBe(
+      "WebSocket secret WS-DB-BUNVHD not found"
+    );
+
+    const unreachable = await readJson(
+      await callHealth(createPlatform(postgres.url, [], "ws://127.0.0.1:1/v2"))
+    );
+    for (const key of WEBSOCKET_KEYS) {
+      expect(unreachable.endpoints[key].ok).toBe(false);
+      expect(unreachable.endpoints[key].error).toContain("WebSocket");
+    }
+    expect(unreachable.endpoints["cached-query"].ok).toBe(true);
+  });
+
+  test("a missing platform env is a 500", async () => {
+    await expect(callHealth(null)).rejects.toMatchObject({ status: 500 });
+  });
+});
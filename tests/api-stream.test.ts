@@ -0,0 +1,345 @@
+// tests/api-stream.test.ts - Benchmark plans streamed over SSE and WebSockets
+/// <reference types="bun" />
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  setDefaultTimeout,
+  test,
+} from "bun:test";
+import type { BenchmarkResult } from "../src/lib/measure";
+import {
+  parseBenchmarkPlan,
+  runBenchmarkPlan,
+  type BenchmarkEvent,
+  type BenchmarkPlan,
+} from "../src/lib/stream";
+import { GET } from "../src/routes/api/stream/+server";
+import {
+  createPlatform,
+  routeFetch,
+  startPostgres,
+  type FakePlatform,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+});
+
+afterAll(async () => {
+  await postgres?.stop();
+});
+
+const ENDPOINTS = "cached-query-us-east,non-cached-query-us-east";
+
+function plan(query: string): BenchmarkPlan {
+  const { plan, error } = parseBenchmarkPlan(new URLSearchParams(query));
+  if (!plan) throw new Error(error!);
+  return plan;
+}
+
+function ok(clientTime: number): BenchmarkResult {
+  return { clientTime, serverTime: 1, binding: "B", error: null };
+}
+
+async function collect(
+  benchmarkPlan: BenchmarkPlan,
+  options: { resumeAfter?: number; signal?: AbortSignal } = {},
+  measure = async () => ok(10)
+): Promise<BenchmarkEvent[]> {
+  const events: BenchmarkEvent[] = [];
+  await runBenchmarkPlan(benchmarkPlan, measure, {
+    emit: (event) => events.push(event),
+    ...options,
+  });
+  return events;
+}
+
+describe("parseBenchmarkPlan", () => {
+  test("defaults to every endpoint, like the page", () => {
+    const defaults = plan("");
+    expect(defaults).toMatchObject({
+      runs: 5,
+      warmupRuns: 1,
+      delayMs: 3000,
+      params: {},
+    });
+    expect(defaults.endpoints.length).toBeGreaterThan(2);
+  });
+
+  test("forwards the workload and connection mode", () => {
+    expect(
+      plan("endpoints=cached-query&workload=aggregate&connMode=reuse&queries=3")
+        .params
+    ).toEqual({ workload: "aggregate", connMode: "reuse", queries: "3" });
+  });
+
+  test.each([
+    ["endpoints=nowhere", "Unknown endpoints: nowhere"],
+    ["runs=0", "runs must be"],
+    ["runs=2&warmup=2", "warmup must be"],
+    ["delay=-1", "delay must be"],
+    ["workload=everything", "Unknown workload"],
+    ["connMode=telepathy", "Unknown connMode"],
+  ])("rejects %s", (query, message) => {
+    expect(parseBenchmarkPlan(new URLSearchParams(query)).error).toContain(
+      message
+    );
+  });
+});
+
+describe("runBenchmarkPlan", () => {
+  const twoRuns = () => plan(`endpoints=${ENDPOINTS}&runs=2&delay=0&seed=7`);
+
+  test("emits every step in order, then a summary", async () => {
+    const events = await collect(twoRuns());
+    expect(events.map((event) => event.type)).toEqual([
+      "run-started",
+      "sample",
+      "sample",
+      "run-finished",
+      "run-started",
+      "sample",
+      "sample",
+      "run-finished",
+      "summary",
+    ]);
+    expect(events.map((event) => event.id)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9,
+    ]);
+    expect(events[0]).toMatchObject({ runId: 1, runs: 2, warmup: true });
+
+    const summary = events.at(-1)!;
+    if (summary.type !== "summary") throw new Error("No summary");
+    // The warm-up run is left out
+    expect(summary.endpoints[0].client.count).toBe(1);
+    expect(summary.cache.map((report) => report.endpoint)).toEqual([
+      "cached-query-us-east",
+    ]);
+  });
+
+  test("the seed fixes each run's order", async () => {
+    const orders = async () =>
+      (await collect(twoRuns()))
+        .filter((event) => event.type === "run-started")
+        .map((event) => (event.type === "run-started" ? event.order : []));
+    expect(await orders()).toEqual(await orders());
+  });
+
+  test("failed samples are endpoint errors and are counted", async () => {
+    const events = await collect(twoRuns(), {}, async () => ({
+      ...ok(5),
+      error: "HTTP 500",
+    }));
+    expect(events.filter((e) => e.type === "endpoint-error")).toHaveLength(4);
+    expect(events.find((e) => e.type === "run-finished")).toMatchObject({
+      errors: 2,
+    });
+  });
+
+  test("resuming skips the steps already received without measuring them", async () => {
+    let measured = 0;
+    const events = await collect(twoRuns(), { resumeAfter: 6 }, async () => {
+      measured++;
+      return ok(10);
+    });
+    expect(measured).toBe(1);
+    expect(events.map((event) => event.id)).toEqual([7, 8, 9]);
+    expect(events.at(-1)).toMatchObject({ type: "summary", resumedAfter: 6 });
+  });
+
+  test("an aborted plan stops before the next step, without a summary", async () => {
+    const controller = new AbortController();
+    const events = await collect(
+      twoRuns(),
+      { signal: controller.signal },
+      async () => {
+        controller.abort();
+        return ok(10);
+      }
+    );
+    expect(events.map((event) => event.type)).toEqual([
+      "run-started",
+      "sample",
+    ]);
+  });
+});
+
+function callStream(
+  query: string,
+  platform: FakePlatform = createPlatform(postgres.url),
+  headers: HeadersInit = {}
+): Promise<Response> {
+  const url = new URL(`http://localhost/api/stream?${query}`);
+  return Promise.resolve(
+    GET({
+      fetch: routeFetch(platform),
+      params: {},
+      platform,
+      url,
+      request: new Request(url, { headers }),
+    } as unknown as Parameters<typeof GET>[0])
+  );
+}
+
+// Parse a text/event-stream body into `{ id, event, data }` records
+function parseSse(text: string): { id?: string; event?: string; data: any }[] {
+  return text
+    .trim()
+    .split("\n\n")
+    .map((block) => {
+      const fields = Object.fromEntries(
+        block.split("\n").map((line) => {
+          const colon = line.indexOf(": ");
+          return [line.slice(0, colon), line.slice(colon + 2)];
+        })
+      );
+      return { ...fields, data: JSON.parse(fields.data) };
+    });
+}
+
+describe("GET /api/stream", () => {
+  test("streams a plan as Server-Sent Events", async () => {
+    const platform = createPlatform(postgres.url);
+    const response = await callStream(
+      `endpoints=${ENDPOINTS}&runs=2&warmup=0&delay=0`,
+      platform
+    );
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+
+    const events = parseSse(await response.text());
+    await Promise.all(platform.pending);
+    expect(events.map((event) => event.event)).toEqual([
+      "run-started",
+      "sample",
+      "sample",
+      "run-finished",
+      "run-started",
+      "sample",
+      "sample",
+      "run-finished",
+      "summary",
+    ]);
+    expect(events[1].id).toBe("2");
+    expect(events[1].data.result.binding).toContain("CACHED_DB_US_EAST");
+    expect(events[1].data.result.clientTime).toBeNumber();
+    const summary = events.at(-1)!.data;
+    expect(summary.endpoints.map((e: any) => e.client.count)).toEqual([2, 2]);
+  });
+
+  test("a missing binding is reported as an endpoint error", async () => {
+    const response = await callStream(
+      "endpoints=non-cached-query-us-east&runs=1&warmup=0",
+      createPlatform(postgres.url, ["NO-CACHED-DB-BUNVHD-US-EAST"])
+    );
+    const events = parseSse(await response.text());
+    expect(events[1]).toMatchObject({ event: "endpoint-error" });
+    expect(events[1].data.result.error).toContain("binding not found");
+  });
+
+  test("Last-Event-ID resumes after the events already received", async () => {
+    // An EventSource reconnecting keeps the URL's earlier resume point
+    const response = await callStream(
+      `endpoints=${ENDPOINTS}&runs=2&delay=0&seed=1&resume=3`,
+      createPlatform(postgres.url),
+      { "Last-Event-ID": "7" }
+    );
+    const events = parseSse(await response.text());
+    expect(events.map((event) => event.id)).toEqual(["8", "9"]);
+  });
+
+  test("an invalid plan is a 400", async () => {
+    await expect(callStream("runs=100")).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  test("WebSocket upgrades need the Workers runtime", async () => {
+    await expect(
+      callStream("runs=1", undefined, { Upgrade: "websocket" })
+    ).rejects.toMatchObject({ status: 426 });
+  });
+});
+
+// The part of a Workers WebSocket the route uses
+class FakeWebSocket {
+  sent: string[] = [];
+  closed: { code: number; reason: string } | null = null;
+  private listeners: Record<string, ((event: any) => void)[]> = {};
+  private onClose: () => void = () => {};
+  closedPromise = new Promise<void>((resolve) => (this.onClose = resolve));
+
+  accept() {}
+  send(data: string) {
+    this.sent.push(data);
+  }
+  close(code: number, reason: string) {
+    this.closed = { code, reason };
+    this.onClose();
+  }
+  addEventListener(type: string, listener: (event: any) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+  dispatch(type: string, event: unknown) {
+    for (const listener of this.listeners[type] ?? []) listener(event);
+  }
+}
+
+describe("GET /api/stream over a WebSocket", () => {
+  let server: FakeWebSocket;
+  const global = globalThis as { WebSocketPair?: unknown };
+
+  beforeEach(() => {
+    global.WebSocketPair = class {
+      0 = new FakeWebSocket();
+      1 = (server = new FakeWebSocket());
+    };
+  });
+
+  afterEach(() => {
+    delete global.WebSocketPair;
+  });
+
+  test("sends each event as a JSON message", async () => {
+    const platform = createPlatform(postgres.url);
+    const response = await callStream(
+      "endpoints=cached-query&runs=1&warmup=0",
+      platform,
+      { Upgrade: "websocket" }
+    );
+    expect(response.status).toBe(101);
+
+    await Promise.all(platform.pending);
+    await server.closedPromise;
+    const events = server.sent.map((message) => JSON.parse(message));
+    expect(events.map((event) => event.type)).toEqual([
+      "run-started",
+      "sample",
+      "run-finished",
+      "summary",
+    ]);
+    expect(server.closed).toEqual({ code: 1000, reason: "Finished" });
+  });
+
+  test("a cancel message stops the plan", async () => {
+    await callStream("endpoints=cached-query&runs=2&delay=60000", undefined, {
+      Upgrade: "websocket",
+    });
+    server.dispatch("message", { data: JSON.stringify({ type: "cancel" }) });
+
+    await server.closedPromise;
+    expect(server.closed).toEqual({ code: 1000, reason: "Cancelled" });
+    expect(
+      server.sent.map((message) => JSON.parse(message).type)
+    ).not.toContain("summary");
+  });
+});
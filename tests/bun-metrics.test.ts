@@ -0,0 +1,61 @@
+// tests/bun-metrics.test.ts - Prometheus rendering and the derived pool gauges
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import { createMetrics } from "../bun-metrics";
+
+describe("createMetrics", () => {
+  test("histograms are cumulative per workload", () => {
+    const metrics = createMetrics(2);
+    metrics.observeQuery("random", 0.003);
+    metrics.observeQuery("random", 0.2);
+    const text = metrics.render();
+    expect(text).toContain(
+      'bunvhd_query_duration_seconds_bucket{workload="random",le="0.001"} 0'
+    );
+    expect(text).toContain(
+      'bunvhd_query_duration_seconds_bucket{workload="random",le="0.005"} 1'
+    );
+    expect(text).toContain(
+      'bunvhd_query_duration_seconds_bucket{workload="random",le="0.25"} 2'
+    );
+    expect(text).toContain(
+      'bunvhd_query_duration_seconds_bucket{workload="random",le="+Inf"} 2'
+    );
+    expect(text).toContain(
+      'bunvhd_query_duration_seconds_count{workload="random"} 2'
+    );
+  });
+
+  test("work beyond the pool size is reported as waiting", async () => {
+    const metrics = createMetrics(2);
+    metrics.connectionUsed(1);
+    metrics.connectionUsed(2);
+    metrics.connectionUsed(3);
+    metrics.connectionClosed(3);
+
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const work = [1, 2, 3].map(() => metrics.trackPool(() => blocked));
+
+    let text = metrics.render();
+    expect(text).toContain('bunvhd_db_pool_connections{state="in_use"} 2');
+    expect(text).toContain('bunvhd_db_pool_connections{state="idle"} 0');
+    expect(text).toContain("bunvhd_db_pool_waiting 1");
+
+    release();
+    await Promise.all(work);
+    text = metrics.render();
+    expect(text).toContain('bunvhd_db_pool_connections{state="in_use"} 0');
+    expect(text).toContain('bunvhd_db_pool_connections{state="idle"} 2');
+    expect(text).toContain("bunvhd_db_pool_waiting 0");
+  });
+
+  test("request counters escape their labels", () => {
+    const metrics = createMetrics(1);
+    metrics.countRequest('/"odd"', 404);
+    metrics.countRequest('/"odd"', 404);
+    expect(metrics.render()).toContain(
+      'bunvhd_http_requests_total{route="/\\"odd\\"",status="404"} 2'
+    );
+  });
+});
@@ -0,0 +1,253 @@
+// tests/bun-restful-api.test.ts - The Bun REST API served without TLS
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  test,
+} from "bun:test";
+import pg from "postgres";
+import { openTunnelSocket } from "../src/lib/backends/wssocket";
+import {
+  startBunServer,
+  startPostgres,
+  type LocalBunServer,
+  readJson,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+let bunServer: LocalBunServer;
+
+// Starting PGlite and seeding it takes a few seconds on slow machines
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+  bunServer = await startBunServer(postgres.url);
+});
+
+afterAll(async () => {
+  await bunServer?.stop();
+  await postgres?.stop();
+});
+
+function get(query: string, headers: HeadersInit = {}): Promise<Response> {
+  return fetch(`${bunServer.origin}/${query}`, { headers });
+}
+
+describe("GET /", () => {
+  test("runs the selected workload", async () => {
+    const response = await get("?workload=paginated&page=2&pageSize=5");
+    const body = await readJson(response);
+    expect(response.status).toBe(200);
+    expect(body.error).toBeNull();
+    expect(body.workload).toBe("paginated");
+    expect(body.binding).toBe("DATABASE_URL");
+    expect(body.data).toHaveLength(5);
+    expect(body.payload.rows).toBe(5);
+    expect(body.timings.queryMs).toBe(body.timeMs);
+    expect(response.headers.get("Server-Timing")).toContain("query;dur=");
+  });
+
+  test("stamps each response with a new generation", async () => {
+    const first = (await readJson(await get(""))).generation;
+    const second = (await readJson(await get(""))).generation;
+    expect(first.id).not.toBe(second.id);
+    expect(second.originRequest).toBe(first.originRequest + 1);
+    expect(Date.parse(second.generatedAt)).not.toBeNaN();
+  });
+
+  test("pads the body to the requested size", async () => {
+    const response = await get("?bytes=4096");
+    const body = await readJson(response);
+    expect(body.payload.bytes).toBe(4096);
+  });
+
+  test("rejects unknown workloads with a 400", async () => {
+    const response = await get("?workload=nope");
+    expect(response.status).toBe(400);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+  });
+
+  test("answers other paths with a 404", async () => {
+    const response = await fetch(`${bunServer.origin}/nope`);
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("cache headers", () => {
+  test("cdnCache makes the response CDN-cacheable", async () => {
+    const response = await get("?cdnCache=30");
+    expect(response.headers.get("Cache-Control")).toBe(
+      "public, max-age=30, s-maxage=30"
+    );
+    expect(response.headers.get("CDN-Cache-Control")).toBe("max-age=30");
+    // 127.0.0.1 is not one of the regional hosts
+    expect(response.headers.get("X-Cache-Key")).toBe("/unknown/rest-api");
+  });
+
+  test("cacheTtl is accepted as an alias", async () => {
+    const response = await get("?cacheTtl=10");
+    expect(response.headers.get("Cache-Control")).toBe(
+      "public, max-age=10, s-maxage=10"
+    );
+  });
+
+  test("responses are not stored by default", async () => {
+    const response = await get("?_nc=true");
+    expect(response.headers.get("Cache-Control")).toBe("no-store, max-age=0");
+  });
+
+  test("writes are never cached", async () => {
+    const response = await get("?workload=write&cdnCache=30");
+    expect((await readJson(response)).error).toBeNull();
+    expect(response.headers.get("Cache-Control")).toBe("no-store, max-age=0");
+  });
+});
+
+describe("CORS", () => {
+  test("allowed origins are reflected", async () => {
+    const origin = "http://localhost:5173";
+    const response = await get("", { Origin: origin });
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(origin);
+    expect(response.headers.get("Timing-Allow-Origin")).toBe(origin);
+  });
+
+  test("other origins get no CORS headers", async () => {
+    const response = await get("", { Origin: "https://example.com" });
+    expect(response.headers.has("Access-Control-Allow-Origin")).toBe(false);
+  });
+
+  test("preflight requests are answered", async () => {
+    const response = await fetch(bunServer.origin, {
+      method: "OPTIONS",
+      headers: { Origin: "https://bunvhd.tripcafe.org" },
+    });
+    expect(response.status).toBe(204);
+    expect(response.headers.get("Access-Control-Allow-Methods")).toBe(
+      "GET, POST, PATCH, DELETE, OPTIONS"
+    );
+  });
+});
+
+describe("health endpoints", () => {
+  test("/healthz answers while the process is up", async () => {
+    const response = await get("healthz");
+    expect(response.status).toBe(200);
+    const body = await readJson(response);
+    expect(body.status).toBe("ok");
+    expect(body.uptimeSeconds).toBeGreaterThan(0);
+  });
+
+  test("/readyz round-trips the database", async () => {
+    const response = await get("readyz");
+    expect(response.status).toBe(200);
+    const body = await readJson(response);
+    expect(body).toMatchObject({ status: "ready", error: null });
+    expect(body.timeMs).toBeNumber();
+  });
+
+  test("/version reports the build and a config summary", async () => {
+    const body = await readJson(await get("version"));
+    expect(body.version).toBe("0.0.1");
+    expect(body.build).toBeString();
+    expect(body.config).toMatchObject({
+      hostname: "127.0.0.1",
+      tls: false,
+      poolSize: 10,
+      wsProxy: true,
+    });
+    expect(JSON.stringify(body)).not.toContain(postgres.url);
+  });
+
+  test("fault parameters are refused while FAULT_INJECTION is off", async () => {
+    const response = await get("?fault=latency:100");
+    expect(response.status).toBe(403);
+    expect((await readJson(response)).error).toBe(
+      "Fault injection is off on this server"
+    );
+  });
+});
+
+describe("Postgres over WebSocket", () => {
+  function tunnelClient(url: string) {
+    return pg(postgres.url, {
+      max: 1,
+      ssl: false,
+      ...({ socket: () => openTunnelSocket(url) } as {}),
+    });
+  }
+
+  test("tunnels queries to the server's database", async () => {
+    const sql = tunnelClient(bunServer.wsProxyUrl);
+    try {
+      const [row] = await sql`SELECT count(*)::int AS cities FROM cities`;
+      expect(row.cities).toBeGreaterThan(0);
+    } finally {
+      await sql.end({ timeout: 5 });
+    }
+  });
+
+  test("ignores the address the client asks for", async () => {
+    const sql = tunnelClient(`${bunServer.wsProxyUrl}?address=127.0.0.1:1`);
+    try {
+      const [row] = await sql`SELECT 1 AS one`;
+      expect(row.one).toBe(1);
+    } finally {
+      await sql.end({ timeout: 5 });
+    }
+  });
+
+  test("plain requests to the proxy path are a 426", async () => {
+    const response = await get("v2");
+    expect(response.status).toBe(426);
+    expect(response.headers.get("Upgrade")).toBe("websocket");
+  });
+});
+
+describe("GET /metrics", () => {
+  // The value of one series, 0 before it first appears
+  async function scrape(series: string): Promise<number> {
+    const text = await (await get("metrics")).text();
+    const line = text.split("\n").find((l) => l.startsWith(`${series} `));
+    return line ? Number(line.slice(series.length + 1)) : 0;
+  }
+
+  test("is served in the Prometheus text format", async () => {
+    const response = await get("metrics");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toStartWith("text/plain");
+    const text = await response.text();
+    expect(text).toContain("# TYPE bunvhd_db_pool_connections gauge");
+    expect(text).toContain("bunvhd_db_pool_max 10");
+    expect(text).toContain('bunvhd_db_pool_connections{state="in_use"} 0');
+  });
+
+  test("counts requests, query latency and cache decisions", async () => {
+    const ok = 'bunvhd_http_requests_total{route="/",status="200"}';
+    const notFound =
+      'bunvhd_http_requests_total{route="/cities/:id",status="404"}';
+    const queries = 'bunvhd_query_duration_seconds_count{workload="aggregate"}';
+    const slowest =
+      'bunvhd_query_duration_seconds_bucket{workload="aggregate",le="+Inf"}';
+    const cached = 'bunvhd_cache_decisions_total{decision="ttl"}';
+    const writes = 'bunvhd_cache_decisions_total{decision="write"}';
+    const before = await Promise.all(
+      [ok, notFound, queries, cached, writes].map(scrape)
+    );
+
+    await get("?workload=aggregate&cdnCache=30");
+    await get("?workload=aggregate");
+    await get("?workload=write&cdnCache=30");
+    await get("cities/999999");
+
+    const after = await Promise.all(
+      [ok, notFound, queries, cached, writes].map(scrape)
+    );
+    expect(after.map((value, i) => value - before[i])).toEqual([3, 1, 2, 1, 1]);
+    expect(await scrape(slowest)).toBe(after[2]);
+  });
+});
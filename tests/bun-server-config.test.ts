@@ -0,0 +1,301 @@
+// tests/bun-server-config.test.ts - Config loading and validation
+/// <reference types="bun" />
+import { afterAll, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  configSummary,
+  createLogger,
+  loadServerConfig,
+} from "../bun-server-config";
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bunvhd-config-"));
+const DATABASE_URL = "postgres://localhost/bunvhd";
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function writeTempFile(name: string, contents: string): string {
+  const filePath = path.join(tempDir, name);
+  fs.writeFileSync(filePath, contents);
+  return filePath;
+}
+
+describe("loadServerConfig", () => {
+  test("plain HTTP needs nothing but DATABASE_URL", () => {
+    const { config, errors } = loadServerConfig({ DATABASE_URL, TLS: "off" });
+    expect(errors).toEqual([]);
+    expect(config).toMatchObject({
+      port: 443,
+      hostname: "0.0.0.0",
+      tls: null,
+      allowedOrigins: ["https://bunvhd.tripcafe.org"],
+      region: null,
+      poolSize: 10,
+      idleTimeout: 0,
+      maxLifetime: null,
+      statementTimeout: 0,
+      logLevel: "info",
+      logFormat: "json",
+      otlpEndpoint: null,
+      serviceName: "bunvhd-bun",
+      wsProxy: false,
+      faultInjection: false,
+      apiKeys: [],
+      signingSecret: null,
+      rateLimit: { burst: 100, perSecond: 20 },
+      databaseUrl: DATABASE_URL,
+    });
+    expect(config!.allowedOriginPatterns[0].test("http://localhost:5173")).toBe(
+      true
+    );
+  });
+
+  test("missing TLS files are reported instead of exiting", () => {
+    const { config, errors } = loadServerConfig({
+      DATABASE_URL,
+      TLS_KEY_PATH: path.join(tempDir, "missing-key.pem"),
+    });
+    expect(config).toBeNull();
+    expect(errors).toContainEqual(expect.stringContaining("tls.keyPath: "));
+  });
+
+  test("TLS paths are taken from the environment", () => {
+    const keyPath = writeTempFile("key.pem", "key");
+    const certPath = writeTempFile("cert.pem", "cert");
+    const { config } = loadServerConfig({
+      DATABASE_URL,
+      TLS_KEY_PATH: keyPath,
+      TLS_CERT_PATH: certPath,
+    });
+    expect(config!.tls).toEqual({ keyPath, certPath });
+  });
+
+  test("reads a TOML file, with the environment taking precedence", () => {
+    const configFile = writeTempFile(
+      "server.toml",
+      [
+        "port = 8080",
+        'hostname = "127.0.0.1"',
+        "plainHttp = true",
+        'region = "helsinki"',
+        "poolSize = 4",
+        'logLevel = "warn"',
+        'allowedOrigins = ["https://example.com"]',
+        'allowedOriginPatterns = ["^https://.*\\\\.example\\\\.com$"]',
+      ].join("\n")
+    );
+    const { config, errors } = loadServerConfig({
+      DATABASE_URL,
+      CONFIG_FILE: configFile,
+      PORT: "9090",
+    });
+    expect(errors).toEqual([]);
+    expect(config).toMatchObject({
+      port: 9090,
+      hostname: "127.0.0.1",
+      tls: null,
+      region: "helsinki",
+      poolSize: 4,
+      logLevel: "warn",
+      allowedOrigins: ["https://example.com"],
+    });
+    expect(config!.allowedOriginPatterns[0].test("https://a.example.com")).toBe(
+      true
+    );
+  });
+
+  test("reads a JSON file", () => {
+    const configFile = writeTempFile(
+      "server.json",
+      JSON.stringify({ plainHttp: true, region: "us-east" })
+    );
+    const { config } = loadServerConfig({
+      DATABASE_URL,
+      CONFIG_FILE: configFile,
+    });
+    expect(config!.region).toBe("us-east");
+  });
+
+  test("pool timeouts come from the file or the environment", () => {
+    const configFile = writeTempFile(
+      "pool.json",
+      JSON.stringify({ plainHttp: true, idleTimeout: 30, maxLifetime: 600 })
+    );
+    const { config, errors } = loadServerConfig({
+      DATABASE_URL,
+      CONFIG_FILE: configFile,
+      DB_STATEMENT_TIMEOUT: "2500",
+    });
+    expect(errors).toEqual([]);
+    expect(config).toMatchObject({
+      idleTimeout: 30,
+      maxLifetime: 600,
+      statementTimeout: 2500,
+    });
+
+    expect(
+      loadServerConfig({
+        DATABASE_URL,
+        TLS: "off",
+        DB_IDLE_TIMEOUT: "-1",
+        DB_MAX_LIFETIME: "0",
+        DB_STATEMENT_TIMEOUT: "soon",
+      }).errors
+    ).toEqual([
+      "idleTimeout must be an integer between 0 and 86400",
+      "maxLifetime must be an integer between 1 and 86400",
+      "statementTimeout must be an integer between 0 and 86400000",
+    ]);
+  });
+
+  test("comma-separated origins come from the environment", () => {
+    const { config } = loadServerConfig({
+      DATABASE_URL,
+      TLS: "off",
+      ALLOWED_ORIGINS: "https://a.example.com, https://b.example.com",
+    });
+    expect(config!.allowedOrigins).toEqual([
+      "https://a.example.com",
+      "https://b.example.com",
+    ]);
+  });
+
+  test("credentials and rate limits come from the environment", () => {
+    const { config, errors } = loadServerConfig({
+      DATABASE_URL,
+      TLS: "off",
+      API_KEYS: "first-key, second-key",
+      SIGNING_SECRET: "worker-secret",
+      RATE_LIMIT_BURST: "10",
+      RATE_LIMIT_PER_SECOND: "2",
+    });
+    expect(errors).toEqual([]);
+    expect(config).toMatchObject({
+      apiKeys: ["first-key", "second-key"],
+      signingSecret: "worker-secret",
+      rateLimit: { burst: 10, perSecond: 2 },
+    });
+    expect(configSummary(config!)).toMatchObject({
+      apiKeys: 2,
+      signedRequests: true,
+    });
+    const summary = JSON.stringify(configSummary(config!));
+    expect(summary).not.toContain("first-key");
+    expect(summary).not.toContain("worker-secret");
+
+    expect(
+      loadServerConfig({ DATABASE_URL, TLS: "off", RATE_LIMIT_BURST: "0" })
+        .config!.rateLimit
+    ).toBeNull();
+    expect(
+      loadServerConfig({
+        DATABASE_URL,
+        TLS: "off",
+        RATE_LIMIT_BURST: "-1",
+        RATE_LIMIT_PER_SECOND: "0",
+      }).errors
+    ).toEqual([
+      "rateLimitBurst must be an integer between 0 and 1000000",
+      "rateLimitPerSecond must be an integer between 1 and 1000000",
+    ]);
+  });
+
+  test("tracing follows the OpenTelemetry variables", () => {
+    const { config, errors } = loadServerConfig({
+      DATABASE_URL,
+      TLS: "off",
+      LOG_FORMAT: "text",
+      OTEL_EXPORTER_OTLP_ENDPOINT: "http://localhost:4318",
+      OTEL_EXPORTER_OTLP_HEADERS: "api-key=collector-secret, x-team=db",
+      OTEL_SERVICE_NAME: "bunvhd-hel",
+    });
+    expect(errors).toEqual([]);
+    expect(config).toMatchObject({
+      logFormat: "text",
+      otlpEndpoint: "http://localhost:4318",
+      otlpHeaders: { "api-key": "collector-secret", "x-team": "db" },
+      serviceName: "bunvhd-hel",
+    });
+    expect(JSON.stringify(configSummary(config!))).not.toContain(
+      "collector-secret"
+    );
+  });
+
+  test("every invalid setting is reported", () => {
+    const { config, errors } = loadServerConfig({
+      TLS: "maybe",
+      PORT: "70000",
+      REGION: "mars",
+      DB_POOL_SIZE: "0",
+      LOG_LEVEL: "loud",
+      LOG_FORMAT: "xml",
+      OTEL_EXPORTER_OTLP_ENDPOINT: "grpc://localhost:4317",
+      WS_PROXY: "yes",
+      FAULT_INJECTION: "sometimes",
+      ALLOWED_ORIGINS: "https://example.com/path",
+      ALLOWED_ORIGIN_PATTERNS: "(",
+    });
+    expect(config).toBeNull();
+    expect(errors).toEqual([
+      "port must be an integer between 0 and 65535",
+      "TLS must be 'on' or 'off'",
+      "allowedOrigins: https://example.com/path is not an origin",
+      "allowedOriginPatterns: invalid pattern (",
+      "region must be one of us-east, us-west, helsinki",
+      "poolSize must be an integer between 1 and 100",
+      "logLevel must be one of debug, info, warn, error",
+      "logFormat must be one of text, json",
+      "otlpEndpoint must be an http(s) URL",
+      "WS_PROXY must be 'on' or 'off'",
+      "FAULT_INJECTION must be 'on' or 'off'",
+      "DATABASE_URL environment variable not set",
+    ]);
+  });
+
+  test("unknown keys and unparseable files are reported", () => {
+    const typo = writeTempFile("typo.json", JSON.stringify({ prot: 80 }));
+    expect(
+      loadServerConfig({ DATABASE_URL, TLS: "off", CONFIG_FILE: typo }).errors
+    ).toEqual([`prot: unknown setting in ${typo}`]);
+
+    const broken = writeTempFile("broken.toml", "port = ");
+    const { errors } = loadServerConfig({
+      DATABASE_URL,
+      TLS: "off",
+      CONFIG_FILE: broken,
+    });
+    expect(errors[0]).toStartWith(`CONFIG_FILE: cannot parse ${broken}`);
+  });
+});
+
+describe("createLogger", () => {
+  test("drops messages below the level", () => {
+    const log = createLogger("warn");
+    expect(log.debug).not.toBe(console.log);
+    expect(log.info).not.toBe(console.log);
+    expect(log.warn).toBe(console.warn);
+    expect(log.error).toBe(console.error);
+  });
+
+  test("json lines carry the context's fields", () => {
+    const lines: string[] = [];
+    const original = console.warn;
+    console.warn = (line: string) => void lines.push(line);
+    try {
+      const log = createLogger("info", "json", () => ({ traceId: "abc" }));
+      log.debug("hidden");
+      log.warn("Readiness check failed:", new Error("timeout"));
+    } finally {
+      console.warn = original;
+    }
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: "warn",
+      message: "Readiness check failed: timeout",
+      traceId: "abc",
+    });
+  });
+});
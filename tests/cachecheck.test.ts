@@ -0,0 +1,230 @@
+// tests/cachecheck.test.ts - Cache hit classification, staleness and cache reports
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import {
+  classifyLayers,
+  createGenerationCounter,
+  endpointCacheReport,
+  outcomeOfCacheStatus,
+  summarizeCache,
+  type CacheLayer,
+  type CacheObservation,
+} from "../src/lib/cachecheck";
+import { PAGE_ENDPOINTS } from "../src/lib/endpoints";
+import { measureFetch } from "../src/lib/measure";
+import {
+  reportToMarkdown,
+  summarizeCaching,
+  summarizeEndpoints,
+  type BenchmarkSample,
+} from "../src/lib/report";
+
+const GENERATED_AT = Date.parse("2026-01-01T00:00:00.000Z");
+
+function layer(
+  id: string | null,
+  cacheStatus: string | null = null,
+  ageSeconds: number | null = null
+): CacheLayer {
+  return {
+    generation: id
+      ? {
+          id,
+          generatedAt: new Date(GENERATED_AT).toISOString(),
+          originRequest: 1,
+        }
+      : null,
+    cacheStatus,
+    ageSeconds,
+  };
+}
+
+function observation(
+  id: string,
+  receivedAfterMs: number,
+  upstream: CacheLayer | null = null
+): CacheObservation {
+  return {
+    ...layer(id),
+    receivedAt: GENERATED_AT + receivedAfterMs,
+    upstream,
+  };
+}
+
+describe("createGenerationCounter", () => {
+  test("counts renders separately per counter", () => {
+    const next = createGenerationCounter();
+    const other = createGenerationCounter();
+    expect(next().originRequest).toBe(1);
+    expect(next().originRequest).toBe(2);
+    expect(other().originRequest).toBe(1);
+  });
+});
+
+describe("classifyLayers", () => {
+  test.each([
+    ["HIT", "hit"],
+    ["UPDATING", "hit"],
+    ["REVALIDATED", "revalidated"],
+    ["EXPIRED", "miss"],
+    ["DYNAMIC", "miss"],
+    ["NONE/UNKNOWN", null],
+    [null, null],
+  ] as const)("CF-Cache-Status %s is %s", (status, outcome) => {
+    expect(outcomeOfCacheStatus(status)).toBe(outcome);
+  });
+
+  test("a repeated generation is a hit whatever the headers say", () => {
+    expect(
+      classifyLayers([
+        layer("a"),
+        layer("a", "MISS"),
+        layer("b"),
+        layer("b", "REVALIDATED"),
+        layer("c", "HIT"),
+        layer(null),
+      ])
+    ).toEqual(["miss", "hit", "miss", "revalidated", "hit", "miss"]);
+  });
+});
+
+describe("summarizeCache", () => {
+  test("counts outcomes, generations and staleness", () => {
+    const summary = summarizeCache(
+      [layer("a"), layer("a", null, 3), layer("a", "HIT", 9), layer("b")],
+      [1000, 4000, 10_000, 40_000].map((ms) => GENERATED_AT + ms),
+      30
+    );
+    expect(summary).toMatchObject({
+      samples: 4,
+      hits: 2,
+      misses: 2,
+      revalidated: 0,
+      hitRatio: 0.5,
+      generations: 2,
+      maxAgeSeconds: 9,
+      // b arrives 40 s after it was generated, past the 30 s TTL
+      overTtl: 1,
+    });
+    expect(summary.staleness.p50).toBe(7000);
+  });
+
+  test("unmeasured samples inform the classification but are not counted", () => {
+    const summary = summarizeCache(
+      [layer("a"), layer("a"), layer("a")],
+      [0, 0, 0],
+      30,
+      [false, true, true]
+    );
+    expect(summary).toMatchObject({ samples: 2, hits: 2, hitRatio: 1 });
+  });
+
+  test("an endpoint without samples has no hit ratio", () => {
+    const summary = summarizeCache([], [], 30);
+    expect(summary.hitRatio).toBeNull();
+    expect(summary.staleness.count).toBe(0);
+  });
+});
+
+describe("endpointCacheReport", () => {
+  test("summarizes the Bun upstream separately from the edge", () => {
+    const report = endpointCacheReport("bun-cached-hel", 30, [
+      { cache: observation("w1", 0, layer("u1")), measured: false },
+      { cache: observation("w2", 3000, layer("u1", "HIT")), measured: true },
+      { cache: observation("w3", 6000, layer("u1", "HIT")), measured: true },
+    ]);
+    expect(report.edge).toMatchObject({ hits: 0, misses: 2, generations: 2 });
+    expect(report.upstream).toMatchObject({
+      hits: 2,
+      hitRatio: 1,
+      generations: 1,
+    });
+  });
+
+  test("Hyperdrive endpoints have no upstream summary", () => {
+    const report = endpointCacheReport("cached-query", 30, [
+      { cache: observation("a", 0), measured: true },
+    ]);
+    expect(report.upstream).toBeNull();
+  });
+});
+
+describe("measureFetch", () => {
+  test("records cache headers and the generation apart from timings", async () => {
+    const generation = {
+      id: "g1",
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      originRequest: 3,
+    };
+    const result = await measureFetch(
+      "/api/cached-query?cdnCache=30",
+      "https://bench.example",
+      (async () =>
+        Response.json(
+          { data: [], timeMs: 1, binding: "B", generation, upstream: null },
+          { headers: { "CF-Cache-Status": "HIT", Age: "4" } }
+        )) as unknown as typeof fetch
+    );
+    expect(result.cache).toMatchObject({
+      generation,
+      cacheStatus: "HIT",
+      ageSeconds: 4,
+      upstream: null,
+    });
+    expect(result.cache!.receivedAt).toBeGreaterThan(0);
+  });
+});
+
+describe("benchmark reports", () => {
+  const endpoints = PAGE_ENDPOINTS.filter((endpoint) =>
+    ["cached-query-us-east", "non-cached-query-us-east"].includes(endpoint.id)
+  );
+
+  function sample(
+    endpoint: string,
+    runId: number,
+    cache: CacheObservation | null
+  ): BenchmarkSample {
+    return {
+      endpoint,
+      runId,
+      warmup: runId === 1,
+      clientTime: 10,
+      serverTime: 1,
+      binding: "B",
+      colo: "IAD",
+      error: null,
+      cache,
+    };
+  }
+
+  const samples = [
+    sample("cached-query-us-east", 3, observation("a", 6000)),
+    sample("cached-query-us-east", 1, observation("a", 0)),
+    sample("cached-query-us-east", 2, observation("a", 3000)),
+    sample("non-cached-query-us-east", 2, observation("n", 0)),
+  ];
+
+  test("only CDN-cached endpoints get a cache summary, in run order", () => {
+    const [cache, ...others] = summarizeCaching(endpoints, samples);
+    expect(others).toEqual([]);
+    expect(cache.endpoint).toBe("cached-query-us-east");
+    expect(cache.edge).toMatchObject({ samples: 2, hits: 2, misses: 0 });
+  });
+
+  test("Markdown adds a cache table after the timings", () => {
+    const markdown = reportToMarkdown({
+      origin: "https://bench.example",
+      startedAt: "2026-01-01T00:00:00.000Z",
+      params: {},
+      runs: 3,
+      warmupRuns: 1,
+      endpoints: summarizeEndpoints(endpoints, samples),
+      cache: summarizeCaching(endpoints, samples),
+      samples,
+    });
+    expect(markdown).toContain(
+      "| Hyperdrive US East 🇺🇸 CDN-Cached | 100% | 2 | 0 | 0 | 1 | 4500.0 | 6000.0 | 0 |"
+    );
+  });
+});
@@ -0,0 +1,432 @@
+// tests/cities.test.ts - The /cities resource contract, on the Bun server
+// and through the SvelteKit routes
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  test,
+} from "bun:test";
+import * as collectionRoute from "../src/routes/api/[endpoint]/cities/+server";
+import * as itemRoute from "../src/routes/api/[endpoint]/cities/[id]/+server";
+import {
+  createPlatform,
+  readJson,
+  startBunServer,
+  startPostgres,
+  upstreamFetch,
+  type FakePlatform,
+  type LocalBunServer,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+let bunServer: LocalBunServer;
+
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+  bunServer = await startBunServer(postgres.url);
+});
+
+afterAll(async () => {
+  await bunServer?.stop();
+  await postgres?.stop();
+});
+
+const WRITE_KEY = "cities-writer";
+
+const NEW_CITY = {
+  city_name: "Testville",
+  local_name: null,
+  country: "Testland",
+  continent: "Europe",
+  population: 1234,
+  language_spoken: "Testish",
+};
+
+interface RequestOptions {
+  method?: string;
+  body?: unknown;
+  headers?: HeadersInit;
+}
+
+type Send = (path: string, init: RequestInit) => Promise<Response>;
+
+function toRequestInit(init: RequestOptions): RequestInit {
+  return {
+    method: init.method ?? "GET",
+    headers: {
+      ...(init.body !== undefined
+        ? { "Content-Type": "application/json" }
+        : {}),
+      ...init.headers,
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  };
+}
+
+const sendToBun: Send = (path, init) =>
+  fetch(`${bunServer.origin}${path}`, init);
+
+/**
+ * Call the SvelteKit cities handlers for `endpoint` the way the router
+ * would, with `path` relative to `/api/[endpoint]`. Writes carry a key the
+ * platform accepts.
+ */
+function sendToSvelteKit(
+  endpoint: string,
+  platform: () => FakePlatform | undefined = () => createPlatform(postgres.url),
+  fetchImpl: () => typeof fetch = () => upstreamFetch(bunServer.origin).fetch
+): Send {
+  return async (path, init) => {
+    const url = new URL(`http://localhost/api/${endpoint}${path}`);
+    const id = url.pathname.match(/\/cities\/([^/]+)$/)?.[1];
+    const route: Record<string, unknown> =
+      id === undefined ? collectionRoute : itemRoute;
+    const handler = route[init.method ?? "GET"] as
+      | typeof collectionRoute.GET
+      | undefined;
+    if (!handler) throw new Error(`No ${init.method} handler for ${path}`);
+    const request = new Request(url, init);
+    if (!request.headers.has("X-Api-Key")) {
+      request.headers.set("X-Api-Key", WRITE_KEY);
+    }
+    const target = platform();
+    if (target) target.env.CITIES_WRITE_KEYS = `other-key, ${WRITE_KEY}`;
+    return handler({
+      fetch: fetchImpl(),
+      params: id === undefined ? { endpoint } : { endpoint, id },
+      locals: {},
+      platform: target,
+      url,
+      request,
+    } as unknown as Parameters<typeof handler>[0]);
+  };
+}
+
+describe.each([
+  ["Bun REST API", "", sendToBun],
+  [
+    "SvelteKit via Hyperdrive",
+    "/api/non-cached-query-us-east",
+    sendToSvelteKit("non-cached-query-us-east"),
+  ],
+  [
+    "SvelteKit via the Bun REST proxy",
+    "/api/bun-non-cached-us-east",
+    sendToSvelteKit("bun-non-cached-us-east"),
+  ],
+  [
+    "SvelteKit via Postgres over WebSocket",
+    "/api/ws-non-cached-us-east",
+    sendToSvelteKit("ws-non-cached-us-east", () =>
+      createPlatform(postgres.url, [], bunServer.wsProxyUrl)
+    ),
+  ],
+] as [string, string, Send][])("%s", (name, prefix, send) => {
+  const request = (path: string, init: RequestOptions = {}) =>
+    send(path, toRequestInit(init));
+
+  describe("GET /cities", () => {
+    test("lists cities in the timeMs envelope", async () => {
+      const response = await request("/cities?limit=5");
+      const body = await readJson(response);
+      expect(response.status).toBe(200);
+      expect(body.error).toBeNull();
+      expect(body.data).toHaveLength(5);
+      expect(body.timeMs).toBeNumber();
+      expect(body.nextCursor).toBeString();
+      expect(body.data.map((city: any) => city.city_id)).toEqual([
+        1, 2, 3, 4, 5,
+      ]);
+    });
+
+    test("cursor pagination walks every filtered city exactly once", async () => {
+      const all = await readJson(
+        await request("/cities?continent=Europe&limit=100")
+      );
+      const seen: number[] = [];
+      let cursor: string | null = "";
+      while (cursor !== null) {
+        const page: any = await readJson(
+          await request(
+            `/cities?continent=Europe&limit=7&sort=-population${
+              cursor ? `&cursor=${cursor}` : ""
+            }`
+          )
+        );
+        for (const city of page.data) {
+          expect(city.continent).toBe("Europe");
+          seen.push(city.city_id);
+        }
+        cursor = page.nextCursor;
+      }
+      expect(seen.sort((a, b) => a - b)).toEqual(
+        all.data
+          .map((city: any) => city.city_id)
+          .sort((a: number, b: number) => a - b)
+      );
+    });
+
+    test("sorts descending by population", async () => {
+      const body = await readJson(
+        await request("/cities?sort=-population&limit=10")
+      );
+      const populations = body.data.map((city: any) => city.population ?? 0);
+      expect(populations).toEqual([...populations].sort((a, b) => b - a));
+    });
+
+    test("filters by population range", async () => {
+      const body = await readJson(
+        await request("/cities?minPopulation=100000&maxPopulation=500000")
+      );
+      for (const city of body.data) {
+        expect(city.population).toBeGreaterThanOrEqual(100000);
+        expect(city.population).toBeLessThanOrEqual(500000);
+      }
+    });
+
+    test.each([
+      ["?sort=country", "sort must be one of"],
+      ["?limit=0", "limit must be between 1 and 100"],
+      ["?minPopulation=-1", "minPopulation must be a non-negative integer"],
+      ["?sort=city_name&cursor=WzEsMV0", "cursor is invalid for this sort"],
+    ])("rejects %s with a 400", async (query, message) => {
+      const response = await request(`/cities${query}`);
+      expect(response.status).toBe(400);
+      const body = await readJson(response);
+      expect(body.data).toBeNull();
+      expect(body.error).toStartWith(message);
+    });
+  });
+
+  describe("GET /cities/:id", () => {
+    test("reads one city with an ETag", async () => {
+      const response = await request("/cities/3");
+      const body = await readJson(response);
+      expect(response.status).toBe(200);
+      expect(body.data.city_id).toBe(3);
+      expect(response.headers.get("ETag")).toStartWith('W/"');
+    });
+
+    test("If-None-Match answers 304 while the city is unchanged", async () => {
+      const etag = (await request("/cities/3")).headers.get("ETag")!;
+      const response = await request("/cities/3", {
+        headers: { "If-None-Match": etag },
+      });
+      expect(response.status).toBe(304);
+      expect(response.headers.get("ETag")).toBe(etag);
+      expect(await response.text()).toBe("");
+    });
+
+    test("unknown and malformed ids are 404 and 400", async () => {
+      const missing = await request("/cities/999999");
+      expect(missing.status).toBe(404);
+      expect((await readJson(missing)).error).toBe("City 999999 not found");
+      expect((await request("/cities/abc")).status).toBe(400);
+    });
+  });
+
+  describe("writes", () => {
+    test("POST, PATCH and DELETE round-trip a city", async () => {
+      const created = await request("/cities", {
+        method: "POST",
+        body: NEW_CITY,
+      });
+      expect(created.status).toBe(201);
+      const city = (await readJson(created)).data;
+      expect(city).toMatchObject(NEW_CITY);
+      expect(created.headers.get("Location")).toBe(
+        `${prefix}/cities/${city.city_id}`
+      );
+
+      const etag = (await request(`/cities/${city.city_id}`)).headers.get(
+        "ETag"
+      )!;
+      const patched = await request(`/cities/${city.city_id}`, {
+        method: "PATCH",
+        body: { population: 4321 },
+      });
+      expect(patched.status).toBe(200);
+      expect((await readJson(patched)).data.population).toBe(4321);
+
+      // The old ETag no longer matches
+      const reread = await request(`/cities/${city.city_id}`, {
+        headers: { "If-None-Match": etag },
+      });
+      expect(reread.status).toBe(200);
+
+      const deleted = await request(`/cities/${city.city_id}`, {
+        method: "DELETE",
+      });
+      expect(deleted.status).toBe(200);
+      expect((await request(`/cities/${city.city_id}`)).status).toBe(404);
+    });
+
+    test("writes carry the ETag a GET returns, usable as If-Match", async () => {
+      const created = await request("/cities", {
+        method: "POST",
+        body: { ...NEW_CITY, city_name: `Tagtown (${name})` },
+      });
+      const path = `/cities/${(await readJson(created)).data.city_id}`;
+      expect((await request(path)).headers.get("ETag")).toBe(
+        created.headers.get("ETag")
+      );
+
+      const patched = await request(path, {
+        method: "PATCH",
+        headers: { "If-Match": created.headers.get("ETag")! },
+        body: { population: 5678 },
+      });
+      expect(patched.status).toBe(200);
+      const etag = patched.headers.get("ETag")!;
+      expect((await request(path)).headers.get("ETag")).toBe(etag);
+      expect(
+        (await request(path, { headers: { "If-None-Match": etag } })).status
+      ).toBe(304);
+
+      // The creation's ETag is stale now
+      const stale = await request(path, {
+        method: "DELETE",
+        headers: { "If-Match": created.headers.get("ETag")! },
+      });
+      expect(stale.status).toBe(412);
+      expect((await readJson(stale)).error).toEndWith("has changed");
+      const deleted = await request(path, {
+        method: "DELETE",
+        headers: { "If-Match": etag },
+      });
+      expect(deleted.status).toBe(200);
+    });
+
+    test("duplicate names within a country are a 409", async () => {
+      const body = { ...NEW_CITY, city_name: `Twinsburg (${name})` };
+      expect((await request("/cities", { method: "POST", body })).status).toBe(
+        201
+      );
+      const duplicate = await request("/cities", { method: "POST", body });
+      expect(duplicate.status).toBe(409);
+      expect((await readJson(duplicate)).error).toBe(
+        `Twinsburg (${name}) already exists in Testland`
+      );
+    });
+
+    test("names differing only in case are duplicates too", async () => {
+      const body = { ...NEW_CITY, city_name: `Casetown (${name})` };
+      expect((await request("/cities", { method: "POST", body })).status).toBe(
+        201
+      );
+      const shouted = { ...body, city_name: body.city_name.toUpperCase() };
+      expect(
+        (await request("/cities", { method: "POST", body: shouted })).status
+      ).toBe(409);
+    });
+
+    test("racing creates of one name make a single city", async () => {
+      const body = { ...NEW_CITY, city_name: `Racetown (${name})` };
+      const responses = await Promise.all(
+        [1, 2, 3].map(() => request("/cities", { method: "POST", body }))
+      );
+      expect(responses.map((r) => r.status).sort()).toEqual([201, 409, 409]);
+    });
+
+    test.each([
+      [{ ...NEW_CITY, city_id: 5 }, "city_id is assigned by the server"],
+      [{ ...NEW_CITY, mayor: "x" }, "Unknown field: mayor"],
+      [{ ...NEW_CITY, population: -5 }, "population must be an integer"],
+      [{ ...NEW_CITY, continent: "x".repeat(51) }, "continent must be"],
+      [{ city_name: "Nowhere" }, "Missing fields: country, continent"],
+      [[NEW_CITY], "Body must be a JSON object"],
+    ])("POST rejects invalid bodies: %j", async (body, message) => {
+      const response = await request("/cities", { method: "POST", body });
+      expect(response.status).toBe(400);
+      expect((await readJson(response)).error).toStartWith(message);
+    });
+
+    test("PATCH needs at least one field and an existing city", async () => {
+      expect(
+        (await request("/cities/1", { method: "PATCH", body: {} })).status
+      ).toBe(400);
+      expect(
+        (
+          await request("/cities/999999", {
+            method: "PATCH",
+            body: { population: 1 },
+          })
+        ).status
+      ).toBe(404);
+    });
+  });
+});
+
+describe("SvelteKit cities routes", () => {
+  test("unknown endpoints are a 404", async () => {
+    const send = sendToSvelteKit("nowhere");
+    await expect(send("/cities", { method: "GET" })).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  test("writes need one of the Worker's CITIES_WRITE_KEYS", async () => {
+    const endpoint = "bun-non-cached-us-east";
+    const upstream = upstreamFetch(bunServer.origin);
+    const remove = (keys: string | undefined, headers: HeadersInit) => {
+      const platform = createPlatform(postgres.url);
+      if (keys !== undefined) platform.env.CITIES_WRITE_KEYS = keys;
+      const url = new URL(`http://localhost/api/${endpoint}/cities/1`);
+      return itemRoute.DELETE({
+        fetch: upstream.fetch,
+        params: { endpoint, id: "1" },
+        locals: {},
+        platform,
+        url,
+        request: new Request(url, { method: "DELETE", headers }),
+      } as unknown as Parameters<typeof itemRoute.DELETE>[0]);
+    };
+
+    await expect(
+      remove(undefined, { "X-Api-Key": WRITE_KEY })
+    ).rejects.toMatchObject({ status: 403 });
+    await expect(remove(WRITE_KEY, {})).rejects.toMatchObject({ status: 401 });
+    await expect(
+      remove(WRITE_KEY, { "X-Api-Key": "guessed" })
+    ).rejects.toMatchObject({ status: 401 });
+    // Nothing reached the Bun server, which trusts the Worker's signature
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  test("a missing Hyperdrive binding is a 500", async () => {
+    const send = sendToSvelteKit("non-cached-query-us-east", () =>
+      createPlatform(postgres.url, ["NO-CACHED-DB-BUNVHD-US-EAST"])
+    );
+    await expect(send("/cities", { method: "GET" })).rejects.toMatchObject({
+      status: 500,
+    });
+  });
+
+  test("an unreachable Bun REST API is a 502", async () => {
+    const send = sendToSvelteKit(
+      "bun-non-cached-us-east",
+      undefined,
+      () =>
+        upstreamFetch(() => {
+          throw new TypeError("fetch failed");
+        }).fetch
+    );
+    const response = await send("/cities/1", { method: "GET" });
+    expect(response.status).toBe(502);
+    expect((await readJson(response)).data).toBeNull();
+  });
+});
+
+describe("Bun REST API", () => {
+  test("unsupported methods are a 405 with Allow", async () => {
+    const response = await sendToBun("/cities", { method: "DELETE" });
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("GET, POST");
+  });
+});
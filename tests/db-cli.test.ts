@@ -0,0 +1,54 @@
+// tests/db-cli.test.ts - Option parsing in the migration and seeding CLI
+/// <reference types="bun" />
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import path from "path";
+import { startPostgres, type LocalPostgres } from "./harness";
+
+const ROOT_DIR = path.join(import.meta.dir, "..");
+
+let postgres: LocalPostgres;
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+});
+
+afterAll(async () => {
+  await postgres?.stop();
+});
+
+async function runCli(
+  ...args: string[]
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  const cli = Bun.spawn(["bun", "bun-db-cli.ts", ...args], {
+    cwd: ROOT_DIR,
+    env: {
+      ...(process.env as Record<string, string>),
+      DATABASE_URL: postgres.url,
+    },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(cli.stdout).text(),
+    new Response(cli.stderr).text(),
+  ]);
+  return { code: await cli.exited, stdout, stderr };
+}
+
+describe("bun-db-cli.ts seed", () => {
+  test("seed 0 is a seed like any other", async () => {
+    const { code, stdout } = await runCli("seed", "--rows", "5", "--seed", "0");
+    expect(code).toBe(0);
+    expect(stdout).toContain("5 cities");
+  });
+
+  test.each([
+    [["--seed=-1"], "--seed must be a non-negative integer."],
+    [["--seed", "1.5"], "--seed must be a non-negative integer."],
+    [["--rows", "0"], "--rows must be a positive integer."],
+  ])("rejects %p", async (args, message) => {
+    const { code, stderr } = await runCli("seed", ...args);
+    expect(code).toBe(1);
+    expect(stderr).toContain(message);
+  });
+});
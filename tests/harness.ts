@@ -0,0 +1,308 @@
+// tests/harness.ts - Local Postgres, Hyperdrive, Bun REST API, WebSocket proxy and OTLP collector stand-ins
+/// <reference types="bun" />
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { isHttpError } from "@sveltejs/kit";
+import path from "path";
+import { ENDPOINT_CONFIG, type BindingKey } from "../src/lib/endpoints";
+import { GET as endpointGET } from "../src/routes/api/[endpoint]/+server";
+
+const ROOT_DIR = path.join(import.meta.dir, "..");
+const SEED_ROWS = 200;
+const STARTUP_TIMEOUT_MS = 10_000;
+
+// svelte-check types `process.env` with Vite's env values mixed in
+const baseEnv = process.env as Record<string, string>;
+
+export interface LocalPostgres {
+  url: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start an in-memory PGlite database behind a Postgres wire-protocol
+ * socket, then migrate and seed it with `bun-db-cli.ts` like a real region
+ */
+export async function startPostgres(): Promise<LocalPostgres> {
+  const db = await PGlite.create();
+  const server = new PGLiteSocketServer({
+    db,
+    host: "127.0.0.1",
+    port: 0,
+    maxConnections: 20, // Every Worker request opens its own connection
+  });
+  await server.start();
+  const url = `postgres://postgres:postgres@${server.getServerConn()}/postgres`;
+
+  const cli = Bun.spawn(
+    ["bun", "bun-db-cli.ts", "reset", "--rows", SEED_ROWS.toString()],
+    {
+      cwd: ROOT_DIR,
+      env: { ...baseEnv, DATABASE_URL: url },
+      stdout: "ignore",
+      stderr: "pipe",
+    }
+  );
+  if ((await cli.exited) !== 0) {
+    await server.stop();
+    await db.close();
+    throw new Error(`Seeding failed: ${await new Response(cli.stderr).text()}`);
+  }
+
+  return {
+    url,
+    async stop() {
+      await server.stop();
+      await db.close();
+    },
+  };
+}
+
+export interface LocalBunServer {
+  origin: string;
+  wsProxyUrl: string; // Its Postgres-over-WebSocket proxy
+  stop(): Promise<void>;
+}
+
+function freePort(): number {
+  const probe = Bun.serve({ port: 0, fetch: () => new Response() });
+  const port = probe.port!;
+  probe.stop(true);
+  return port;
+}
+
+/**
+ * Run `bun-restful-api.ts` without TLS on a random local port, with its
+ * WebSocket proxy on and rate limiting off
+ * @param env Extra settings, e.g. API keys or a rate limit
+ */
+export async function startBunServer(
+  databaseUrl: string,
+  env: Record<string, string> = {}
+): Promise<LocalBunServer> {
+  const port = freePort();
+  const origin = `http://127.0.0.1:${port}`;
+  const child = Bun.spawn(["bun", "bun-restful-api.ts"], {
+    cwd: ROOT_DIR,
+    env: {
+      ...baseEnv,
+      DATABASE_URL: databaseUrl,
+      PORT: port.toString(),
+      HOST: "127.0.0.1",
+      TLS: "off",
+      WS_PROXY: "on",
+      // The suites send far more requests than one client should
+      RATE_LIMIT_BURST: "0",
+      ...env,
+    },
+    stdout: "ignore",
+    stderr: "ignore",
+  });
+
+  // Poll until the server answers (its 404 for /ready is fine)
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (true) {
+    try {
+      await fetch(`${origin}/ready`);
+      break;
+    } catch {
+      if (child.exitCode !== null || Date.now() > deadline) {
+        child.kill();
+        throw new Error("Bun REST API did not start");
+      }
+      await Bun.sleep(50);
+    }
+  }
+
+  return {
+    origin,
+    wsProxyUrl: `ws://127.0.0.1:${port}/v2`,
+    async stop() {
+      child.kill();
+      await child.exited;
+    },
+  };
+}
+
+export interface CollectedSpan {
+  service: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId: string;
+  name: string;
+  attributes: Record<string, unknown>;
+  status: { code: number; message?: string };
+}
+
+export interface LocalCollector {
+  url: string; // For OTEL_EXPORTER_OTLP_ENDPOINT
+  spans: CollectedSpan[]; // Every span received so far
+  /**
+   * Wait until spans matching `predicate` arrive, e.g. from a Bun server's
+   * next export
+   */
+  waitFor(
+    predicate: (spans: CollectedSpan[]) => boolean,
+    timeoutMs?: number
+  ): Promise<CollectedSpan[]>;
+  stop(): void;
+}
+
+/**
+ * An OpenTelemetry collector that accepts OTLP/HTTP JSON on a random
+ * local port and keeps the spans
+ */
+export function startCollector(): LocalCollector {
+  const spans: CollectedSpan[] = [];
+  const server = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    async fetch(req) {
+      if (req.method !== "POST" || new URL(req.url).pathname !== "/v1/traces") {
+        return new Response("Not Found", { status: 404 });
+      }
+      const body: any = await req.json();
+      for (const resourceSpans of body.resourceSpans) {
+        const service = resourceSpans.resource.attributes.find(
+          (attribute: any) => attribute.key === "service.name"
+        ).value.stringValue;
+        for (const scopeSpans of resourceSpans.scopeSpans) {
+          for (const span of scopeSpans.spans) {
+            spans.push({
+              service,
+              ...span,
+              attributes: Object.fromEntries(
+                span.attributes.map((attribute: any) => [
+                  attribute.key,
+                  Object.values(attribute.value)[0],
+                ])
+              ),
+            });
+          }
+        }
+      }
+      return Response.json({});
+    },
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    spans,
+    async waitFor(predicate, timeoutMs = 5000) {
+      const deadline = Date.now() + timeoutMs;
+      while (!predicate(spans)) {
+        if (Date.now() > deadline) {
+          throw new Error("Spans did not reach the collector");
+        }
+        await Bun.sleep(50);
+      }
+      return spans;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+export interface FakePlatform {
+  env: Record<string, unknown>;
+  ctx: { waitUntil(promise: Promise<unknown>): void };
+  pending: Promise<unknown>[]; // Everything handed to `waitUntil`
+}
+
+/**
+ * A `platform` object whose Hyperdrive bindings all point at one database
+ * @param missing Binding names to leave out
+ * @param wsProxyUrl Also set the pg-websocket secrets, tunnelling through
+ * this proxy to the same database
+ */
+export function createPlatform(
+  databaseUrl: string,
+  missing: BindingKey[] = [],
+  wsProxyUrl?: string
+): FakePlatform {
+  const url = new URL(databaseUrl);
+  const binding = {
+    connectionString: databaseUrl,
+    host: url.hostname,
+    port: parseInt(url.port, 10),
+    user: url.username,
+    password: url.password,
+    database: url.pathname.slice(1),
+  };
+
+  const env: Record<string, unknown> = {};
+  for (const config of Object.values(ENDPOINT_CONFIG)) {
+    if (missing.includes(config.bindingKey)) continue;
+    if (config.type === "hyperdrive") {
+      env[config.bindingKey] = binding;
+    } else if (config.type === "pg-websocket" && wsProxyUrl) {
+      env[config.bindingKey] = databaseUrl;
+    }
+  }
+  if (wsProxyUrl) env.WS_PROXY_URL = wsProxyUrl;
+
+  const pending: Promise<unknown>[] = [];
+  return {
+    env,
+    ctx: { waitUntil: (promise) => pending.push(promise) },
+    pending,
+  };
+}
+
+/**
+ * Parse a JSON response body for assertions
+ */
+export function readJson(response: Response): Promise<any> {
+  return response.json();
+}
+
+export interface RecordingFetch {
+  fetch: typeof fetch;
+  requests: URL[]; // Upstream URLs as the handler built them
+}
+
+/**
+ * A `fetch` for the SvelteKit handler that sends the regional Bun REST
+ * API hosts to the local server, or answers with a canned response
+ */
+export function upstreamFetch(
+  target: string | (() => Response)
+): RecordingFetch {
+  const requests: URL[] = [];
+  const recorder = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    requests.push(url);
+    if (typeof target === "function") return target();
+    return fetch(`${target}${url.pathname}${url.search}`, init);
+  };
+  return { fetch: recorder as typeof fetch, requests };
+}
+
+/**
+ * A `fetch` for same-origin requests, as the Worker makes them: each goes
+ * straight to `GET /api/[endpoint]`, with thrown errors turned into
+ * responses as SvelteKit does
+ * @param upstream The handler's own `fetch`, for the Bun REST proxy
+ */
+export function routeFetch(
+  platform: FakePlatform,
+  upstream: typeof fetch = fetch
+): typeof fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    try {
+      return await endpointGET({
+        fetch: upstream,
+        params: { endpoint: url.pathname.split("/")[2] },
+        locals: {},
+        platform,
+        url,
+        request: new Request(url, init),
+      } as unknown as Parameters<typeof endpointGET>[0]);
+    } catch (e) {
+      if (!isHttpError(e)) throw e;
+      return Response.json(e.body, { status: e.status });
+    }
+  }) as typeof fetch;
+}
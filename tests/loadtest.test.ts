@@ -0,0 +1,234 @@
+// tests/loadtest.test.ts - Load-test phases, scheduling and HTTP error counting
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_LOAD_TEST_PLAN,
+  LATENCY_BUCKETS_MS,
+  httpSender,
+  loadTestUrl,
+  runLoadTest,
+  targetAt,
+  validateLoadTestPlan,
+  type LoadTestPlan,
+  type LoadWindow,
+} from "../src/lib/loadtest";
+
+function plan(overrides: Partial<LoadTestPlan>): LoadTestPlan {
+  return { ...DEFAULT_LOAD_TEST_PLAN, ...overrides };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("targetAt", () => {
+  const ramped = plan({
+    level: 10,
+    rampUpSeconds: 10,
+    steadySeconds: 20,
+    rampDownSeconds: 10,
+  });
+
+  test("ramps up, holds and ramps down linearly", () => {
+    expect(targetAt(ramped, 0)).toEqual({ phase: "ramp-up", level: 0 });
+    expect(targetAt(ramped, 5)).toEqual({ phase: "ramp-up", level: 5 });
+    expect(targetAt(ramped, 10)).toEqual({ phase: "steady", level: 10 });
+    expect(targetAt(ramped, 29)).toEqual({ phase: "steady", level: 10 });
+    expect(targetAt(ramped, 35)).toEqual({ phase: "ramp-down", level: 5 });
+    expect(targetAt(ramped, 45)).toEqual({ phase: "ramp-down", level: 0 });
+  });
+
+  test("skips phases with no duration", () => {
+    const flat = plan({ level: 3, rampUpSeconds: 0, rampDownSeconds: 0 });
+    expect(targetAt(flat, 0)).toEqual({ phase: "steady", level: 3 });
+  });
+});
+
+describe("validateLoadTestPlan", () => {
+  test("accepts the default plan", () => {
+    expect(validateLoadTestPlan(DEFAULT_LOAD_TEST_PLAN)).toBeNull();
+  });
+
+  test.each([
+    [{ level: 0 }, "level"],
+    [{ level: 2.5 }, "whole number"],
+    [{ steadySeconds: -1 }, "steadySeconds"],
+    [{ rampUpSeconds: 0, steadySeconds: 0, rampDownSeconds: 0 }, "0 seconds"],
+    [{ intervalSeconds: 0 }, "intervalSeconds"],
+    [{ maxInFlight: 0 }, "maxInFlight"],
+  ] as [Partial<LoadTestPlan>, string][])(
+    "rejects %o",
+    (overrides, message) => {
+      expect(validateLoadTestPlan(plan(overrides))).toContain(message);
+    }
+  );
+
+  test("allows fractional request rates", () => {
+    expect(validateLoadTestPlan(plan({ mode: "rps", level: 2.5 }))).toBeNull();
+  });
+});
+
+describe("runLoadTest", () => {
+  test("keeps the target number of requests in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const windows: LoadWindow[] = [];
+    const report = await runLoadTest(
+      plan({
+        level: 3,
+        rampUpSeconds: 0,
+        steadySeconds: 0.4,
+        rampDownSeconds: 0,
+        intervalSeconds: 0.2,
+      }),
+      async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await delay(20);
+        inFlight--;
+      },
+      { onWindow: (window) => windows.push(window), tickMs: 5 }
+    );
+
+    expect(peak).toBe(3);
+    expect(windows).toHaveLength(2);
+    expect(report.windows).toHaveLength(2);
+    expect(report.total.errors).toBe(0);
+    expect(report.total.completed).toBe(report.total.started);
+    expect(report.total.started).toBeGreaterThan(10);
+    expect(report.total.latency.p50).toBeGreaterThanOrEqual(15);
+    expect(report.total.histogram.reduce((a, b) => a + b, 0)).toBe(
+      report.total.completed
+    );
+    expect(report.total.histogram).toHaveLength(LATENCY_BUCKETS_MS.length);
+  });
+
+  test("starts requests at the target rate", async () => {
+    const report = await runLoadTest(
+      plan({
+        mode: "rps",
+        level: 50,
+        rampUpSeconds: 0,
+        steadySeconds: 0.5,
+        rampDownSeconds: 0,
+        intervalSeconds: 0.25,
+      }),
+      async () => {},
+      { tickMs: 5 }
+    );
+
+    expect(report.total.started).toBeGreaterThanOrEqual(20);
+    expect(report.total.started).toBeLessThanOrEqual(26);
+    expect(report.windows.every((w) => w.phase === "steady")).toBe(true);
+  });
+
+  test("drops requests beyond maxInFlight in rps mode", async () => {
+    const report = await runLoadTest(
+      plan({
+        mode: "rps",
+        level: 100,
+        rampUpSeconds: 0,
+        steadySeconds: 0.2,
+        rampDownSeconds: 0,
+        maxInFlight: 2,
+      }),
+      () => delay(300),
+      { tickMs: 5 }
+    );
+
+    expect(report.total.started).toBe(2);
+    expect(report.total.dropped).toBeGreaterThan(0);
+    expect(report.total.completed).toBe(2);
+  });
+
+  test("counts rejections as errors by message", async () => {
+    let sent = 0;
+    const report = await runLoadTest(
+      plan({
+        level: 1,
+        rampUpSeconds: 0,
+        steadySeconds: 0.2,
+        rampDownSeconds: 0,
+      }),
+      async () => {
+        await delay(5);
+        if (sent++ % 2 === 1) throw new Error("HTTP 503");
+      },
+      { tickMs: 5 }
+    );
+
+    expect(report.total.errors).toBeGreaterThan(0);
+    expect(report.errors["HTTP 503"]).toBe(report.total.errors);
+    expect(report.total.errorRate).toBeCloseTo(
+      report.total.errors / report.total.completed
+    );
+  });
+
+  test("stops sending when aborted", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const startTime = performance.now();
+    const report = await runLoadTest(
+      plan({ level: 2, rampUpSeconds: 0, steadySeconds: 60 }),
+      () => delay(10),
+      { signal: controller.signal, tickMs: 5 }
+    );
+
+    expect(performance.now() - startTime).toBeLessThan(1000);
+    expect(report.total.completed).toBe(report.total.started);
+  });
+
+  test("rejects an invalid plan", async () => {
+    await expect(
+      runLoadTest(plan({ level: 0 }), async () => {})
+    ).rejects.toThrow("level");
+  });
+});
+
+describe("loadTestUrl", () => {
+  test("cached endpoints share one CDN-cacheable URL", () => {
+    expect(loadTestUrl("https://example.com", "cached-query-us-east", 1)).toBe(
+      "https://example.com/api/cached-query-us-east?cdnCache=30"
+    );
+  });
+
+  test("non-cached endpoints get a unique path per request", () => {
+    const first = loadTestUrl("", "non-cached-query-us-east", 1, "rows=10");
+    const second = loadTestUrl("", "non-cached-query-us-east", 2, "rows=10");
+    expect(first).not.toBe(second);
+    expect(first).toMatch(/^\/api\/non-cached-query-us-east-\d+-1\?rows=10$/);
+  });
+
+  test("rejects unknown endpoints", () => {
+    expect(() => loadTestUrl("", "nope", 0)).toThrow("Unknown endpoint");
+  });
+});
+
+describe("httpSender", () => {
+  function sender(response: () => Response) {
+    return httpSender(
+      () => "https://example.com/api/x",
+      (async () => response()) as unknown as typeof fetch,
+      1000
+    );
+  }
+
+  test("resolves for a successful JSON response", async () => {
+    await sender(() => Response.json({ data: [], error: null }))();
+  });
+
+  test("rejects failed statuses and error bodies", async () => {
+    await expect(
+      sender(() => Response.json({ error: "boom" }, { status: 500 }))()
+    ).rejects.toThrow("HTTP 500");
+    await expect(
+      sender(() => Response.json({ error: "boom" }))()
+    ).rejects.toThrow("boom");
+    await expect(
+      sender(
+        () =>
+          new Response("{", { headers: { "Content-Type": "application/json" } })
+      )()
+    ).rejects.toThrow("Invalid JSON");
+  });
+});
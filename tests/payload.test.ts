@@ -0,0 +1,58 @@
+// tests/payload.test.ts - Response padding and payload stats
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import {
+  MAX_PADDING_BYTES,
+  parsePaddingBytes,
+  serializeWithPayloadStats,
+} from "../src/lib/payload";
+
+const BODY = { data: [{ id: 1, city_name: "Helsinki" }], timeMs: 2 };
+
+describe("parsePaddingBytes", () => {
+  test("reads the target size", () => {
+    const params = (bytes: string) => new URLSearchParams({ bytes });
+    expect(parsePaddingBytes(new URLSearchParams())).toEqual({
+      bytes: null,
+      error: null,
+    });
+    expect(parsePaddingBytes(params("4096")).bytes).toBe(4096);
+    expect(parsePaddingBytes(params("-1")).error).toBe(
+      "bytes must be a non-negative integer"
+    );
+    expect(parsePaddingBytes(params(`${MAX_PADDING_BYTES + 1}`)).error).toBe(
+      `bytes must be at most ${MAX_PADDING_BYTES}`
+    );
+  });
+});
+
+describe("serializeWithPayloadStats", () => {
+  test("pads the body up to the target, payload stats excluded", () => {
+    const text = serializeWithPayloadStats(BODY, 1, 1000);
+    const parsed = JSON.parse(text);
+    expect(parsed.data).toEqual(BODY.data);
+    expect(parsed.payload).toMatchObject({ rows: 1, bytes: 1000 });
+    expect(parsed.padding).toHaveLength(parsed.payload.paddingBytes);
+
+    const { payload, ...padded } = parsed;
+    expect(new TextEncoder().encode(JSON.stringify(padded)).length).toBe(1000);
+  });
+
+  test("leaves bodies at or above the target alone", () => {
+    const parsed = JSON.parse(serializeWithPayloadStats(BODY, 1, 10));
+    expect(parsed.padding).toBeUndefined();
+    expect(parsed.payload.paddingBytes).toBe(0);
+    expect(parsed.payload.bytes).toBe(JSON.stringify(BODY).length);
+  });
+
+  test("appends the trailer after the stats", () => {
+    const text = serializeWithPayloadStats(BODY, 1, null, (stats) => ({
+      sized: stats.bytes,
+    }));
+    expect(Object.keys(JSON.parse(text)).slice(-2)).toEqual([
+      "payload",
+      "sized",
+    ]);
+    expect(JSON.parse(text).sized).toBe(JSON.stringify(BODY).length);
+  });
+});
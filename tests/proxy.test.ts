@@ -0,0 +1,392 @@
+// tests/proxy.test.ts - Proxy timeouts, retries and circuit breaking, and injected faults
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  setSystemTime,
+  test,
+} from "bun:test";
+import {
+  INJECTED_FAULT_HEADER,
+  createFaultInjector,
+  parseFaultSpec,
+} from "../bun-faults";
+import {
+  DEFAULT_CIRCUIT_BREAKER,
+  DEFAULT_PROXY_POLICY,
+  createCircuitBreaker,
+  fetchWithRetries,
+  parseProxyPolicy,
+} from "../src/lib/proxy";
+import {
+  createPlatform,
+  readJson,
+  routeFetch,
+  startBunServer,
+  startPostgres,
+  upstreamFetch,
+  type LocalBunServer,
+  type LocalPostgres,
+} from "./harness";
+
+let postgres: LocalPostgres;
+let bunServer: LocalBunServer;
+
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  postgres = await startPostgres();
+  bunServer = await startBunServer(postgres.url, { FAULT_INJECTION: "on" });
+});
+
+afterAll(async () => {
+  await bunServer?.stop();
+  await postgres?.stop();
+});
+
+describe("parseProxyPolicy", () => {
+  test("falls back to the endpoint's policy", () => {
+    expect(parseProxyPolicy(new URLSearchParams())).toEqual({
+      policy: DEFAULT_PROXY_POLICY,
+      error: null,
+    });
+    expect(
+      parseProxyPolicy(new URLSearchParams("timeoutMs=250&retries=0")).policy
+    ).toEqual({ timeoutMs: 250, retries: 0 });
+  });
+
+  test.each([
+    ["timeoutMs=0", "timeoutMs must be between 1 and 10000"],
+    ["timeoutMs=soon", "timeoutMs must be between 1 and 10000"],
+    ["timeoutMs=10001", "timeoutMs must be between 1 and 10000"],
+    ["retries=3", "retries must be between 0 and 2"],
+    ["retries=-1", "retries must be between 0 and 2"],
+  ])("rejects %s", (query, message) => {
+    expect(parseProxyPolicy(new URLSearchParams(query)).error).toBe(message);
+  });
+});
+
+describe("fetchWithRetries", () => {
+  const noWait = { random: () => 0, sleep: async () => {} };
+
+  function scripted(outcomes: (number | Error)[]) {
+    let calls = 0;
+    const fetchImpl = (async () => {
+      const outcome = outcomes[Math.min(calls++, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return new Response(`status ${outcome}`, { status: outcome });
+    }) as unknown as typeof fetch;
+    return { fetchImpl };
+  }
+
+  test("retries network errors and 503s until a response", async () => {
+    const upstream = scripted([new TypeError("fetch failed"), 503, 200]);
+    const { response, attempts } = await fetchWithRetries(
+      upstream.fetchImpl,
+      "https://bun.example/",
+      {},
+      { timeoutMs: 1000, retries: 2 },
+      noWait
+    );
+    expect(response!.status).toBe(200);
+    expect(await response!.text()).toBe("status 200");
+    expect(attempts).toBe(3);
+  });
+
+  test("gives up after the retries, keeping the last response", async () => {
+    const upstream = scripted([502]);
+    const { response, attempts } = await fetchWithRetries(
+      upstream.fetchImpl,
+      "https://bun.example/",
+      {},
+      { timeoutMs: 1000, retries: 1 },
+      noWait
+    );
+    expect(response!.status).toBe(502);
+    expect(attempts).toBe(2);
+  });
+
+  test("does not retry other statuses", async () => {
+    const upstream = scripted([401]);
+    const { attempts } = await fetchWithRetries(
+      upstream.fetchImpl,
+      "https://bun.example/",
+      {},
+      { timeoutMs: 1000, retries: 3 },
+      noWait
+    );
+    expect(attempts).toBe(1);
+  });
+
+  test("waits a jittered, doubling backoff", async () => {
+    const waits: number[] = [];
+    await fetchWithRetries(
+      scripted([new TypeError("fetch failed")]).fetchImpl,
+      "https://bun.example/",
+      {},
+      { timeoutMs: 1000, retries: 3 },
+      { random: () => 0.5, sleep: async (ms) => void waits.push(ms) }
+    );
+    expect(waits).toEqual([50, 100, 200]);
+  });
+
+  test("cuts off each attempt after the timeout", async () => {
+    const hanging = ((_url: string, init: RequestInit) =>
+      new Promise((_, reject) =>
+        init.signal!.addEventListener("abort", () =>
+          reject(init.signal!.reason)
+        )
+      )) as unknown as typeof fetch;
+    const { response, error, attempts } = await fetchWithRetries(
+      hanging,
+      "https://bun.example/",
+      {},
+      { timeoutMs: 50, retries: 1 },
+      noWait
+    );
+    expect(response).toBeNull();
+    expect(error).toBe("Timed out after 50 ms (after 2 attempts)");
+    expect(attempts).toBe(2);
+  });
+});
+
+describe("createCircuitBreaker", () => {
+  test("opens after the threshold, then lets one trial through", () => {
+    const breaker = createCircuitBreaker({
+      failureThreshold: 2,
+      cooldownMs: 1000,
+    });
+    breaker.record(false, 0);
+    expect(breaker.snapshot(0)).toEqual({
+      state: "closed",
+      failures: 1,
+      retryInMs: null,
+    });
+    breaker.record(false, 0);
+    expect(breaker.allow(500)).toBe(false);
+    expect(breaker.snapshot(500)).toEqual({
+      state: "open",
+      failures: 2,
+      retryInMs: 500,
+    });
+
+    expect(breaker.allow(1000)).toBe(true);
+    expect(breaker.allow(1000)).toBe(false); // The trial is still out
+    breaker.record(false, 1100);
+    expect(breaker.snapshot(1100).state).toBe("open");
+
+    expect(breaker.allow(2100)).toBe(true);
+    breaker.record(true, 2100);
+    expect(breaker.snapshot(2100)).toEqual({
+      state: "closed",
+      failures: 0,
+      retryInMs: null,
+    });
+  });
+
+  test("a released trial frees the slot without closing", () => {
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      cooldownMs: 1000,
+    });
+    breaker.record(false, 0);
+    expect(breaker.allow(1000)).toBe(true);
+    breaker.release();
+    expect(breaker.snapshot(1000).state).toBe("half-open");
+    expect(breaker.allow(1000)).toBe(true);
+  });
+});
+
+describe("parseFaultSpec", () => {
+  test("reads every fault", () => {
+    expect(
+      parseFaultSpec("latency:200, error:0.1,drop:0.05,slowBody:500,seed:42")
+    ).toEqual({
+      spec: {
+        latencyMs: 200,
+        errorRate: 0.1,
+        dropRate: 0.05,
+        slowBodyMs: 500,
+        seed: 42,
+      },
+      error: null,
+    });
+    expect(parseFaultSpec(null)).toEqual({ spec: null, error: null });
+  });
+
+  test.each([
+    ["explode:1", "Unknown fault: explode"],
+    ["latency:-5", "latency must be a non-negative number"],
+    ["latency:60000", "latency must be at most 30000 ms"],
+    ["error:2", "error must be between 0 and 1"],
+    ["error:0.6,drop:0.6", "error and drop must add up to at most 1"],
+    ["seed:1.5", "seed must be a whole number"],
+  ])("rejects %s", (value, message) => {
+    expect(parseFaultSpec(value).error).toStartWith(message);
+  });
+});
+
+describe("createFaultInjector", () => {
+  const ok = async () => new Response("ok");
+
+  test("a seed replays the same errors", async () => {
+    const spec = parseFaultSpec("error:0.5,seed:7").spec!;
+    async function statuses() {
+      const injector = createFaultInjector();
+      const result: number[] = [];
+      for (let i = 0; i < 10; i++) {
+        result.push((await injector.apply(spec, ok)).status);
+      }
+      return result;
+    }
+    const first = await statuses();
+    expect(first).toContain(503);
+    expect(first).toContain(200);
+    expect(await statuses()).toEqual(first);
+  });
+});
+
+describe("Bun REST API with FAULT_INJECTION=on", () => {
+  function get(query: string, headers: Record<string, string> = {}) {
+    return fetch(`${bunServer.origin}/${query}`, { headers });
+  }
+
+  test("adds latency", async () => {
+    const start = performance.now();
+    const response = await get("?fault=latency:300");
+    expect(response.status).toBe(200);
+    expect(performance.now() - start).toBeGreaterThanOrEqual(290);
+  });
+
+  test("fails requests with a 503", async () => {
+    const response = await get("cities/1", { "X-Bunvhd-Fault": "error:1" });
+    expect(response.status).toBe(503);
+    expect(response.headers.get(INJECTED_FAULT_HEADER)).toBe("error");
+    expect((await readJson(response)).error).toBe("Injected fault: error");
+  });
+
+  test("drops connections", async () => {
+    await expect(get("?fault=drop:1")).rejects.toThrow();
+  });
+
+  test("slows the body down", async () => {
+    const start = performance.now();
+    const response = await get("?fault=slowBody:300");
+    const headersAt = performance.now() - start;
+    const body = await readJson(response);
+    expect(body.error).toBeNull();
+    expect(response.headers.get(INJECTED_FAULT_HEADER)).toBe("slowBody");
+    expect(performance.now() - start - headersAt).toBeGreaterThanOrEqual(200);
+  });
+
+  test("invalid specs are a 400", async () => {
+    const response = await get("?fault=latency:forever");
+    expect(response.status).toBe(400);
+    expect((await readJson(response)).error).toBe(
+      "latency must be a non-negative number"
+    );
+  });
+});
+
+describe("Worker to Bun REST API", () => {
+  const ENDPOINT = "bun-non-cached-hel";
+
+  async function query(search: string) {
+    const platform = createPlatform(postgres.url);
+    platform.env.FAULT_INJECTION = "on";
+    const upstream = upstreamFetch(bunServer.origin);
+    const response = await routeFetch(
+      platform,
+      upstream.fetch
+    )(`http://localhost/api/${ENDPOINT}?${search}`);
+    return { body: await readJson(response), upstream };
+  }
+
+  test("faults are forwarded and failed attempts retried", async () => {
+    const { body, upstream } = await query("fault=error:1&retries=1");
+    expect(upstream.requests).toHaveLength(2);
+    expect(upstream.requests[0].searchParams.get("fault")).toBe("error:1");
+    expect(body.error).toStartWith("REST API returned 503");
+    expect(body.proxy).toEqual({
+      attempts: 2,
+      timeoutMs: DEFAULT_PROXY_POLICY.timeoutMs,
+      circuit: { state: "closed", failures: 0, retryInMs: null },
+    });
+  });
+
+  test("injected faults never open the circuit", async () => {
+    for (let i = 0; i < 6; i++) {
+      await query("fault=error:1&retries=0");
+    }
+    const { body } = await query("");
+    expect(body.error).toBeNull();
+    expect(body.proxy.circuit.state).toBe("closed");
+  });
+
+  test("faults need FAULT_INJECTION=on in the Worker", async () => {
+    const upstream = upstreamFetch(bunServer.origin);
+    const response = await routeFetch(
+      createPlatform(postgres.url),
+      upstream.fetch
+    )(`http://localhost/api/${ENDPOINT}?fault=error:1`);
+    expect(response.status).toBe(403);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  test("a faulted request during half-open does not hold the trial", async () => {
+    // Its own region, so the circuit is not shared with the other tests
+    const url = "http://localhost/api/bun-non-cached-us-east";
+    const platform = createPlatform(postgres.url);
+    platform.env.FAULT_INJECTION = "on";
+    const down = upstreamFetch(() => {
+      throw new TypeError("fetch failed");
+    });
+    for (let i = 0; i < DEFAULT_CIRCUIT_BREAKER.failureThreshold; i++) {
+      await routeFetch(platform, down.fetch)(`${url}?retries=0`);
+    }
+    const up = upstreamFetch(() =>
+      Response.json({ data: [], timeMs: 1, binding: "B", error: null })
+    );
+
+    setSystemTime(new Date(Date.now() + DEFAULT_CIRCUIT_BREAKER.cooldownMs));
+    try {
+      const faulted = await readJson(
+        await routeFetch(platform, up.fetch)(`${url}?fault=error:1`)
+      );
+      expect(faulted.proxy.circuit.state).toBe("half-open");
+
+      const body = await readJson(await routeFetch(platform, up.fetch)(url));
+      expect(body.error).toBeNull();
+      expect(body.proxy.circuit.state).toBe("closed");
+      expect(up.requests).toHaveLength(2);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  test("slow upstreams time out", async () => {
+    const { body } = await query("fault=latency:1000&timeoutMs=100&retries=0");
+    expect(body.error).toBe("Timed out after 100 ms");
+    expect(body.proxy).toMatchObject({ attempts: 1, timeoutMs: 100 });
+  });
+
+  test("a success closes the circuit again", async () => {
+    const { body } = await query("");
+    expect(body.error).toBeNull();
+    expect(body.proxy.circuit).toEqual({
+      state: "closed",
+      failures: 0,
+      retryInMs: null,
+    });
+  });
+
+  test("other access types report no proxy", async () => {
+    const response = await routeFetch(createPlatform(postgres.url))(
+      "http://localhost/api/non-cached-query"
+    );
+    expect((await readJson(response)).proxy).toBeNull();
+  });
+});
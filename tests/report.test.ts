@@ -0,0 +1,173 @@
+// tests/report.test.ts - measureFetch cache busting and benchmark report formats
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import { PAGE_ENDPOINTS } from "../src/lib/endpoints";
+import { cacheBustedUrl, measureFetch } from "../src/lib/measure";
+import {
+  budgetViolations,
+  parseLatencyBudget,
+  reportToCsv,
+  reportToMarkdown,
+  summarizeCaching,
+  summarizeEndpoints,
+  type BenchmarkReport,
+  type BenchmarkSample,
+  type LatencyBudget,
+} from "../src/lib/report";
+
+const ORIGIN = "https://bench.example";
+
+function sample(overrides: Partial<BenchmarkSample>): BenchmarkSample {
+  return {
+    endpoint: "non-cached-query-us-east",
+    runId: 2,
+    warmup: false,
+    clientTime: 100,
+    serverTime: 20,
+    binding: "NON_CACHED_DB_US_EAST",
+    colo: "IAD",
+    error: null,
+    cache: null,
+    ...overrides,
+  };
+}
+
+function report(samples: BenchmarkSample[]): BenchmarkReport {
+  const endpoints = PAGE_ENDPOINTS.filter(
+    (endpoint) => endpoint.id === "non-cached-query-us-east"
+  );
+  return {
+    origin: ORIGIN,
+    startedAt: "2026-01-01T00:00:00.000Z",
+    params: { workload: "point-lookup" },
+    runs: 3,
+    warmupRuns: 1,
+    endpoints: summarizeEndpoints(endpoints, samples),
+    cache: summarizeCaching(endpoints, samples),
+    samples,
+  };
+}
+
+describe("cacheBustedUrl", () => {
+  test("gives non-cached endpoints a unique path", () => {
+    const url = new URL(
+      cacheBustedUrl("/api/non-cached-query-us-east?_nc=true&_r=1", ORIGIN)
+    );
+    expect(url.pathname).toMatch(/^\/api\/non-cached-query-us-east-\d+-\d+$/);
+    expect(url.searchParams.get("_nc")).toBe("true");
+    expect(url.searchParams.has("_r")).toBe(false);
+  });
+
+  test("leaves cached endpoints alone", () => {
+    expect(
+      cacheBustedUrl("/api/cached-query-us-east?cdnCache=30", ORIGIN)
+    ).toBe(`${ORIGIN}/api/cached-query-us-east?cdnCache=30`);
+  });
+});
+
+describe("measureFetch", () => {
+  test("reads the server time and colo from the response", async () => {
+    const requests: string[] = [];
+    const result = await measureFetch("/api/cached-query", ORIGIN, (async (
+      url: string
+    ) => {
+      requests.push(url);
+      return Response.json({ data: [], timeMs: 12, binding: "B", colo: "HEL" });
+    }) as unknown as typeof fetch);
+
+    expect(requests).toEqual([`${ORIGIN}/api/cached-query`]);
+    expect(result.serverTime).toBe(12);
+    expect(result.colo).toBe("HEL");
+    expect(result.error).toBeNull();
+    expect(result.clientTime).toBeGreaterThanOrEqual(0);
+  });
+
+  test("returns failures as results", async () => {
+    const result = await measureFetch(
+      "/api/cached-query",
+      ORIGIN,
+      (async () =>
+        new Response("down", {
+          status: 503,
+          statusText: "Service Unavailable",
+        })) as unknown as typeof fetch
+    );
+
+    expect(result.error).toBe("HTTP 503 Service Unavailable: down");
+    expect(result.binding).toBe("Fetch Error");
+    expect(result.serverTime).toBeNull();
+  });
+});
+
+describe("benchmark reports", () => {
+  const samples = [
+    sample({ runId: 1, warmup: true, clientTime: 900 }),
+    sample({ clientTime: 100 }),
+    sample({ runId: 3, clientTime: 200, serverTime: 40 }),
+    sample({ runId: 3, error: 'HTTP 500: "boom", again', clientTime: 5 }),
+  ];
+
+  test("summaries leave out warm-ups and failed samples", () => {
+    const [endpoint] = report(samples).endpoints;
+    expect(endpoint.client.count).toBe(2);
+    expect(endpoint.client.p50).toBe(150);
+    expect(endpoint.server.p50).toBe(30);
+    expect(endpoint.errors).toBe(1);
+  });
+
+  test("CSV has one escaped row per sample", () => {
+    const lines = reportToCsv(report(samples)).trim().split("\n");
+    expect(lines[0]).toBe(
+      "endpoint,run,warmup,client_ms,server_ms,binding,colo,error,cf_cache_status,age_s,generation_id"
+    );
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toStartWith("non-cached-query-us-east,1,true,900,20,");
+    expect(lines[4]).toEndWith(',"HTTP 500: ""boom"", again",,,');
+  });
+
+  test("Markdown has a row per endpoint", () => {
+    const markdown = reportToMarkdown(report(samples));
+    expect(markdown).toContain("2 measured runs after 1 warm-up");
+    expect(markdown).toContain("`workload=point-lookup`");
+    expect(markdown).toContain(
+      "| Hyperdrive US East 🇺🇸 Non-Cached | 150.0 | 190.0 | 199.0 | 30.0 | 38.0 | 1 |"
+    );
+  });
+
+  test.each([
+    ["p50=200", { metric: "client", percentile: "p50", maxMs: 200 }],
+    ["server.p99=12.5", { metric: "server", percentile: "p99", maxMs: 12.5 }],
+  ] as [string, LatencyBudget][])("parses budget %s", (spec, expected) => {
+    expect(parseLatencyBudget(spec)).toEqual({ value: expected, error: null });
+  });
+
+  test.each(["p95=100", "client.p50", "p50=-1", "total.p50=1"])(
+    "rejects budget %s",
+    (spec) => {
+      expect(parseLatencyBudget(spec).error).toContain("Invalid budget");
+    }
+  );
+
+  test("budgets report endpoints over the limit", () => {
+    const budget = (spec: string) => parseLatencyBudget(spec).value!;
+    expect(budgetViolations(report(samples), [budget("p50=150")])).toEqual([]);
+    expect(
+      budgetViolations(report(samples), [
+        budget("p90=150"),
+        budget("server.p50=10"),
+      ])
+    ).toEqual([
+      "non-cached-query-us-east: client.p90 190.0 ms > 150 ms",
+      "non-cached-query-us-east: server.p50 30.0 ms > 10 ms",
+    ]);
+  });
+
+  test("an endpoint with no successful sample breaks every budget", () => {
+    const failed = report([sample({ error: "timeout" })]);
+    expect(
+      budgetViolations(failed, [parseLatencyBudget("p50=1000").value!])
+    ).toEqual([
+      "non-cached-query-us-east: no successful samples for client.p50",
+    ]);
+  });
+});
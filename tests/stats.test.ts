@@ -0,0 +1,102 @@
+// tests/stats.test.ts - Percentiles, bootstrap intervals and permutation tests on fixed seeds
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import { createRandom } from "../src/lib/dataset";
+import {
+  bootstrapMedianCI,
+  compareSamples,
+  median,
+  percentile,
+  summarize,
+  trimmedMean,
+} from "../src/lib/stats";
+
+// One slow outlier, as a cold start gives
+const TIMES = [12, 15, 11, 14, 13, 18, 16, 12, 14, 40];
+const SEED = 42;
+
+describe("percentiles", () => {
+  test("interpolate between ranks", () => {
+    const sorted = [10, 20, 30, 40];
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile(sorted, 50)).toBe(25);
+    expect(percentile(sorted, 90)).toBeCloseTo(37);
+    expect(percentile(sorted, 100)).toBe(40);
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  test("medians sort first", () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median(TIMES)).toBe(14);
+  });
+
+  test("the trimmed mean drops the outlier", () => {
+    expect(trimmedMean(TIMES)).toBe(14.25);
+  });
+
+  test("summarize", () => {
+    expect(summarize(TIMES)).toMatchObject({
+      count: 10,
+      min: 11,
+      max: 40,
+      mean: 16.5,
+      trimmedMean: 14.25,
+      p50: 14,
+    });
+    expect(summarize(TIMES).p90).toBeCloseTo(20.2);
+    expect(summarize(TIMES).p99).toBeCloseTo(38.02);
+    expect(summarize([]).p50).toBeNull();
+  });
+});
+
+describe("bootstrapMedianCI", () => {
+  test("gives the same interval for the same seed", () => {
+    expect(bootstrapMedianCI(TIMES, 0.95, createRandom(SEED))).toEqual([
+      12, 16,
+    ]);
+    expect(bootstrapMedianCI(TIMES, 0.8, createRandom(SEED))).toEqual([
+      12.5, 15.5,
+    ]);
+  });
+
+  test("needs two values", () => {
+    expect(bootstrapMedianCI([5], 0.95, createRandom(SEED))).toBeNull();
+  });
+});
+
+describe("compareSamples", () => {
+  test("identical samples are not different", () => {
+    expect(compareSamples(TIMES, TIMES, 0.05, createRandom(SEED))).toEqual({
+      medianDiff: 0,
+      pValue: 1,
+      significant: false,
+      winner: null,
+    });
+  });
+
+  test("a clear shift is significant", () => {
+    const slower = TIMES.map((time) => time + 10);
+    const comparison = compareSamples(TIMES, slower, 0.05, createRandom(SEED));
+    expect(comparison).toMatchObject({
+      medianDiff: 10,
+      significant: true,
+      winner: "a",
+    });
+    expect(comparison!.pValue).toBeCloseTo(15 / 2001);
+  });
+
+  test("a shift within the noise is not", () => {
+    const comparison = compareSamples(
+      TIMES,
+      TIMES.map((time) => time + 1),
+      0.05,
+      createRandom(SEED)
+    );
+    expect(comparison).toMatchObject({ medianDiff: 1, significant: false });
+    expect(comparison!.pValue).toBeCloseTo(1294 / 2001);
+  });
+
+  test("needs samples on both sides", () => {
+    expect(compareSamples([], TIMES)).toBeNull();
+  });
+});
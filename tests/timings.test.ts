@@ -0,0 +1,54 @@
+// tests/timings.test.ts - Timing phases, overhead and the Server-Timing header
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import {
+  EMPTY_PHASES,
+  finalizeTimings,
+  serverTimingHeader,
+} from "../src/lib/timings";
+
+describe("finalizeTimings", () => {
+  test("overhead is what the measured phases leave of the total", () => {
+    const timings = finalizeTimings(
+      { ...EMPTY_PHASES, connectMs: 10, firstQueryMs: 14, queryMs: 5 },
+      2,
+      20
+    );
+    expect(timings).toEqual({
+      connectMs: 10,
+      firstQueryMs: 14,
+      queryMs: 5,
+      upstreamMs: null,
+      serializeMs: 2,
+      overheadMs: 3,
+      totalMs: 20,
+    });
+  });
+
+  test("an upstream fetch already contains its query", () => {
+    const timings = finalizeTimings(
+      { ...EMPTY_PHASES, queryMs: 30, upstreamMs: 50 },
+      1,
+      60
+    );
+    expect(timings.overheadMs).toBe(9);
+  });
+
+  test("overhead is never negative", () => {
+    expect(
+      finalizeTimings({ ...EMPTY_PHASES, queryMs: 10 }, 1, 8).overheadMs
+    ).toBe(0);
+  });
+});
+
+describe("serverTimingHeader", () => {
+  test("lists the measured phases in order", () => {
+    expect(
+      serverTimingHeader(
+        finalizeTimings({ ...EMPTY_PHASES, connectMs: 1.234 }, 0.5, 4)
+      )
+    ).toBe(
+      "connect;dur=1.23, serialize;dur=0.50, overhead;dur=2.27, total;dur=4.00"
+    );
+  });
+});
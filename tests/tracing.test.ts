@@ -0,0 +1,307 @@
+// tests/tracing.test.ts - Trace propagation from the page through the Worker and Bun server to Postgres
+/// <reference types="bun" />
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setDefaultTimeout,
+  spyOn,
+  test,
+} from "bun:test";
+import { handle } from "../src/hooks.server";
+import { getDbConnection } from "../src/lib/db";
+import { measureFetch } from "../src/lib/measure";
+import {
+  createTracer,
+  formatTraceparent,
+  newTraceContext,
+  parseTraceparent,
+  TRACEPARENT_HEADER,
+  traceUrl,
+} from "../src/lib/tracing";
+import { GET as endpointGET } from "../src/routes/api/[endpoint]/+server";
+import { GET as benchGET } from "../src/routes/api/bench/[endpoint]/+server";
+import {
+  createPlatform,
+  readJson,
+  startBunServer,
+  startCollector,
+  startPostgres,
+  upstreamFetch,
+  type LocalBunServer,
+  type LocalCollector,
+  type LocalPostgres,
+} from "./harness";
+
+const TRACE_URL_TEMPLATE = "http://localhost:16686/trace/{traceId}";
+
+let postgres: LocalPostgres;
+let bunServer: LocalBunServer;
+let collector: LocalCollector;
+
+setDefaultTimeout(60_000);
+
+beforeAll(async () => {
+  collector = startCollector();
+  postgres = await startPostgres();
+  bunServer = await startBunServer(postgres.url, {
+    OTEL_EXPORTER_OTLP_ENDPOINT: collector.url,
+    OTEL_SERVICE_NAME: "bunvhd-bun-test",
+  });
+});
+
+afterAll(async () => {
+  await bunServer?.stop();
+  await postgres?.stop();
+  collector?.stop();
+});
+
+describe("traceparent", () => {
+  test("round-trips", () => {
+    const context = newTraceContext();
+    expect(context.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(context.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(parseTraceparent(formatTraceparent(context))).toEqual(context);
+    expect(
+      parseTraceparent(
+        "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00"
+      )
+    ).toEqual({
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+      sampled: false,
+    });
+  });
+
+  test.each([
+    [null],
+    ["garbage"],
+    ["00-00000000000000000000000000000000-00f067aa0ba902b7-01"],
+    ["00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01"],
+    ["01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"],
+  ])("ignores %p", (header) => {
+    expect(parseTraceparent(header)).toBeNull();
+  });
+
+  test("trace links fill in the trace id", () => {
+    expect(traceUrl(TRACE_URL_TEMPLATE, "abc")).toBe(
+      "http://localhost:16686/trace/abc"
+    );
+    expect(traceUrl(undefined, "abc")).toBeNull();
+  });
+});
+
+describe("createTracer", () => {
+  test("exports finished, sampled spans to the collector", async () => {
+    const tracer = createTracer({
+      serviceName: "unit",
+      endpoint: collector.url,
+    });
+    const parent = newTraceContext();
+    const root = tracer.startSpan("GET /", parent, { kind: "server" });
+    const child = root.child("db.query", {
+      kind: "client",
+      attributes: { "db.system": "postgresql", rows: 3 },
+    });
+    child.setError("boom");
+    child.end();
+    root.end();
+    tracer.startSpan("skipped", { ...newTraceContext(), sampled: false }).end();
+    await tracer.flush();
+
+    const spans = collector.spans.filter(
+      (span) => span.traceId === parent.traceId
+    );
+    expect(spans.map((span) => span.name)).toEqual(["db.query", "GET /"]);
+    expect(spans[1]).toMatchObject({
+      service: "unit",
+      parentSpanId: parent.spanId,
+      spanId: root.context.spanId,
+    });
+    expect(spans[0]).toMatchObject({
+      parentSpanId: root.context.spanId,
+      attributes: { "db.system": "postgresql", rows: "3" },
+      status: { code: 2, message: "boom" },
+    });
+    expect(collector.spans.some((span) => span.name === "skipped")).toBe(false);
+  });
+});
+
+describe("getDbConnection", () => {
+  test("logs the connection with the request's trace ids", async () => {
+    const span = createTracer({
+      serviceName: "unit",
+      endpoint: null,
+    }).startSpan("GET /api/[endpoint]/cities", newTraceContext());
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    let lines: unknown[];
+    try {
+      await getDbConnection(postgres.url, false, "hel", {}, span).end();
+      lines = log.mock.calls.map(([line]) => line);
+    } finally {
+      log.mockRestore();
+    }
+    expect(JSON.parse(String(lines[0]))).toMatchObject({
+      level: "info",
+      message: "Created new database connection: hel_non-cached",
+      traceId: span.context.traceId,
+      spanId: span.context.spanId,
+    });
+  });
+});
+
+describe("measureFetch", () => {
+  // Answers as the Worker does, recording the trace it was sent
+  function tracingFetch(traceId?: string) {
+    return (async (_url: string, init: RequestInit) => {
+      const sent = parseTraceparent(
+        new Headers(init.headers).get(TRACEPARENT_HEADER)
+      )!;
+      const id = traceId ?? sent.traceId;
+      return Response.json({
+        data: [],
+        timeMs: 1,
+        binding: "B",
+        traceId: id,
+        traceUrl: traceUrl(TRACE_URL_TEMPLATE, id),
+      });
+    }) as unknown as typeof fetch;
+  }
+
+  test("starts a trace and links to it", async () => {
+    const result = await measureFetch(
+      "/api/cached-query",
+      "https://bench.example",
+      tracingFetch()
+    );
+    expect(result.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(result.traceUrl).toBe(
+      `http://localhost:16686/trace/${result.traceId}`
+    );
+  });
+
+  test("copies from the CDN are not linked", async () => {
+    const result = await measureFetch(
+      "/api/cached-query?cdnCache=30",
+      "https://bench.example",
+      tracingFetch("4bf92f3577b34da6a3ce929d0e0e4736")
+    );
+    expect(result.traceId).not.toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(result.traceUrl).toBeNull();
+  });
+});
+
+describe("Worker to Bun REST API to Postgres", () => {
+  // A request through the hooks and `GET /api/[endpoint]` (or, with
+  // `bench`, `GET /api/bench/[endpoint]`), as SvelteKit runs it
+  async function send(endpoint: string, traceparent: string, bench = false) {
+    const platform = createPlatform(postgres.url);
+    Object.assign(platform.env, {
+      OTEL_EXPORTER_OTLP_ENDPOINT: collector.url,
+      OTEL_SERVICE_NAME: "bunvhd-worker-test",
+      TRACE_URL_TEMPLATE,
+    });
+    const url = new URL(
+      bench
+        ? `http://localhost/api/bench/${endpoint}?workload=random&iterations=2`
+        : `http://localhost/api/${endpoint}?workload=random`
+    );
+    const response = await handle({
+      event: {
+        url,
+        request: new Request(url, {
+          headers: { [TRACEPARENT_HEADER]: traceparent },
+        }),
+        route: { id: bench ? "/api/bench/[endpoint]" : "/api/[endpoint]" },
+        params: { endpoint },
+        locals: {},
+        platform,
+        isSubRequest: false,
+        getClientAddress: () => "",
+        fetch: upstreamFetch(bunServer.origin).fetch,
+      },
+      resolve: (event: any) => (bench ? benchGET : endpointGET)(event),
+    } as unknown as Parameters<typeof handle>[0]);
+    await Promise.all(platform.pending);
+    return readJson(response);
+  }
+
+  test("one trace spans the Worker, the Bun server and its query", async () => {
+    const page = newTraceContext();
+    const body = await send("bun-non-cached-hel", formatTraceparent(page));
+    expect(body.error).toBeNull();
+    expect(body.traceId).toBe(page.traceId);
+    expect(body.traceUrl).toBe(`http://localhost:16686/trace/${page.traceId}`);
+
+    const inTrace = (spans: typeof collector.spans) =>
+      spans.filter((span) => span.traceId === page.traceId);
+    await collector.waitFor((spans) =>
+      inTrace(spans).some((span) => span.name === "db.query")
+    );
+    const spans = inTrace(collector.spans);
+
+    const workerSpan = spans.find(
+      (span) => span.name === "GET /api/[endpoint]"
+    )!;
+    expect(workerSpan).toMatchObject({
+      service: "bunvhd-worker-test",
+      parentSpanId: page.spanId,
+    });
+    const proxySpan = spans.find((span) => span.name === "GET bun-rest")!;
+    expect(proxySpan.parentSpanId).toBe(workerSpan.spanId);
+    const bunSpan = spans.find((span) => span.name === "GET /")!;
+    expect(bunSpan).toMatchObject({
+      service: "bunvhd-bun-test",
+      parentSpanId: proxySpan.spanId,
+    });
+    const querySpan = spans.find((span) => span.name === "db.query")!;
+    expect(querySpan).toMatchObject({
+      parentSpanId: bunSpan.spanId,
+      attributes: { "db.system": "postgresql", "bunvhd.workload": "random" },
+    });
+  });
+
+  test("Worker connections get connect and query spans", async () => {
+    const page = newTraceContext();
+    const body = await send("non-cached-query", formatTraceparent(page));
+    expect(body.error).toBeNull();
+
+    const spans = collector.spans.filter(
+      (span) => span.traceId === page.traceId
+    );
+    const workload = spans.find((span) => span.name === "workload random")!;
+    expect(workload).toBeDefined();
+    const children = spans.filter(
+      (span) => span.parentSpanId === workload.spanId
+    );
+    expect(children.map((span) => span.name).sort()).toEqual([
+      "db.connect",
+      "db.query",
+    ]);
+  });
+
+  test("bench iterations are traced under the Worker span", async () => {
+    const page = newTraceContext();
+    const body = await send("non-cached-query", formatTraceparent(page), true);
+    expect(body.errorCount).toBe(0);
+
+    const spans = collector.spans.filter(
+      (span) => span.traceId === page.traceId
+    );
+    const workerSpan = spans.find(
+      (span) => span.name === "GET /api/bench/[endpoint]"
+    )!;
+    expect(workerSpan.parentSpanId).toBe(page.spanId);
+    const workloads = spans.filter((span) => span.name === "workload random");
+    expect(workloads.map((span) => span.parentSpanId)).toEqual([
+      workerSpan.spanId,
+      workerSpan.spanId,
+    ]);
+  });
+
+  test("requests without a traceparent start their own trace", async () => {
+    const body = await send("non-cached-query", "not a traceparent");
+    expect(body.traceId).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
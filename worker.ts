@@ -0,0 +1,36 @@
+// worker.ts - Worker entry: the SvelteKit app plus the scheduled monitor
+//
+// wrangler.jsonc points `main` here, so `bun run build` must run first to
+// produce the app. Cron triggers are listed under `triggers.crons`; run one
+// locally with `wrangler dev --test-scheduled` and
+// `curl "http://localhost:8787/__scheduled?cron=*/5+*+*+*+*"`.
+/// <reference path="./sveltekit-worker.d.ts" />
+import type {
+  ExecutionContext,
+  ScheduledController,
+} from "@cloudflare/workers-types";
+// Built by adapter-cloudflare, missing until `bun run build`
+import app from "./.svelte-kit/cloudflare/_worker.js";
+import { runMonitorCheck } from "./src/lib/monitor";
+
+// Never requested over the network: the monitor's requests go straight to
+// the app, so they measure the Worker and its backends but not the CDN
+const MONITOR_ORIGIN = "https://monitor.invalid";
+
+export default {
+  fetch: app.fetch,
+
+  async scheduled(
+    _controller: ScheduledController,
+    env: App.Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    const appFetch = ((input: RequestInfo | URL, init?: RequestInit) =>
+      app.fetch(new Request(input, init), env, ctx)) as typeof fetch;
+    await runMonitorCheck({
+      platform: { env, ctx },
+      fetch: appFetch,
+      origin: MONITOR_ORIGIN,
+    });
+  },
+};